@@ -0,0 +1,123 @@
+import { GALLERY_FIELD } from './constants';
+
+/**
+ * 插件设置中与自动布局范围有关的部分
+ */
+export interface AutoLayoutScopeSettings {
+	enableAutoLayout?: boolean;
+	defaultFolderPath?: string | null;
+	folderJournalViews?: Record<string, string>; // 关联了手记视图的文件夹
+	autoLayoutInclude?: string[]; // 额外启用的路径（glob）
+	autoLayoutExclude?: string[]; // 排除的路径（glob），优先于文件夹和 autoLayoutInclude
+}
+
+/**
+ * 自动布局的适用范围
+ * 笔记 frontmatter 的 gallery 字段优先：true 总是启用（即使没有开启自动布局），false 总是关闭；
+ * 没有设置时，开启自动布局后默认文件夹、关联了手记视图的文件夹和包含列表中的笔记启用，排除列表中的笔记除外
+ */
+export class AutoLayoutScope {
+	private static regexCache: Map<string, RegExp> = new Map();
+
+	/**
+	 * 文件是否启用自动布局
+	 */
+	static isEnabled(
+		settings: AutoLayoutScopeSettings | null | undefined,
+		filePath: string | null | undefined,
+		frontmatter?: Record<string, unknown> | null
+	): boolean {
+		if (!filePath) return false;
+		const override = this.getNoteOverride(frontmatter);
+		if (override !== null) return override;
+		return this.isInScope(settings, filePath);
+	}
+
+	/**
+	 * 不考虑笔记自身的设置时，文件是否在自动布局范围内
+	 */
+	static isInScope(settings: AutoLayoutScopeSettings | null | undefined, filePath: string): boolean {
+		if (!settings?.enableAutoLayout) return false;
+
+		if ((settings.autoLayoutExclude ?? []).some(pattern => this.matchesPattern(pattern, filePath))) {
+			return false;
+		}
+
+		const folders = [
+			...(settings.defaultFolderPath ? [settings.defaultFolderPath] : []),
+			...Object.keys(settings.folderJournalViews ?? {}),
+		];
+		if (folders.some(folder => filePath.startsWith(folder + '/'))) {
+			return true;
+		}
+
+		return (settings.autoLayoutInclude ?? []).some(pattern => this.matchesPattern(pattern, filePath));
+	}
+
+	/**
+	 * 笔记 frontmatter 中的 gallery 字段：true 启用，false 关闭，未设置或无法识别时返回 null
+	 */
+	static getNoteOverride(frontmatter: Record<string, unknown> | null | undefined): boolean | null {
+		const value = frontmatter?.[GALLERY_FIELD];
+		if (typeof value === 'boolean') return value;
+		if (typeof value === 'string') {
+			const lower = value.trim().toLowerCase();
+			if (['true', 'yes', 'on'].includes(lower)) return true;
+			if (['false', 'no', 'off'].includes(lower)) return false;
+		}
+		return null;
+	}
+
+	/**
+	 * 路径是否匹配规则
+	 * 支持 *（不跨文件夹）、**（任意层级文件夹）和 ?；不含通配符的规则匹配该文件或文件夹中的所有文件
+	 */
+	static matchesPattern(pattern: string, filePath: string): boolean {
+		const normalized = pattern.trim().replace(/^\/+/, '').replace(/\/+$/, '');
+		if (!normalized) return false;
+
+		if (!/[*?]/.test(normalized)) {
+			return filePath === normalized || filePath.startsWith(normalized + '/');
+		}
+
+		let regex = this.regexCache.get(normalized);
+		if (!regex) {
+			regex = this.globToRegExp(normalized);
+			this.regexCache.set(normalized, regex);
+		}
+		return regex.test(filePath);
+	}
+
+	/**
+	 * 把多行文本解析为规则列表（每行一条，忽略空行）
+	 */
+	static parsePatterns(text: string): string[] {
+		return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+	}
+
+	private static globToRegExp(pattern: string): RegExp {
+		let source = '';
+		for (let i = 0; i < pattern.length; i++) {
+			const char = pattern[i];
+			if (char === '*') {
+				if (pattern[i + 1] === '*') {
+					i++;
+					if (pattern[i + 1] === '/') {
+						// **/ 匹配零层或多层文件夹
+						i++;
+						source += '(?:.*/)?';
+					} else {
+						source += '.*';
+					}
+				} else {
+					source += '[^/]*';
+				}
+			} else if (char === '?') {
+				source += '[^/]';
+			} else {
+				source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			}
+		}
+		return new RegExp(`^${source}$`);
+	}
+}
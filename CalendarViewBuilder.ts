@@ -0,0 +1,264 @@
+import { App } from 'obsidian';
+import { JournalEntry, formatDate, formatDateKey, formatTime, groupByDay, getDisplayImages, ImageInfo } from './utils';
+import { EntrySorter } from './EntrySorter';
+import { t, formatMonth, getWeekdayHeaders } from './i18n';
+import { ThumbnailCache } from './ThumbnailCache';
+import { THUMBNAIL } from './constants';
+
+/**
+ * 日历视图回调
+ */
+export interface CalendarViewCallbacks {
+	// 切换月份（offset: -1 上个月，1 下个月，0 回到本月）
+	onMonthChange: (offset: number) => void;
+	// 打开某一天的单日详情
+	onDayOpen: (date: Date) => void;
+}
+
+/**
+ * 日历视图构建器
+ * 负责根据已加载的条目渲染月历网格，不重新扫描文件
+ */
+export class CalendarViewBuilder {
+	private app: App;
+	private thumbnailCache: ThumbnailCache | null;
+	constructor(app: App, thumbnailCache: ThumbnailCache | null = null) {
+		this.app = app;
+		this.thumbnailCache = thumbnailCache;
+	}
+
+	/**
+	 * 构建月历视图
+	 * @param container 容器元素（会被清空）
+	 * @param entries 所有已加载的条目
+	 * @param month 要显示的月份（取其年份和月份）
+	 * @param callbacks 回调
+	 */
+	buildMonthView(
+		container: HTMLElement,
+		entries: JournalEntry[],
+		month: Date,
+		callbacks: CalendarViewCallbacks
+	): void {
+		container.empty();
+
+		const calendarEl = container.createDiv('journal-calendar');
+
+		// 1. 月份导航
+		this.buildNavigation(calendarEl, month, callbacks);
+
+		// 2. 星期标题（周一开始）
+		const weekdayRow = calendarEl.createDiv('journal-calendar-weekdays');
+		for (const label of getWeekdayHeaders()) {
+			weekdayRow.createDiv({ cls: 'journal-calendar-weekday', text: label });
+		}
+
+		// 3. 日期网格
+		const gridEl = calendarEl.createDiv('journal-calendar-grid');
+		const dayListEl = calendarEl.createDiv('journal-calendar-day-list');
+		this.buildGrid(gridEl, dayListEl, entries, month, callbacks);
+	}
+
+	/**
+	 * 构建月份导航栏
+	 */
+	private buildNavigation(calendarEl: HTMLElement, month: Date, callbacks: CalendarViewCallbacks): void {
+		const navEl = calendarEl.createDiv('journal-calendar-nav');
+
+		const prevBtn = navEl.createEl('button', {
+			cls: 'journal-calendar-nav-button',
+			attr: { 'aria-label': t('calendar.prevMonth') }
+		});
+		prevBtn.textContent = '‹';
+		prevBtn.addEventListener('click', () => callbacks.onMonthChange(-1));
+
+		const titleEl = navEl.createDiv('journal-calendar-title');
+		titleEl.textContent = formatMonth(month);
+
+		const nextBtn = navEl.createEl('button', {
+			cls: 'journal-calendar-nav-button',
+			attr: { 'aria-label': t('calendar.nextMonth') }
+		});
+		nextBtn.textContent = '›';
+		nextBtn.addEventListener('click', () => callbacks.onMonthChange(1));
+
+		const todayBtn = navEl.createEl('button', {
+			cls: 'journal-calendar-today-button',
+			text: t('calendar.today')
+		});
+		todayBtn.addEventListener('click', () => callbacks.onMonthChange(0));
+	}
+
+	/**
+	 * 构建日期网格
+	 */
+	private buildGrid(
+		gridEl: HTMLElement,
+		dayListEl: HTMLElement,
+		entries: JournalEntry[],
+		month: Date,
+		callbacks: CalendarViewCallbacks
+	): void {
+		const year = month.getFullYear();
+		const monthIndex = month.getMonth();
+
+		// 只索引当前月份的条目
+		const monthEntries = entries.filter(e =>
+			e.date.getFullYear() === year && e.date.getMonth() === monthIndex
+		);
+		const entriesByDay = groupByDay(monthEntries);
+
+		// 计算网格起点：本月第一天所在周的周一
+		const firstDay = new Date(year, monthIndex, 1);
+		const leadingDays = (firstDay.getDay() + 6) % 7;
+		const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+		const totalCells = Math.ceil((leadingDays + daysInMonth) / 7) * 7;
+		const todayKey = formatDateKey(new Date());
+
+		for (let i = 0; i < totalCells; i++) {
+			const cellDate = new Date(year, monthIndex, 1 - leadingDays + i);
+			const cellKey = formatDateKey(cellDate);
+			const cell = gridEl.createDiv('journal-calendar-day');
+
+			if (cellDate.getMonth() !== monthIndex) {
+				cell.addClass('journal-calendar-day-outside');
+				cell.createDiv({ cls: 'journal-calendar-day-number', text: String(cellDate.getDate()) });
+				continue;
+			}
+
+			if (cellKey === todayKey) {
+				cell.addClass('journal-calendar-day-today');
+			}
+
+			const dayEntries = entriesByDay.get(cellKey) || [];
+			if (dayEntries.length > 0) {
+				cell.addClass('journal-calendar-day-has-entry');
+				this.buildDayContent(cell, dayEntries);
+				cell.setAttribute('role', 'button');
+				cell.setAttribute('tabindex', '0');
+				cell.setAttribute('aria-label', t('calendar.dayLabel', { date: formatDate(cellDate), count: dayEntries.length }));
+
+				const handleSelect = () => {
+					this.handleDaySelect(gridEl, cell, dayListEl, cellDate, dayEntries, callbacks);
+				};
+				cell.addEventListener('click', handleSelect);
+				cell.addEventListener('keydown', (e) => {
+					if (e.key === 'Enter' || e.key === ' ') {
+						e.preventDefault();
+						handleSelect();
+					}
+				});
+			}
+
+			cell.createDiv({ cls: 'journal-calendar-day-number', text: String(cellDate.getDate()) });
+		}
+	}
+
+	/**
+	 * 构建日期格子内容：有图片显示缩略图，没有图片显示圆点
+	 */
+	private buildDayContent(cell: HTMLElement, dayEntries: JournalEntry[]): void {
+		const entryWithImage = dayEntries.find(e => getDisplayImages(e).length > 0);
+
+		if (entryWithImage) {
+			const image = getDisplayImages(entryWithImage)[0];
+			const thumb = cell.createEl('img', { cls: 'journal-calendar-thumbnail' });
+			this.loadThumbnail(thumb, image);
+			thumb.alt = image.altText || entryWithImage.title;
+			thumb.loading = 'lazy';
+			thumb.decoding = 'async';
+		} else {
+			cell.createDiv('journal-calendar-dot');
+		}
+
+		if (dayEntries.length > 1) {
+			cell.createDiv({ cls: 'journal-calendar-count', text: String(dayEntries.length) });
+		}
+	}
+
+	/**
+	 * 处理日期点击：只有一篇直接打开，多篇时列出当天的所有条目
+	 */
+	private handleDaySelect(
+		gridEl: HTMLElement,
+		cell: HTMLElement,
+		dayListEl: HTMLElement,
+		date: Date,
+		dayEntries: JournalEntry[],
+		callbacks: CalendarViewCallbacks
+	): void {
+		if (dayEntries.length === 1) {
+			this.app.workspace.openLinkText(dayEntries[0].file.path, '', true);
+			return;
+		}
+
+		gridEl.querySelectorAll('.journal-calendar-day-selected').forEach(el => {
+			el.removeClass('journal-calendar-day-selected');
+		});
+		cell.addClass('journal-calendar-day-selected');
+
+		this.buildDayList(dayListEl, date, dayEntries, callbacks);
+	}
+
+	/**
+	 * 构建当天的条目列表（按时间先后排列）
+	 */
+	private buildDayList(
+		dayListEl: HTMLElement,
+		date: Date,
+		dayEntries: JournalEntry[],
+		callbacks: CalendarViewCallbacks
+	): void {
+		dayListEl.empty();
+
+		const headerEl = dayListEl.createDiv('journal-calendar-day-list-header');
+		headerEl.createDiv({ cls: 'journal-calendar-day-list-title', text: formatDate(date) });
+		const detailBtn = headerEl.createEl('button', { cls: 'journal-calendar-day-detail-button', text: t('calendar.dayDetail') });
+		detailBtn.addEventListener('click', () => callbacks.onDayOpen(date));
+
+		const sortedEntries = [...dayEntries].sort(EntrySorter.getComparator('date-asc'));
+		for (const entry of sortedEntries) {
+			const item = dayListEl.createDiv('journal-calendar-day-list-item');
+			item.setAttribute('role', 'button');
+			item.setAttribute('tabindex', '0');
+
+			const image = getDisplayImages(entry)[0];
+			if (image) {
+				const thumb = item.createEl('img', { cls: 'journal-calendar-day-list-thumbnail' });
+				this.loadThumbnail(thumb, image);
+				thumb.alt = image.altText || entry.title;
+				thumb.loading = 'lazy';
+			}
+
+			const textEl = item.createDiv('journal-calendar-day-list-text');
+			const itemTitleEl = textEl.createDiv({ cls: 'journal-calendar-day-list-item-title', text: entry.title || entry.file.basename });
+			if (entry.hasTime) {
+				itemTitleEl.createSpan({ cls: 'journal-calendar-day-list-time', text: formatTime(entry.date) });
+			}
+			if (entry.preview) {
+				textEl.createDiv({ cls: 'journal-calendar-day-list-preview', text: entry.preview });
+			}
+
+			const openEntry = () => {
+				this.app.workspace.openLinkText(entry.file.path, '', true);
+			};
+			item.addEventListener('click', openEntry);
+			item.addEventListener('keydown', (e) => {
+				if (e.key === 'Enter' || e.key === ' ') {
+					e.preventDefault();
+					openEntry();
+				}
+			});
+		}
+	}
+	/**
+	 * 加载日期格子和当天列表中的缩略图
+	 */
+	private loadThumbnail(img: HTMLImageElement, image: ImageInfo): void {
+		if (this.thumbnailCache) {
+			this.thumbnailCache.load(img, image, THUMBNAIL.PANEL_WIDTH);
+		} else {
+			img.src = image.url;
+		}
+	}
+}
@@ -0,0 +1,191 @@
+import { App, Modal, Notice } from 'obsidian';
+import { JournalEntry, formatDate, formatDateKey, formatTime } from './utils';
+import { DateResolver, DateStrategy, DateStrategyType } from './DateResolver';
+import { logger } from './logger';
+import { t } from './i18n';
+
+/**
+ * 需要检查的条目
+ */
+interface DiagnosticItem {
+	entry: JournalEntry;
+	reason: string;
+	candidates: { date: Date; hasTime: boolean; label: string }[]; // 可以写入 frontmatter 的日期
+}
+
+/**
+ * 日期解析诊断面板
+ * 汇总每种解析规则决定了多少条目的日期，并列出使用文件时间兜底、或正文中有多个日期的文件，
+ * 可以一键把日期写入 frontmatter
+ */
+export class DateDiagnosticsModal extends Modal {
+	private entries: JournalEntry[];
+	private strategies: DateStrategy[];
+
+	/**
+	 * @param entries 视图中的所有条目
+	 * @param strategies 当前文件夹使用的日期解析规则
+	 */
+	constructor(app: App, entries: JournalEntry[], strategies: DateStrategy[]) {
+		super(app);
+		this.entries = entries;
+		this.strategies = strategies;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('journal-date-diagnostics-modal');
+		this.titleEl.setText(t('diagnostics.title'));
+		this.render().catch(error => {
+			logger.error('渲染日期解析诊断失败:', error);
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async render(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('journal-date-diagnostics');
+
+		if (this.entries.length === 0) {
+			contentEl.createDiv({ cls: 'journal-date-diagnostics-empty', text: t('diagnostics.empty') });
+			return;
+		}
+
+		this.renderSummary(contentEl);
+
+		const loadingEl = contentEl.createDiv({ cls: 'journal-date-diagnostics-empty', text: t('diagnostics.checking') });
+		const fallbackItems = this.collectFallbackItems();
+		const ambiguousItems = await this.collectAmbiguousItems();
+		loadingEl.remove();
+
+		this.renderSection(contentEl, t('diagnostics.fallbackTitle'), t('diagnostics.fallbackDesc'), fallbackItems);
+		this.renderSection(contentEl, t('diagnostics.ambiguousTitle'), t('diagnostics.ambiguousDesc'), ambiguousItems);
+	}
+
+	/**
+	 * 各解析规则决定日期的条目数
+	 */
+	private renderSummary(container: HTMLElement): void {
+		const counts = new Map<string, number>();
+		for (const entry of this.entries) {
+			const label = DateResolver.describeStrategy(entry.dateStrategy);
+			counts.set(label, (counts.get(label) || 0) + 1);
+		}
+
+		const summaryEl = container.createDiv('journal-date-diagnostics-summary');
+		Array.from(counts.entries())
+			.sort((a, b) => b[1] - a[1])
+			.forEach(([label, count]) => {
+				const item = summaryEl.createDiv('journal-date-diagnostics-summary-item');
+				item.createSpan({ cls: 'journal-date-diagnostics-summary-label', text: label });
+				item.createSpan({ cls: 'journal-date-diagnostics-summary-count', text: String(count) });
+			});
+	}
+
+	/**
+	 * 使用文件创建 / 修改时间兜底的条目
+	 */
+	private collectFallbackItems(): DiagnosticItem[] {
+		const fallbackTypes: DateStrategyType[] = ['ctime', 'mtime'];
+		return this.entries
+			.filter(entry => fallbackTypes.includes(entry.dateStrategy.type))
+			.map(entry => ({
+				entry,
+				reason: DateResolver.describeStrategy(entry.dateStrategy),
+				candidates: [{ date: entry.date, hasTime: entry.hasTime, label: DateResolver.formatFrontmatterValue(entry.date, entry.hasTime) }],
+			}));
+	}
+
+	/**
+	 * 日期来自正文、且正文中有多个不同日期的条目（需要读取文件内容）
+	 */
+	private async collectAmbiguousItems(): Promise<DiagnosticItem[]> {
+		const items: DiagnosticItem[] = [];
+		for (const entry of this.entries) {
+			if (entry.dateStrategy.type !== 'body') continue;
+
+			let content: string;
+			try {
+				content = await this.app.vault.cachedRead(entry.file);
+			} catch (error) {
+				logger.error(`读取文件失败 ${entry.file.path}:`, error);
+				continue;
+			}
+
+			const bodyDates = DateResolver.findBodyDates(content, this.strategies);
+			if (bodyDates.length <= 1) continue;
+
+			items.push({
+				entry,
+				reason: t('diagnostics.bodyDates', { dates: bodyDates.map(d => d.rawValue).join(t('common.listSeparator')) }),
+				candidates: bodyDates.map(d => ({ date: d.date, hasTime: false, label: formatDateKey(d.date) })),
+			});
+		}
+		return items;
+	}
+
+	private renderSection(container: HTMLElement, title: string, description: string, items: DiagnosticItem[]): void {
+		const section = container.createDiv('journal-date-diagnostics-section');
+		const titleEl = section.createDiv('journal-date-diagnostics-section-title');
+		titleEl.createSpan({ text: title });
+		titleEl.createSpan({ cls: 'journal-date-diagnostics-section-count', text: String(items.length) });
+
+		if (items.length === 0) {
+			section.createDiv({ cls: 'journal-date-diagnostics-section-empty', text: t('diagnostics.noIssues') });
+			return;
+		}
+
+		section.createDiv({ cls: 'journal-date-diagnostics-section-desc', text: description });
+		for (const item of items) {
+			this.renderItem(section, item);
+		}
+	}
+
+	private renderItem(container: HTMLElement, item: DiagnosticItem): void {
+		const { entry } = item;
+		const row = container.createDiv('journal-date-diagnostics-item');
+
+		const infoEl = row.createDiv('journal-date-diagnostics-info');
+		const fileEl = infoEl.createEl('a', { cls: 'journal-date-diagnostics-file', text: entry.file.path });
+		fileEl.addEventListener('click', (e) => {
+			e.preventDefault();
+			this.app.workspace.openLinkText(entry.file.path, '', true);
+		});
+
+		const currentDate = entry.hasTime ? `${formatDate(entry.date)} ${formatTime(entry.date)}` : formatDate(entry.date);
+		infoEl.createDiv({ cls: 'journal-date-diagnostics-detail', text: t('diagnostics.current', { date: currentDate, reason: item.reason }) });
+
+		const actionsEl = row.createDiv('journal-date-diagnostics-actions');
+		const field = DateResolver.getFixField(this.strategies, entry.dateStrategy);
+		if (!field) {
+			actionsEl.createDiv({
+				cls: 'journal-date-diagnostics-detail',
+				text: t('diagnostics.noFixField'),
+			});
+			return;
+		}
+
+		for (const candidate of item.candidates) {
+			const button = actionsEl.createEl('button', { text: t('diagnostics.write', { field, value: candidate.label }) });
+			button.addEventListener('click', async () => {
+				button.disabled = true;
+				try {
+					const value = DateResolver.formatFrontmatterValue(candidate.date, candidate.hasTime);
+					await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
+						frontmatter[field] = value;
+					});
+					row.addClass('is-fixed');
+					actionsEl.empty();
+					actionsEl.createDiv({ cls: 'journal-date-diagnostics-fixed', text: t('diagnostics.written', { field, value }) });
+				} catch (error) {
+					logger.error(`写入 frontmatter 失败 ${entry.file.path}:`, error);
+					new Notice(t('diagnostics.writeFailed'));
+					button.disabled = false;
+				}
+			});
+		}
+	}
+}
@@ -0,0 +1,174 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { DateResolver, DateStrategy } from './DateResolver';
+import { DateNormalizer, DateNormalizeChange } from './DateNormalizer';
+import { logger } from './logger';
+import { t } from './i18n';
+
+/**
+ * 日期规范化预览
+ * 先列出每个文件 frontmatter 的修改（原值 -> 新值），确认后再批量写入
+ */
+export class DateNormalizeModal extends Modal {
+	private files: TFile[];
+	private strategies: DateStrategy[];
+	private field: string;
+	private onComplete: () => void;
+	private changes: DateNormalizeChange[] = [];
+	private selected = new Set<string>(); // 要写入的文件路径
+	private isApplying = false;
+	private selectAllEl: HTMLInputElement | null = null;
+	private applyButton: HTMLButtonElement | null = null;
+	private checkboxes = new Map<string, HTMLInputElement>(); // 文件路径 -> 复选框
+
+	/**
+	 * @param files 目标文件夹中的文件
+	 * @param strategies 当前文件夹使用的日期解析规则
+	 * @param field 要写入的 frontmatter 字段
+	 * @param onComplete 写入完成后调用（用于刷新视图）
+	 */
+	constructor(app: App, files: TFile[], strategies: DateStrategy[], field: string, onComplete: () => void) {
+		super(app);
+		this.files = files;
+		this.strategies = strategies;
+		this.field = field;
+		this.onComplete = onComplete;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('journal-date-normalize-modal');
+		this.titleEl.setText(t('normalize.title'));
+		this.load().catch(error => {
+			logger.error('生成日期写入计划失败:', error);
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async load(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('journal-date-normalize');
+		contentEl.createDiv({ cls: 'journal-date-normalize-empty', text: t('normalize.checking', { count: this.files.length }) });
+
+		this.changes = await DateNormalizer.buildPlan(this.app, this.files, this.strategies, this.field);
+		this.selected = new Set(this.changes.map(change => change.file.path));
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const usesField = this.strategies.some(strategy => strategy.type === 'frontmatter' && strategy.pattern === this.field);
+		contentEl.createDiv({
+			cls: 'journal-date-normalize-desc',
+			text: t('normalize.desc', { count: this.files.length, field: this.field }),
+		});
+		if (!usesField) {
+			contentEl.createDiv({
+				cls: 'journal-date-normalize-warning',
+				text: t('normalize.fieldUnused', { field: this.field }),
+			});
+		}
+
+		if (this.changes.length === 0) {
+			contentEl.createDiv({ cls: 'journal-date-normalize-empty', text: t('normalize.upToDate') });
+			return;
+		}
+
+		// 全选
+		const toolbarEl = contentEl.createDiv('journal-date-normalize-toolbar');
+		const selectAllLabel = toolbarEl.createEl('label', { cls: 'journal-date-normalize-select-all' });
+		const selectAll = selectAllLabel.createEl('input', { type: 'checkbox' });
+		selectAllLabel.appendText(t('normalize.selectAll', { count: this.changes.length }));
+		selectAll.addEventListener('change', () => {
+			this.selected = selectAll.checked ? new Set(this.changes.map(change => change.file.path)) : new Set();
+			this.checkboxes.forEach(checkbox => checkbox.checked = selectAll.checked);
+			this.updateSelection();
+		});
+		this.selectAllEl = selectAll;
+
+		const listEl = contentEl.createDiv('journal-date-normalize-list');
+		this.checkboxes.clear();
+		for (const change of this.changes) {
+			this.renderChange(listEl, change);
+		}
+
+		const footerEl = contentEl.createDiv('journal-date-normalize-footer');
+		const statusEl = footerEl.createDiv('journal-date-normalize-status');
+		const applyButton = footerEl.createEl('button', { cls: 'mod-cta' });
+		applyButton.addEventListener('click', () => {
+			this.apply(applyButton, statusEl).catch(error => {
+				logger.error('写入日期失败:', error);
+			});
+		});
+		this.applyButton = applyButton;
+		this.updateSelection();
+	}
+
+	/**
+	 * 选择变化后更新全选状态和写入按钮（不重新渲染列表，保持滚动位置）
+	 */
+	private updateSelection(): void {
+		if (this.selectAllEl) {
+			this.selectAllEl.checked = this.selected.size === this.changes.length;
+			this.selectAllEl.indeterminate = this.selected.size > 0 && this.selected.size < this.changes.length;
+		}
+		if (this.applyButton) {
+			this.applyButton.textContent = t('normalize.apply', { count: this.selected.size });
+			this.applyButton.disabled = this.selected.size === 0;
+		}
+	}
+
+	/**
+	 * 单个文件的修改：- 原值 / + 新值
+	 */
+	private renderChange(listEl: HTMLElement, change: DateNormalizeChange): void {
+		const row = listEl.createDiv('journal-date-normalize-item');
+
+		const checkbox = row.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.selected.has(change.file.path);
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				this.selected.add(change.file.path);
+			} else {
+				this.selected.delete(change.file.path);
+			}
+			this.updateSelection();
+		});
+		this.checkboxes.set(change.file.path, checkbox);
+
+		const infoEl = row.createDiv('journal-date-normalize-info');
+		infoEl.createDiv({ cls: 'journal-date-normalize-file', text: change.file.path });
+
+		const diffEl = infoEl.createDiv('journal-date-normalize-diff');
+		if (change.oldValue !== null) {
+			diffEl.createDiv({ cls: 'journal-date-normalize-removed', text: `- ${this.field}: ${change.oldValue}` });
+		}
+		diffEl.createDiv({ cls: 'journal-date-normalize-added', text: `+ ${this.field}: ${change.newValue}` });
+
+		infoEl.createDiv({
+			cls: 'journal-date-normalize-source',
+			text: t('normalize.source', { source: DateResolver.describeStrategy(change.strategy), raw: change.rawValue }),
+		});
+	}
+
+	private async apply(applyButton: HTMLButtonElement, statusEl: HTMLElement): Promise<void> {
+		if (this.isApplying) return;
+		this.isApplying = true;
+		applyButton.disabled = true;
+
+		const changes = this.changes.filter(change => this.selected.has(change.file.path));
+		const succeeded = await DateNormalizer.apply(this.app, changes, this.field, (done, total) => {
+			statusEl.textContent = t('normalize.progress', { done, total });
+		});
+
+		this.isApplying = false;
+		const failed = changes.length - succeeded;
+		new Notice(failed > 0 ? t('normalize.doneWithFailures', { count: succeeded, failed }) : t('normalize.done', { count: succeeded }));
+		this.onComplete();
+		this.close();
+	}
+}
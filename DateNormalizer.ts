@@ -0,0 +1,94 @@
+import { App, TFile } from 'obsidian';
+import { DateResolver, DateStrategy } from './DateResolver';
+import { parseDate } from './utils';
+import { logger } from './logger';
+
+/**
+ * 单个文件的日期写入计划
+ */
+export interface DateNormalizeChange {
+	file: TFile;
+	oldValue: string | null; // frontmatter 中的原值（没有该字段时为 null）
+	newValue: string; // 要写入的值
+	strategy: DateStrategy; // 当前决定日期的解析规则
+	rawValue: string; // 解析规则匹配到的原始值
+}
+
+/**
+ * 日期规范化
+ * 用当前的日期解析规则重新解析文件夹中的每个文件，把结果写入 frontmatter，
+ * 这样日期不再依赖正文扫描或文件时间（同步、复制文件后不会改变），之后加载时也可以直接使用 metadata cache
+ */
+export class DateNormalizer {
+	/**
+	 * 生成写入计划（只包含需要修改的文件）
+	 * @param files 要检查的文件
+	 * @param strategies 当前文件夹使用的日期解析规则
+	 * @param field 要写入的 frontmatter 字段
+	 */
+	static async buildPlan(app: App, files: TFile[], strategies: DateStrategy[], field: string): Promise<DateNormalizeChange[]> {
+		const changes: DateNormalizeChange[] = [];
+
+		for (const file of files) {
+			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+
+			// 先尝试不读取内容，需要扫描正文时再读取
+			let resolution = DateResolver.resolve(file, frontmatter, null, strategies);
+			if (!resolution) {
+				try {
+					const content = await app.vault.cachedRead(file);
+					resolution = DateResolver.resolve(file, frontmatter, content, strategies);
+				} catch (error) {
+					logger.error(`读取文件失败 ${file.path}:`, error);
+					continue;
+				}
+			}
+			if (!resolution) continue;
+
+			// 日期已经来自该字段
+			if (resolution.strategy.type === 'frontmatter' && resolution.strategy.pattern === field) continue;
+
+			const oldValue = frontmatter?.[field] !== undefined && frontmatter?.[field] !== null ? String(frontmatter[field]) : null;
+			// 原值已经表示同一时间（只是格式不同）时不修改
+			const oldDate = oldValue ? parseDate(oldValue) : null;
+			if (oldDate && oldDate.getTime() === resolution.date.getTime()) continue;
+
+			changes.push({
+				file,
+				oldValue,
+				newValue: DateResolver.formatFrontmatterValue(resolution.date, resolution.hasTime),
+				strategy: resolution.strategy,
+				rawValue: resolution.rawValue,
+			});
+		}
+
+		return changes;
+	}
+
+	/**
+	 * 按计划写入 frontmatter
+	 * @param onProgress 每写完一个文件调用一次
+	 * @returns 写入成功的文件数
+	 */
+	static async apply(
+		app: App,
+		changes: DateNormalizeChange[],
+		field: string,
+		onProgress?: (done: number, total: number) => void
+	): Promise<number> {
+		let succeeded = 0;
+		for (let i = 0; i < changes.length; i++) {
+			const change = changes[i];
+			try {
+				await app.fileManager.processFrontMatter(change.file, (frontmatter) => {
+					frontmatter[field] = change.newValue;
+				});
+				succeeded++;
+			} catch (error) {
+				logger.error(`写入 frontmatter 失败 ${change.file.path}:`, error);
+			}
+			onProgress?.(i + 1, changes.length);
+		}
+		return succeeded;
+	}
+}
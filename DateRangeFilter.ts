@@ -0,0 +1,130 @@
+import { formatDateKey } from './utils';
+import { TranslationKey } from './i18n';
+
+// 日期范围预设（除 custom 外都相对于今天计算，重新打开时自动更新）
+export type DateRangePreset = 'all' | 'this-week' | 'this-month' | 'last-30-days' | 'this-year' | 'custom';
+
+/**
+ * 日期范围状态（保存在视图状态中）
+ */
+export interface DateRangeState {
+	preset: DateRangePreset;
+	from?: string; // 自定义范围开始日期（YYYY-MM-DD，含）
+	to?: string; // 自定义范围结束日期（YYYY-MM-DD，含）
+}
+
+/**
+ * 解析后的日期范围：[start, end)
+ */
+export interface ResolvedDateRange {
+	start: Date;
+	end: Date;
+}
+
+// 日期范围选项（用于工具栏下拉菜单，显示文本用 t(labelKey) 获取）
+export const DATE_RANGE_PRESET_OPTIONS: { value: DateRangePreset; labelKey: TranslationKey }[] = [
+	{ value: 'all', labelKey: 'dateRange.all' },
+	{ value: 'this-week', labelKey: 'dateRange.thisWeek' },
+	{ value: 'this-month', labelKey: 'dateRange.thisMonth' },
+	{ value: 'last-30-days', labelKey: 'dateRange.last30Days' },
+	{ value: 'this-year', labelKey: 'dateRange.thisYear' },
+	{ value: 'custom', labelKey: 'dateRange.custom' },
+];
+
+/**
+ * 日期范围筛选
+ */
+export class DateRangeFilter {
+	/**
+	 * 创建不限日期的范围
+	 */
+	static createAll(): DateRangeState {
+		return { preset: 'all' };
+	}
+
+	/**
+	 * 检查值是否是有效的日期范围状态（用于从视图状态恢复）
+	 */
+	static isDateRangeState(value: unknown): value is DateRangeState {
+		if (!value || typeof value !== 'object') return false;
+		const state = value as DateRangeState;
+		if (!DATE_RANGE_PRESET_OPTIONS.some(option => option.value === state.preset)) return false;
+		return (state.from === undefined || typeof state.from === 'string') &&
+			(state.to === undefined || typeof state.to === 'string');
+	}
+
+	/**
+	 * 是否限制了日期范围
+	 */
+	static isActive(state: DateRangeState): boolean {
+		return this.resolve(state) !== null;
+	}
+
+	/**
+	 * 把日期范围状态解析为具体的起止时间
+	 * @returns 不限日期（或自定义范围不完整）时返回 null
+	 */
+	static resolve(state: DateRangeState, today: Date = new Date()): ResolvedDateRange | null {
+		const year = today.getFullYear();
+		const month = today.getMonth();
+		const day = today.getDate();
+
+		switch (state.preset) {
+			case 'this-week': {
+				// 周一开始（与日历视图一致）
+				const weekStart = day - (today.getDay() + 6) % 7;
+				return { start: new Date(year, month, weekStart), end: new Date(year, month, weekStart + 7) };
+			}
+			case 'this-month':
+				return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+			case 'last-30-days':
+				return { start: new Date(year, month, day - 29), end: new Date(year, month, day + 1) };
+			case 'this-year':
+				return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+			case 'custom': {
+				let from = state.from ? this.parseDateKey(state.from) : null;
+				let to = state.to ? this.parseDateKey(state.to) : null;
+				if (!from && !to) return null;
+				if (from && to && from > to) {
+					[from, to] = [to, from];
+				}
+				return {
+					start: from || new Date(0),
+					end: to
+						? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1)
+						: new Date(8640000000000000),
+				};
+			}
+			case 'all':
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * 判断日期是否在范围内（range 为 null 表示不限）
+	 */
+	static contains(range: ResolvedDateRange | null, date: Date): boolean {
+		if (!range) return true;
+		return date >= range.start && date < range.end;
+	}
+
+	/**
+	 * 把解析后的范围转换为自定义范围（用于从预设切换到自定义时填充输入框）
+	 */
+	static toCustom(range: ResolvedDateRange | null, today: Date = new Date()): DateRangeState {
+		const resolved = range || this.resolve({ preset: 'last-30-days' }, today)!;
+		const lastDay = new Date(resolved.end.getFullYear(), resolved.end.getMonth(), resolved.end.getDate() - 1);
+		return { preset: 'custom', from: formatDateKey(resolved.start), to: formatDateKey(lastDay) };
+	}
+
+	/**
+	 * 解析 YYYY-MM-DD 为本地日期
+	 */
+	private static parseDateKey(key: string): Date | null {
+		const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+		if (!match) return null;
+		const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+		return isNaN(date.getTime()) ? null : date;
+	}
+}
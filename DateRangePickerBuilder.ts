@@ -0,0 +1,77 @@
+import { DateRangeFilter, DateRangeState, DATE_RANGE_PRESET_OPTIONS } from './DateRangeFilter';
+import { t } from './i18n';
+
+/**
+ * 日期范围选择器回调
+ */
+export interface DateRangePickerCallbacks {
+	onChange: (state: DateRangeState) => void;
+}
+
+/**
+ * 日期范围选择器构建器
+ * 预设下拉菜单 + 自定义范围的起止日期输入框
+ */
+export class DateRangePickerBuilder {
+	/**
+	 * 构建日期范围选择器
+	 * @param container 父容器
+	 * @param state 当前日期范围
+	 * @param callbacks 回调
+	 */
+	static buildPicker(
+		container: HTMLElement,
+		state: DateRangeState,
+		callbacks: DateRangePickerCallbacks
+	): HTMLElement {
+		const pickerEl = container.createDiv('journal-date-range');
+
+		const select = pickerEl.createEl('select', { cls: 'dropdown journal-date-range-select' });
+		select.setAttribute('aria-label', t('dateRange.label'));
+		for (const option of DATE_RANGE_PRESET_OPTIONS) {
+			const optionEl = select.createEl('option', { text: t(option.labelKey), value: option.value });
+			if (option.value === state.preset) optionEl.selected = true;
+		}
+		select.addEventListener('change', () => {
+			const preset = DATE_RANGE_PRESET_OPTIONS.find(option => option.value === select.value)?.value;
+			if (!preset) return;
+			if (preset === 'custom') {
+				// 切换到自定义时，用当前范围填充起止日期
+				callbacks.onChange(DateRangeFilter.toCustom(DateRangeFilter.resolve(state)));
+			} else {
+				callbacks.onChange({ preset });
+			}
+		});
+
+		if (state.preset !== 'custom') {
+			return pickerEl;
+		}
+
+		// 自定义范围：起止日期（含）
+		const fromInput = pickerEl.createEl('input', {
+			cls: 'journal-date-range-input',
+			attr: { type: 'date', 'aria-label': t('dateRange.from') },
+		});
+		fromInput.value = state.from || '';
+
+		pickerEl.createSpan({ cls: 'journal-date-range-separator', text: t('dateRange.separator') });
+
+		const toInput = pickerEl.createEl('input', {
+			cls: 'journal-date-range-input',
+			attr: { type: 'date', 'aria-label': t('dateRange.to') },
+		});
+		toInput.value = state.to || '';
+
+		const handleChange = () => {
+			callbacks.onChange({
+				preset: 'custom',
+				from: fromInput.value || undefined,
+				to: toInput.value || undefined,
+			});
+		};
+		fromInput.addEventListener('change', handleChange);
+		toInput.addEventListener('change', handleChange);
+
+		return pickerEl;
+	}
+}
@@ -0,0 +1,415 @@
+import { TFile, moment } from 'obsidian';
+import { parseDate, hasTimeComponent, formatDateKey, formatTime } from './utils';
+import { DATE_FIELDS, TIME_FIELD } from './constants';
+import { t } from './i18n';
+
+// 日期解析策略类型
+export type DateStrategyType = 'filename' | 'frontmatter' | 'body' | 'ctime' | 'mtime';
+
+/**
+ * 单个日期解析策略
+ * - filename：pattern 为 moment 格式字符串（例如 YYYYMMDD、DD-MM-YYYY、GGGG-[W]WW-ddd）
+ * - frontmatter：pattern 为字段名
+ * - body：pattern 为正则表达式，使用命名分组 year/month/day，或按顺序的前三个分组（年、月、日）
+ * - ctime / mtime：文件创建 / 修改时间，不需要 pattern
+ */
+export interface DateStrategy {
+	type: DateStrategyType;
+	pattern?: string;
+}
+
+/**
+ * 日期解析结果
+ */
+export interface DateResolution {
+	date: Date;
+	strategy: DateStrategy; // 命中的策略
+	rawValue: string; // 命中的原始值（文件名片段、字段值、正文片段或时间戳）
+	hasTime: boolean; // 是否包含具体时间（只有日期时为当天 0 点）
+}
+
+type StrategyResult = Omit<DateResolution, 'strategy'>;
+
+// 默认的文件名格式（兼容之前内置的三种格式）
+const DEFAULT_FILENAME_FORMATS = ['YYYY-M-D', 'YYYY年M月D日', 'YYYY.M.D'];
+
+// 默认的正文日期格式
+const DEFAULT_BODY_PATTERNS = [
+	'(\\d{4})年(\\d{1,2})月(\\d{1,2})日',
+	'(\\d{4})-(\\d{1,2})-(\\d{1,2})',
+	'(\\d{4})/(\\d{1,2})/(\\d{1,2})',
+];
+
+// moment 格式 token 对应的正则（按长度从长到短匹配）
+const FORMAT_TOKENS: [string, string][] = [
+	['YYYY', '\\d{4}'], ['GGGG', '\\d{4}'], ['gggg', '\\d{4}'],
+	['MMMM', '\\p{L}+'], ['MMM', '\\p{L}+'], ['dddd', '\\p{L}+'], ['ddd', '\\p{L}+'], ['dd', '\\p{L}+'],
+	['YY', '\\d{2}'], ['MM', '\\d{2}'], ['DD', '\\d{2}'], ['WW', '\\d{2}'], ['ww', '\\d{2}'],
+	['HH', '\\d{2}'], ['hh', '\\d{2}'], ['mm', '\\d{2}'], ['ss', '\\d{2}'],
+	['M', '\\d{1,2}'], ['D', '\\d{1,2}'], ['W', '\\d{1,2}'], ['w', '\\d{1,2}'],
+	['H', '\\d{1,2}'], ['h', '\\d{1,2}'], ['m', '\\d{1,2}'], ['s', '\\d{1,2}'],
+	['E', '[1-7]'], ['e', '[0-6]'], ['d', '[0-6]'], ['A', '(?:AM|PM|am|pm)'], ['a', '(?:am|pm|AM|PM)'],
+];
+
+/**
+ * 日期解析器
+ * 按顺序尝试一组策略，第一个成功的策略决定条目日期
+ */
+export class DateResolver {
+	/**
+	 * 默认策略：文件名 -> frontmatter 默认字段 -> 正文 -> 文件创建时间
+	 * @param customDateField 文件夹配置的日期字段；指定时文件名之后只使用该字段（代替默认字段），失败后直接使用文件创建时间（不扫描正文）
+	 */
+	static getDefaultStrategies(customDateField?: string): DateStrategy[] {
+		const filenameStrategies: DateStrategy[] = DEFAULT_FILENAME_FORMATS.map(pattern => ({ type: 'filename', pattern }));
+
+		if (customDateField) {
+			return [
+				...filenameStrategies,
+				{ type: 'frontmatter', pattern: customDateField },
+				{ type: 'ctime' },
+			];
+		}
+
+		return [
+			...filenameStrategies,
+			...DATE_FIELDS.map(field => ({ type: 'frontmatter', pattern: field } as DateStrategy)),
+			...DEFAULT_BODY_PATTERNS.map(pattern => ({ type: 'body', pattern } as DateStrategy)),
+			{ type: 'ctime' },
+		];
+	}
+
+	/**
+	 * 按顺序解析日期
+	 * @param file 文件
+	 * @param frontmatter 文件的 frontmatter（来自 metadata cache）
+	 * @param content 文件内容；传 null 表示还没有读取内容，遇到正文策略时停止并返回 null
+	 * @param strategies 策略列表
+	 * @returns 第一个成功的策略的结果；所有策略都失败（或需要读取内容）时返回 null
+	 * 命中的结果没有具体时间时，使用 frontmatter 中的 time 字段（例如 14:30）补充时间
+	 */
+	static resolve(
+		file: TFile,
+		frontmatter: Record<string, any> | undefined,
+		content: string | null,
+		strategies: DateStrategy[]
+	): DateResolution | null {
+		for (const strategy of strategies) {
+			if (strategy.type === 'body' && content === null) {
+				return null;
+			}
+			const result = this.applyStrategy(file, frontmatter, content || '', strategy);
+			if (result) {
+				if (!result.hasTime) {
+					this.applyTimeField(result, frontmatter?.[TIME_FIELD]);
+				}
+				return { ...result, strategy };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * 写入 frontmatter 的日期值：YYYY-MM-DD，有时间时为 YYYY-MM-DDTHH:mm
+	 */
+	static formatFrontmatterValue(date: Date, hasTime: boolean): string {
+		return hasTime ? `${formatDateKey(date)}T${formatTime(date)}` : formatDateKey(date);
+	}
+
+	/**
+	 * frontmatter 中是否已经保存了与解析结果相同的日期（任一 frontmatter 规则的字段）
+	 * 保存了时可以直接使用 metadata cache，不需要读取文件内容
+	 */
+	static isStoredInFrontmatter(
+		resolution: DateResolution,
+		frontmatter: Record<string, any> | undefined,
+		strategies: DateStrategy[]
+	): boolean {
+		if (!frontmatter) return false;
+		return strategies.some(strategy => {
+			if (strategy.type !== 'frontmatter' || !strategy.pattern) return false;
+			const date = parseDate(frontmatter[strategy.pattern]);
+			return date !== null && date.getTime() === resolution.date.getTime();
+		});
+	}
+
+	/**
+	 * 策略的显示名称（用于诊断面板）
+	 */
+	static describeStrategy(strategy: DateStrategy): string {
+		switch (strategy.type) {
+			case 'filename':
+				return t('dateSource.filename', { pattern: strategy.pattern ?? '' });
+			case 'frontmatter':
+				return t('dateSource.frontmatter', { field: strategy.pattern ?? '' });
+			case 'body':
+				return t('dateSource.body');
+			case 'ctime':
+				return t('dateSource.ctime');
+			case 'mtime':
+				return t('dateSource.mtime');
+			default:
+				return strategy.type;
+		}
+	}
+
+	/**
+	 * 找出正文中所有正文策略能识别的日期（按日期去重，按出现顺序排列）
+	 * 有多个不同日期时，正文策略选中的日期可能不是用户想要的
+	 */
+	static findBodyDates(content: string, strategies: DateStrategy[]): { date: Date; rawValue: string }[] {
+		const found: { date: Date; rawValue: string; index: number }[] = [];
+		const seenKeys = new Set<string>();
+
+		for (const strategy of strategies) {
+			if (strategy.type !== 'body' || !strategy.pattern) continue;
+
+			let regex: RegExp;
+			try {
+				regex = new RegExp(strategy.pattern, 'g');
+			} catch {
+				continue;
+			}
+
+			let match: RegExpExecArray | null;
+			while ((match = regex.exec(content)) !== null) {
+				if (match[0].length === 0) {
+					regex.lastIndex++;
+					continue;
+				}
+				const result = this.parseBody(match[0], strategy.pattern);
+				if (!result) continue;
+
+				const key = formatDateKey(result.date);
+				if (seenKeys.has(key)) continue;
+				seenKeys.add(key);
+				found.push({ date: result.date, rawValue: result.rawValue, index: match.index });
+			}
+		}
+
+		return found
+			.sort((a, b) => a.index - b.index)
+			.map(({ date, rawValue }) => ({ date, rawValue }));
+	}
+
+	/**
+	 * 找到可以用来修正日期的 frontmatter 字段：策略列表中位于命中策略之前的第一个 frontmatter 策略
+	 * 把日期写入该字段后，下次解析会由该字段决定日期
+	 * @returns 字段名；命中策略之前没有 frontmatter 策略时返回 null
+	 */
+	static getFixField(strategies: DateStrategy[], winning: DateStrategy): string | null {
+		for (const strategy of strategies) {
+			if (strategy.type === winning.type && strategy.pattern === winning.pattern) break;
+			if (strategy.type === 'frontmatter' && strategy.pattern) return strategy.pattern;
+		}
+		return null;
+	}
+
+	/**
+	 * 把策略列表格式化为文本（每行一条，用于设置页面编辑）
+	 */
+	static formatStrategies(strategies: DateStrategy[]): string {
+		return strategies
+			.map(strategy => strategy.pattern !== undefined ? `${strategy.type}: ${strategy.pattern}` : strategy.type)
+			.join('\n');
+	}
+
+	/**
+	 * 解析设置页面中的策略文本（每行一条："类型: 参数"）
+	 * @returns 解析结果和无法识别的行
+	 */
+	static parseStrategies(text: string): { strategies: DateStrategy[]; invalidLines: string[] } {
+		const strategies: DateStrategy[] = [];
+		const invalidLines: string[] = [];
+
+		for (const rawLine of text.split('\n')) {
+			const line = rawLine.trim();
+			if (!line) continue;
+
+			const separatorIndex = line.indexOf(':');
+			const type = (separatorIndex >= 0 ? line.substring(0, separatorIndex) : line).trim().toLowerCase();
+			const pattern = separatorIndex >= 0 ? line.substring(separatorIndex + 1).trim() : '';
+			const strategy: DateStrategy = pattern ? { type: type as DateStrategyType, pattern } : { type: type as DateStrategyType };
+
+			if (this.isDateStrategy(strategy)) {
+				strategies.push(strategy);
+			} else {
+				invalidLines.push(line);
+			}
+		}
+
+		return { strategies, invalidLines };
+	}
+
+	/**
+	 * 检查值是否是有效的策略（用于读取设置）
+	 */
+	static isDateStrategy(value: unknown): value is DateStrategy {
+		if (!value || typeof value !== 'object') return false;
+		const strategy = value as DateStrategy;
+		switch (strategy.type) {
+			case 'filename':
+			case 'frontmatter':
+				return typeof strategy.pattern === 'string' && strategy.pattern.length > 0;
+			case 'body':
+				if (typeof strategy.pattern !== 'string' || strategy.pattern.length === 0) return false;
+				try {
+					new RegExp(strategy.pattern);
+					return true;
+				} catch {
+					return false;
+				}
+			case 'ctime':
+			case 'mtime':
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	private static applyStrategy(
+		file: TFile,
+		frontmatter: Record<string, any> | undefined,
+		content: string,
+		strategy: DateStrategy
+	): StrategyResult | null {
+		switch (strategy.type) {
+			case 'filename':
+				return this.parseFileName(file.basename, strategy.pattern || '');
+			case 'frontmatter': {
+				const value = frontmatter?.[strategy.pattern || ''];
+				if (!value) return null;
+				const date = parseDate(value);
+				return date ? { date, rawValue: String(value), hasTime: hasTimeComponent(value) } : null;
+			}
+			case 'body':
+				return this.parseBody(content, strategy.pattern || '');
+			case 'ctime':
+				return { date: new Date(file.stat.ctime), rawValue: new Date(file.stat.ctime).toISOString(), hasTime: true };
+			case 'mtime':
+				return { date: new Date(file.stat.mtime), rawValue: new Date(file.stat.mtime).toISOString(), hasTime: true };
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * 在文件名中查找符合 moment 格式的片段（片段可以位于文件名任意位置）
+	 * 格式中没有时间时，识别紧跟在日期后面的 HH-mm 后缀（例如 2026-01-12-14-30，新建笔记重名时生成）
+	 */
+	private static parseFileName(fileName: string, format: string): StrategyResult | null {
+		if (!format) return null;
+
+		let regex: RegExp;
+		try {
+			// 前后不能紧挨数字，避免从更长的数字串中截取
+			regex = new RegExp(`(?<!\\d)${this.formatToRegex(format)}(?!\\d)`, 'gu');
+		} catch {
+			return null;
+		}
+
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(fileName)) !== null) {
+			const parsed = moment(match[0], format, true);
+			if (parsed.isValid()) {
+				if (this.formatHasTime(format)) {
+					return { date: parsed.toDate(), rawValue: match[0], hasTime: true };
+				}
+
+				const suffix = fileName.substring(match.index + match[0].length).match(/^[-_ ](\d{2})-(\d{2})(?!\d)/);
+				const hours = suffix ? parseInt(suffix[1]) : NaN;
+				const minutes = suffix ? parseInt(suffix[2]) : NaN;
+				if (suffix && hours < 24 && minutes < 60) {
+					parsed.hours(hours).minutes(minutes);
+					return { date: parsed.toDate(), rawValue: match[0] + suffix[0], hasTime: true };
+				}
+				return { date: parsed.toDate(), rawValue: match[0], hasTime: false };
+			}
+			// 避免零长度匹配导致死循环
+			if (match[0].length === 0) regex.lastIndex++;
+		}
+		return null;
+	}
+
+	/**
+	 * 用正则从正文中提取日期
+	 */
+	private static parseBody(content: string, pattern: string): StrategyResult | null {
+		let match: RegExpMatchArray | null;
+		try {
+			match = content.match(new RegExp(pattern));
+		} catch {
+			return null;
+		}
+		if (!match) return null;
+
+		const groups = (match as any).groups as Record<string, string> | undefined;
+		const year = parseInt(groups?.year ?? match[1]);
+		const month = parseInt(groups?.month ?? match[2]);
+		const day = parseInt(groups?.day ?? match[3]);
+		if (isNaN(year) || isNaN(month) || isNaN(day)) return null;
+
+		const date = new Date(year, month - 1, day);
+		// 排除 2 月 30 日这类会被 Date 自动进位的无效日期
+		if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+		return { date, rawValue: match[0], hasTime: false };
+	}
+
+	/**
+	 * 用 time 字段（HH:mm）补充时间
+	 */
+	private static applyTimeField(result: StrategyResult, value: unknown): void {
+		if (typeof value !== 'string') return;
+		const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+		if (!match) return;
+
+		const hours = parseInt(match[1]);
+		const minutes = parseInt(match[2]);
+		if (hours >= 24 || minutes >= 60) return;
+
+		const date = new Date(result.date);
+		date.setHours(hours, minutes, 0, 0);
+		result.date = date;
+		result.hasTime = true;
+	}
+
+	/**
+	 * 格式字符串中是否包含小时（[...] 中的字面量除外）
+	 */
+	private static formatHasTime(format: string): boolean {
+		return /[Hh]/.test(format.replace(/\[[^\]]*\]/g, ''));
+	}
+
+	/**
+	 * 把 moment 格式字符串转换为用于查找的正则
+	 */
+	private static formatToRegex(format: string): string {
+		let regex = '';
+		let i = 0;
+		while (i < format.length) {
+			// [...] 中的内容按原样匹配
+			if (format[i] === '[') {
+				const end = format.indexOf(']', i);
+				if (end > i) {
+					regex += this.escapeRegex(format.substring(i + 1, end));
+					i = end + 1;
+					continue;
+				}
+			}
+
+			const token = FORMAT_TOKENS.find(([name]) => format.startsWith(name, i));
+			if (token) {
+				regex += token[1];
+				i += token[0].length;
+			} else {
+				regex += this.escapeRegex(format[i]);
+				i++;
+			}
+		}
+		return regex;
+	}
+
+	private static escapeRegex(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
@@ -0,0 +1,147 @@
+import { App, Modal } from 'obsidian';
+import { JournalEntry, formatDate, formatDateKey, formatTime, groupByDay, getDisplayImages } from './utils';
+import { EntrySorter } from './EntrySorter';
+import { t } from './i18n';
+
+/**
+ * 单日详情
+ * 按时间先后列出某一天的所有条目，可以切换到前一天或后一天（只在有记录的日期之间切换）
+ */
+export class DayDetailModal extends Modal {
+	private entriesByDay: Map<string, JournalEntry[]>;
+	private dayKeys: string[]; // 有记录的日期（升序）
+	private dayKey: string;
+
+	private static readonly MAX_THUMBNAILS = 4;
+
+	/**
+	 * @param entries 可供浏览的条目（当前视图中经过日期范围和筛选后的条目）
+	 * @param date 要显示的日期
+	 */
+	constructor(app: App, entries: JournalEntry[], date: Date) {
+		super(app);
+		this.entriesByDay = groupByDay(entries);
+		this.dayKeys = Array.from(this.entriesByDay.keys()).sort();
+		this.dayKey = formatDateKey(date);
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('journal-day-detail-modal');
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('journal-day-detail');
+
+		const dayEntries = [...(this.entriesByDay.get(this.dayKey) || [])].sort(EntrySorter.getComparator('date-asc'));
+		const date = this.parseDayKey(this.dayKey);
+		this.titleEl.setText(formatDate(date));
+
+		this.renderNavigation(contentEl, dayEntries);
+
+		if (dayEntries.length === 0) {
+			contentEl.createDiv({ cls: 'journal-day-detail-empty', text: t('dayDetail.empty') });
+			return;
+		}
+
+		const listEl = contentEl.createDiv('journal-day-detail-list');
+		for (const entry of dayEntries) {
+			this.renderEntry(listEl, entry);
+		}
+	}
+
+	/**
+	 * 前一天 / 后一天导航和当天汇总
+	 */
+	private renderNavigation(container: HTMLElement, dayEntries: JournalEntry[]): void {
+		const navEl = container.createDiv('journal-day-detail-nav');
+		const index = this.dayKeys.indexOf(this.dayKey);
+		// 当前日期没有记录时，按位置找到前后最近的日期
+		const previousKey = index >= 0 ? this.dayKeys[index - 1] : [...this.dayKeys].reverse().find(key => key < this.dayKey);
+		const nextKey = index >= 0 ? this.dayKeys[index + 1] : this.dayKeys.find(key => key > this.dayKey);
+
+		const prevBtn = navEl.createEl('button', { cls: 'journal-day-detail-nav-button', text: t('dayDetail.prev') });
+		prevBtn.disabled = !previousKey;
+		prevBtn.addEventListener('click', () => {
+			if (!previousKey) return;
+			this.dayKey = previousKey;
+			this.render();
+		});
+
+		const totalWords = dayEntries.reduce((sum, entry) => sum + entry.wordCount, 0);
+		navEl.createDiv({
+			cls: 'journal-day-detail-summary',
+			text: t('dayDetail.summary', { count: dayEntries.length, words: totalWords.toLocaleString() }),
+		});
+
+		const nextBtn = navEl.createEl('button', { cls: 'journal-day-detail-nav-button', text: t('dayDetail.next') });
+		nextBtn.disabled = !nextKey;
+		nextBtn.addEventListener('click', () => {
+			if (!nextKey) return;
+			this.dayKey = nextKey;
+			this.render();
+		});
+	}
+
+	/**
+	 * 单个条目：左侧时间，右侧标题、预览和缩略图
+	 */
+	private renderEntry(listEl: HTMLElement, entry: JournalEntry): void {
+		const item = listEl.createDiv('journal-day-detail-item');
+		item.setAttribute('role', 'button');
+		item.setAttribute('tabindex', '0');
+
+		item.createDiv({
+			cls: 'journal-day-detail-time',
+			text: entry.hasTime ? formatTime(entry.date) : t('dayDetail.allDay'),
+		});
+
+		const bodyEl = item.createDiv('journal-day-detail-body');
+		bodyEl.createDiv({ cls: 'journal-day-detail-title', text: entry.title || entry.file.basename });
+		if (entry.preview) {
+			bodyEl.createDiv({ cls: 'journal-day-detail-preview', text: entry.preview });
+		}
+
+		const images = getDisplayImages(entry);
+		if (images.length > 0) {
+			const imagesEl = bodyEl.createDiv('journal-day-detail-images');
+			for (const image of images.slice(0, DayDetailModal.MAX_THUMBNAILS)) {
+				const thumb = imagesEl.createEl('img', { cls: 'journal-day-detail-thumbnail' });
+				thumb.src = image.url;
+				thumb.alt = image.altText || entry.title;
+				thumb.loading = 'lazy';
+			}
+			if (images.length > DayDetailModal.MAX_THUMBNAILS) {
+				imagesEl.createDiv({
+					cls: 'journal-day-detail-more',
+					text: `+${images.length - DayDetailModal.MAX_THUMBNAILS}`,
+				});
+			}
+		}
+
+		bodyEl.createDiv({ cls: 'journal-day-detail-meta', text: t('common.words', { count: entry.wordCount.toLocaleString() }) });
+
+		const openEntry = () => {
+			this.app.workspace.openLinkText(entry.file.path, '', true);
+			this.close();
+		};
+		item.addEventListener('click', openEntry);
+		item.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter' || e.key === ' ') {
+				e.preventDefault();
+				openEntry();
+			}
+		});
+	}
+
+	private parseDayKey(dayKey: string): Date {
+		const [year, month, day] = dayKey.split('-').map(part => parseInt(part));
+		return new Date(year, month - 1, day);
+	}
+}
@@ -1,6 +1,11 @@
-import { Plugin, MarkdownPostProcessorContext, MarkdownView } from 'obsidian';
+import { Plugin, MarkdownPostProcessorContext, MarkdownView, TFile } from 'obsidian';
 import { App } from 'obsidian';
 import { logger } from './logger';
+import { GalleryEditorExtension } from './GalleryEditorExtension';
+import { GalleryLayoutEngine, GalleryLayoutName, GalleryLayoutSettings } from './GalleryLayoutEngine';
+import { AutoLayoutScope, AutoLayoutScopeSettings } from './AutoLayoutScope';
+import { GALLERY_FIELD, GALLERY_LAYOUT_FIELD } from './constants';
+import { ImageCaption } from './ImageCaption';
 
 /**
  * 编辑器图片布局增强
@@ -44,6 +49,16 @@ export class EditorImageLayout {
         // 3. 监听编辑器变化，实时处理图片
         this.setupEditorChangeListener();
 
+        // 4. 实时预览模式由 CodeMirror 扩展渲染画廊，DOM 由 CodeMirror 管理
+        this.plugin.registerEditorExtension(
+            GalleryEditorExtension.create(
+                this.app,
+                (filePath) => this.shouldProcessFile(filePath),
+                (filePath) => this.getGalleryLayout(filePath)
+            )
+        );
+        this.setupMetadataListener();
+
         logger.log('[EditorImageLayout] 初始化完成');
     }
 
@@ -167,38 +182,51 @@ export class EditorImageLayout {
 
     /**
      * 检查是否应该处理该文件
-     * 新增功能：只在手记视图文件夹中启用自动布局
+     * 范围见 AutoLayoutScope：笔记的 gallery 字段优先，其次是手记视图文件夹和包含/排除规则
      */
-    private shouldProcessFile(filePath: string | null | undefined): boolean {
-        // 1. 检查是否启用自动布局功能
+    shouldProcessFile(filePath: string | null | undefined): boolean {
         // 使用类型断言访问 settings，因为 Plugin 基类没有定义 settings 属性
-        const settings = (this.plugin as { settings?: { enableAutoLayout?: boolean; defaultFolderPath?: string | null } }).settings;
-        if (!settings || !settings.enableAutoLayout) {
-            return false;
-        }
-
-        // 2. 检查文件路径是否有效
-        if (!filePath) {
-            return false;
-        }
-
-        // 3. 检查是否在默认文件夹中
-        const defaultFolderPath = settings.defaultFolderPath;
-        if (!defaultFolderPath) {
-            return false; // 如果没有设置默认文件夹，不启用
-        }
-
-        // 4. 检查文件是否在默认文件夹或其子文件夹中
-        const isInFolder = filePath === defaultFolderPath ||
-            filePath.startsWith(defaultFolderPath + '/');
+        const settings = (this.plugin as { settings?: AutoLayoutScopeSettings }).settings;
+        const file = filePath ? this.app.vault.getAbstractFileByPath(filePath) : null;
+        const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+        const enabled = AutoLayoutScope.isEnabled(settings, filePath, frontmatter);
 
         logger.debug('[EditorImageLayout] 检查文件路径', {
             filePath: filePath,
-            defaultFolderPath: defaultFolderPath,
-            isInFolder: isInFolder
+            enabled: enabled
         });
 
-        return isInFolder;
+        return enabled;
+    }
+
+    /**
+     * 笔记的 gallery 或 gallery-layout 字段变化后，让实时预览中的画廊按新设置重新渲染
+     */
+    private setupMetadataListener(): void {
+        const lastValues = new Map<string, string>(); // 文件路径 -> 上次的字段值
+        const emptyValue = JSON.stringify([undefined, undefined]);
+
+        this.plugin.registerEvent(
+            this.app.metadataCache.on('changed', (file, _data, cache) => {
+                const value = JSON.stringify([cache.frontmatter?.[GALLERY_FIELD], cache.frontmatter?.[GALLERY_LAYOUT_FIELD]]);
+                const previous = lastValues.get(file.path) ?? emptyValue;
+                lastValues.set(file.path, value);
+                if (value !== previous) {
+                    this.app.workspace.updateOptions();
+                }
+            })
+        );
+    }
+
+    /**
+     * 获取文件使用的图片布局（frontmatter、文件夹设置或全局设置）
+     */
+    getGalleryLayout(filePath: string | null | undefined): GalleryLayoutName {
+        const settings = (this.plugin as { settings?: GalleryLayoutSettings }).settings;
+        const file = filePath ? this.app.vault.getAbstractFileByPath(filePath) : null;
+        return file instanceof TFile
+            ? GalleryLayoutEngine.resolveForFile(this.app, settings, file)
+            : GalleryLayoutEngine.resolve(settings, filePath);
     }
 
     /**
@@ -220,6 +248,9 @@ export class EditorImageLayout {
         const view = this.app.workspace.getActiveViewOfType(MarkdownView);
         if (!view) return;
 
+        // 实时预览模式由 GalleryEditorExtension 处理，不再修改编辑器的 DOM
+        if (view.getMode() === 'source') return;
+
         // 新增：检查文件路径是否应该处理
         const filePath = view.file?.path;
         if (!this.shouldProcessFile(filePath)) {
@@ -240,35 +271,8 @@ export class EditorImageLayout {
         // 先更新现有的 gallery 容器（处理图片删除的情况）
         this.updateExistingGalleries();
 
-        // 在实时预览模式下，查找预览渲染区域
-        if (view.getMode() === 'source') {
-            // 实时预览模式：查找所有可能的预览容器
-            const previewImages = Array.from(editorEl.querySelectorAll('.markdown-source-view img'))
-                .filter(img => {
-                    const imgEl = img as HTMLElement;
-                    return !imgEl.classList.contains('diary-processed') &&
-                        !imgEl.closest('.diary-gallery');
-                });
-
-            if (previewImages.length > 0) {
-                logger.debug('[EditorImageLayout] 实时预览模式：找到图片', { count: previewImages.length });
-                // 处理包含这些图片的容器（只处理一次）
-                const processedContainers = new Set<HTMLElement>();
-                previewImages.forEach((img) => {
-                    const container = img.closest('.cm-line, .cm-content, .cm-editor, p') as HTMLElement;
-                    if (container && !processedContainers.has(container) && !container.closest('.diary-gallery')) {
-                        processedContainers.add(container);
-                        this.processImagesInElement(container);
-                    }
-                });
-            }
-
-            // 也处理整个编辑器容器
-            this.processImagesInElement(editorEl);
-        } else {
-            // 阅读模式：处理整个容器
-            this.processImagesInElement(editorEl);
-        }
+        // 阅读模式：处理整个容器
+        this.processImagesInElement(editorEl, filePath);
     }
 
     /**
@@ -475,6 +479,12 @@ export class EditorImageLayout {
             return;
         }
 
+        // 实时预览中的画廊由 GalleryEditorExtension 管理
+        if (view.getMode() === 'source') {
+            logger.debug('[EditorImageLayout] [删除流程] 实时预览模式，跳过');
+            return;
+        }
+
         const editorEl = view.contentEl;
         if (!editorEl) {
             logger.debug('[EditorImageLayout] [删除流程] 无法获取编辑器容器，退出');
@@ -629,7 +639,7 @@ export class EditorImageLayout {
                     gallery.innerHTML = '';
 
                     // 重新组织图片
-                    this.organizeImagesInContainer(imagesToReorganize, gallery);
+                    EditorImageLayout.organizeImagesInContainer(imagesToReorganize, gallery);
 
                     logger.log('[EditorImageLayout] [删除流程] ✅ Gallery 更新完成', {
                         galleryIndex: galleryIndex + 1,
@@ -653,7 +663,7 @@ export class EditorImageLayout {
      * 在指定元素中处理图片
      * 关键修复：先合并相邻的单个 gallery，再处理新图片
      */
-    private processImagesInElement(element: HTMLElement): void {
+    private processImagesInElement(element: HTMLElement, sourcePath?: string): void {
         if (!element) return;
 
         // 防止重复处理同一个元素
@@ -715,7 +725,7 @@ export class EditorImageLayout {
             imageGroups.forEach((group, index) => {
                 if (group.length >= 1) {
                     logger.debug(`[EditorImageLayout] 处理第 ${index + 1} 组图片`, { count: group.length });
-                    this.wrapImageGroup(group);
+                    this.wrapImageGroup(group, sourcePath);
                 }
             });
         } finally {
@@ -773,7 +783,7 @@ export class EditorImageLayout {
                 gallery1.innerHTML = '';
 
                 // 重新组织所有图片
-                this.organizeImagesInContainer(allImages, gallery1);
+                EditorImageLayout.organizeImagesInContainer(allImages, gallery1);
 
                 // 移除第二个 gallery 及其父容器（如果是 internal-embed）
                 const gallery2Parent = gallery2.parentElement;
@@ -881,7 +891,7 @@ export class EditorImageLayout {
         imageGroups.forEach((group, index) => {
             if (group.length >= 1) {
                 logger.debug(`[EditorImageLayout] 处理第 ${index + 1} 组图片`, { count: group.length });
-                this.wrapImageGroup(group);
+                this.wrapImageGroup(group, context.sourcePath);
             }
         });
 
@@ -970,7 +980,7 @@ export class EditorImageLayout {
      * 1. 保留图片的原始 data-pos 属性，让 CodeMirror 能够识别
      * 2. 检查是否可以将新图片添加到现有的 gallery 容器中
      */
-    private wrapImageGroup(images: HTMLImageElement[]): void {
+    private wrapImageGroup(images: HTMLImageElement[], sourcePath?: string): void {
         if (images.length === 0) return;
 
         // 检查是否已经处理过（避免重复处理）- 更严格的检查
@@ -1014,6 +1024,11 @@ export class EditorImageLayout {
         container.addClass('diary-gallery');
         const count = images.length;
         container.setAttribute('data-count', count.toString());
+        // 记录布局，之后合并或更新 gallery 时沿用
+        const layout = this.getGalleryLayout(sourcePath);
+        if (layout !== 'classic') {
+            container.setAttribute('data-layout', layout);
+        }
 
         // 关键改进：先插入容器（空容器），再移动图片
         try {
@@ -1032,7 +1047,7 @@ export class EditorImageLayout {
         }
 
         // 将图片移动到容器中（标记为已处理）
-        this.organizeImagesInContainer(images, container);
+        EditorImageLayout.organizeImagesInContainer(images, container);
 
         logger.log('[EditorImageLayout] 成功包装图片组', {
             count: count,
@@ -1144,7 +1159,7 @@ export class EditorImageLayout {
         gallery.innerHTML = '';
 
         // 重新组织所有图片
-        this.organizeImagesInContainer(allImages, gallery);
+        EditorImageLayout.organizeImagesInContainer(allImages, gallery);
 
         logger.log('[EditorImageLayout] 成功合并图片到现有容器', {
             existingCount: existingCount,
@@ -1155,32 +1170,48 @@ export class EditorImageLayout {
 
     /**
      * 在容器中组织图片布局
+     * 也用于 gallery 代码块的 auto 布局，保证两者使用相同的 diary-gallery 结构和 CSS
+     * @param layout 布局，未指定时使用容器的 data-layout（没有时为 classic，按 data-count 由 CSS 布局）
      */
-    private organizeImagesInContainer(images: HTMLImageElement[], container: HTMLElement): void {
+    static organizeImagesInContainer(images: HTMLImageElement[], container: HTMLElement, layout?: GalleryLayoutName): void {
+        // 阅读模式中说明来自所在嵌入的 alt，移动前记录下来，之后重新组织时沿用
+        images.forEach((img) => {
+            if (!img.hasAttribute('data-caption')) {
+                img.setAttribute('data-caption', ImageCaption.fromElement(img));
+            }
+        });
+
+        const layoutName = layout ?? container.getAttribute('data-layout');
+        if (layoutName !== 'classic' && GalleryLayoutEngine.isLayoutName(layoutName)) {
+            images.forEach((img) => EditorImageLayout.moveImageToContainer(img, container));
+            GalleryLayoutEngine.apply(container, ImageCaption.wrapImages(images, container), layoutName);
+            return;
+        }
+
         const count = images.length;
 
         // 关键：保留每张图片的所有原始属性，特别是 data-pos 等 CodeMirror 需要的属性
         if (count === 4) {
             // 第一张：左半边大图
             const img1 = images[0];
-            this.moveImageToContainer(img1, container);
+            EditorImageLayout.moveImageToContainer(img1, container);
 
             // 第二张：右半边上半部分
             const img2 = images[1];
-            this.moveImageToContainer(img2, container);
+            EditorImageLayout.moveImageToContainer(img2, container);
 
             // 第三、四张：右半边下半部分，需要嵌套容器
             const bottomWrapper = document.createElement('div');
             bottomWrapper.addClass('diary-gallery-bottom');
             const img3 = images[2];
             const img4 = images[3];
-            this.moveImageToContainer(img3, bottomWrapper);
-            this.moveImageToContainer(img4, bottomWrapper);
+            EditorImageLayout.moveImageToContainer(img3, bottomWrapper);
+            EditorImageLayout.moveImageToContainer(img4, bottomWrapper);
             container.appendChild(bottomWrapper);
         } else if (count >= 5) {
             // 5+ 张图片：第一张单独，其余放在右边 2x2 网格中
             const img1 = images[0];
-            this.moveImageToContainer(img1, container);
+            EditorImageLayout.moveImageToContainer(img1, container);
 
             // 创建右边 2x2 网格容器
             const rightGrid = document.createElement('div');
@@ -1189,7 +1220,7 @@ export class EditorImageLayout {
             // 添加第 2-5 张图片到网格
             for (let i = 1; i < Math.min(count, 5); i++) {
                 const img = images[i];
-                this.moveImageToContainer(img, rightGrid);
+                EditorImageLayout.moveImageToContainer(img, rightGrid);
                 // 如果超过 5 张，为第 5 张添加剩余数量信息
                 if (count > 5 && i === 4) {
                     img.setAttribute('data-remaining', (count - 5).toString());
@@ -1199,15 +1230,17 @@ export class EditorImageLayout {
         } else {
             // 1-3 张图片：直接添加
             images.forEach((img) => {
-                this.moveImageToContainer(img, container);
+                EditorImageLayout.moveImageToContainer(img, container);
             });
         }
+
+        ImageCaption.renderOverlays(container, images.slice(0, 5));
     }
 
     /**
      * 移动图片到容器，保留所有原始属性
      */
-    private moveImageToContainer(img: HTMLImageElement, container: HTMLElement): void {
+    private static moveImageToContainer(img: HTMLImageElement, container: HTMLElement): void {
         // 保存所有原始属性（特别是 CodeMirror 需要的 data-pos 等）
         const originalAttributes: { [key: string]: string | null } = {};
         for (let i = 0; i < img.attributes.length; i++) {
@@ -0,0 +1,144 @@
+import { JournalEntry } from './utils';
+
+// 多个包含条件的组合方式：全部满足（AND）/ 任一满足（OR）
+export type FilterMatchMode = 'all' | 'any';
+
+/**
+ * 单个筛选条件
+ */
+export interface FilterCondition {
+	type: 'tag' | 'property';
+	key: string; // 标签名（不含 #）或属性名
+	value?: string; // 属性值（仅 property 类型）
+	exclude: boolean; // true 表示排除匹配的条目
+}
+
+/**
+ * 筛选状态（保存在视图状态中）
+ */
+export interface EntryFilterState {
+	mode: FilterMatchMode;
+	conditions: FilterCondition[];
+}
+
+/**
+ * 可选的筛选项（从当前条目中收集）
+ */
+export interface FilterOptions {
+	tags: Map<string, number>; // 标签 -> 条目数
+	properties: Map<string, Map<string, number>>; // 属性名 -> (属性值 -> 条目数)
+}
+
+/**
+ * 标签和属性筛选
+ * 包含条件按 mode 组合；排除条件始终生效（匹配任意一个排除条件的条目都会被过滤掉）
+ */
+export class EntryFilter {
+	/**
+	 * 创建空的筛选状态
+	 */
+	static createEmpty(): EntryFilterState {
+		return { mode: 'all', conditions: [] };
+	}
+
+	/**
+	 * 检查值是否是有效的筛选状态（用于从视图状态恢复）
+	 */
+	static isFilterState(value: unknown): value is EntryFilterState {
+		if (!value || typeof value !== 'object') return false;
+		const state = value as EntryFilterState;
+		if (state.mode !== 'all' && state.mode !== 'any') return false;
+		if (!Array.isArray(state.conditions)) return false;
+		return state.conditions.every(condition =>
+			condition &&
+			(condition.type === 'tag' || condition.type === 'property') &&
+			typeof condition.key === 'string' &&
+			typeof condition.exclude === 'boolean' &&
+			(condition.value === undefined || typeof condition.value === 'string')
+		);
+	}
+
+	/**
+	 * 是否有生效的筛选条件
+	 */
+	static isActive(state: EntryFilterState): boolean {
+		return state.conditions.length > 0;
+	}
+
+	/**
+	 * 判断条目是否满足筛选条件
+	 */
+	static matches(entry: JournalEntry, state: EntryFilterState): boolean {
+		const includes = state.conditions.filter(condition => !condition.exclude);
+		const excludes = state.conditions.filter(condition => condition.exclude);
+
+		if (excludes.some(condition => this.matchesCondition(entry, condition))) {
+			return false;
+		}
+		if (includes.length === 0) {
+			return true;
+		}
+		return state.mode === 'all'
+			? includes.every(condition => this.matchesCondition(entry, condition))
+			: includes.some(condition => this.matchesCondition(entry, condition));
+	}
+
+	/**
+	 * 判断条件是否相同（忽略包含/排除）
+	 */
+	static isSameCondition(a: FilterCondition, b: FilterCondition): boolean {
+		return a.type === b.type && a.key === b.key && a.value === b.value;
+	}
+
+	/**
+	 * 从条目中收集可选的标签和属性值
+	 */
+	static collectOptions(entries: JournalEntry[]): FilterOptions {
+		const tags = new Map<string, number>();
+		const properties = new Map<string, Map<string, number>>();
+
+		for (const entry of entries) {
+			for (const tag of entry.tags) {
+				tags.set(tag, (tags.get(tag) || 0) + 1);
+			}
+			for (const key of Object.keys(entry.properties)) {
+				const value = entry.properties[key];
+				let values = properties.get(key);
+				if (!values) {
+					values = new Map<string, number>();
+					properties.set(key, values);
+				}
+				values.set(value, (values.get(value) || 0) + 1);
+			}
+		}
+
+		return { tags, properties };
+	}
+
+	/**
+	 * 获取条件的显示文本
+	 */
+	static getConditionLabel(condition: FilterCondition): string {
+		return condition.type === 'tag'
+			? `#${condition.key}`
+			: `${condition.key}: ${condition.value ?? ''}`;
+	}
+
+	/**
+	 * 标签匹配（忽略大小写，父标签匹配子标签，例如 project 匹配 project/app）
+	 * 属性匹配（属性值忽略大小写）
+	 */
+	private static matchesCondition(entry: JournalEntry, condition: FilterCondition): boolean {
+		if (condition.type === 'tag') {
+			const target = condition.key.toLowerCase();
+			return entry.tags.some(tag => {
+				const lower = tag.toLowerCase();
+				return lower === target || lower.startsWith(target + '/');
+			});
+		}
+
+		const value = entry.properties[condition.key];
+		if (value === undefined) return false;
+		return condition.value === undefined || value.toLowerCase() === condition.value.toLowerCase();
+	}
+}
@@ -0,0 +1,87 @@
+import { JournalEntry, generatePreview } from './utils';
+
+/**
+ * 全文搜索
+ * 负责解析搜索词、匹配条目（标题、预览、正文）以及高亮匹配文本
+ */
+export class EntrySearch {
+	private static readonly SNIPPET_CONTEXT = 40; // 摘要中匹配位置之前保留的字符数
+
+	/**
+	 * 解析搜索词：按空白拆分，忽略大小写，去重
+	 */
+	static parseQuery(query: string): string[] {
+		const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+		return Array.from(new Set(terms));
+	}
+
+	/**
+	 * 只用标题和预览判断是否匹配（不需要读取正文）
+	 */
+	static matchesMetadata(entry: JournalEntry, terms: string[]): boolean {
+		const haystack = `${entry.title}\n${entry.preview}`.toLowerCase();
+		return terms.every(term => haystack.includes(term));
+	}
+
+	/**
+	 * 判断条目是否匹配所有搜索词（标题、预览和已加载的正文）
+	 */
+	static matches(entry: JournalEntry, terms: string[]): boolean {
+		if (terms.length === 0) return true;
+		const haystack = `${entry.title}\n${entry.preview}\n${entry.content}`.toLowerCase();
+		return terms.every(term => haystack.includes(term));
+	}
+
+	/**
+	 * 获取卡片中显示的预览文本
+	 * 预览中没有匹配词而正文中有时，显示正文中第一个匹配位置附近的摘要
+	 */
+	static getPreviewText(entry: JournalEntry, terms: string[], maxLength: number): string {
+		if (terms.length === 0 || !entry.content) return entry.preview;
+
+		const previewLower = entry.preview.toLowerCase();
+		if (terms.some(term => previewLower.includes(term))) return entry.preview;
+
+		const text = generatePreview(entry.content, Number.MAX_SAFE_INTEGER);
+		const textLower = text.toLowerCase();
+		const matchIndexes = terms
+			.map(term => textLower.indexOf(term))
+			.filter(index => index >= 0);
+		if (matchIndexes.length === 0) return entry.preview;
+
+		const start = Math.max(0, Math.min(...matchIndexes) - this.SNIPPET_CONTEXT);
+		const end = Math.min(text.length, start + maxLength);
+		return (start > 0 ? '...' : '') + text.substring(start, end) + (end < text.length ? '...' : '');
+	}
+
+	/**
+	 * 把文本写入元素，并用 <mark> 高亮匹配的搜索词
+	 */
+	static highlight(el: HTMLElement, text: string, terms: string[]): void {
+		el.empty();
+		if (terms.length === 0) {
+			el.textContent = text;
+			return;
+		}
+
+		// 长的搜索词优先匹配，避免被短词截断
+		const pattern = [...terms]
+			.sort((a, b) => b.length - a.length)
+			.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+			.join('|');
+		const regex = new RegExp(pattern, 'gi');
+
+		let lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(text)) !== null) {
+			if (match.index > lastIndex) {
+				el.appendText(text.substring(lastIndex, match.index));
+			}
+			el.createEl('mark', { cls: 'journal-search-highlight', text: match[0] });
+			lastIndex = match.index + match[0].length;
+		}
+		if (lastIndex < text.length) {
+			el.appendText(text.substring(lastIndex));
+		}
+	}
+}
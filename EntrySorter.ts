@@ -0,0 +1,116 @@
+import { JournalEntry, formatMonthKey } from './utils';
+import { TranslationKey } from './i18n';
+
+// 排序方式
+export type SortMode =
+	| 'date-desc'
+	| 'date-asc'
+	| 'title-asc'
+	| 'title-desc'
+	| 'words-desc'
+	| 'words-asc'
+	| 'ctime-desc'
+	| 'ctime-asc';
+
+export const DEFAULT_SORT_MODE: SortMode = 'date-desc';
+
+// 排序选项（用于工具栏和设置页面的下拉菜单，显示文本用 t(labelKey) 获取）
+export const SORT_MODE_OPTIONS: { value: SortMode; labelKey: TranslationKey }[] = [
+	{ value: 'date-desc', labelKey: 'sort.dateDesc' },
+	{ value: 'date-asc', labelKey: 'sort.dateAsc' },
+	{ value: 'title-asc', labelKey: 'sort.titleAsc' },
+	{ value: 'title-desc', labelKey: 'sort.titleDesc' },
+	{ value: 'words-desc', labelKey: 'sort.wordsDesc' },
+	{ value: 'words-asc', labelKey: 'sort.wordsAsc' },
+	{ value: 'ctime-desc', labelKey: 'sort.ctimeDesc' },
+	{ value: 'ctime-asc', labelKey: 'sort.ctimeAsc' },
+];
+
+/**
+ * 条目排序器
+ * 提供唯一的比较函数，初始排序、分组和增量插入都使用它，保证实时更新后顺序一致
+ */
+export class EntrySorter {
+	/**
+	 * 检查值是否是有效的排序方式
+	 */
+	static isSortMode(value: unknown): value is SortMode {
+		return SORT_MODE_OPTIONS.some(option => option.value === value);
+	}
+
+	/**
+	 * 排序方式是否依赖字数
+	 */
+	static usesWordCount(mode: SortMode): boolean {
+		return mode === 'words-desc' || mode === 'words-asc';
+	}
+
+	/**
+	 * 获取排序比较函数
+	 */
+	static getComparator(mode: SortMode): (a: JournalEntry, b: JournalEntry) => number {
+		switch (mode) {
+			case 'date-asc':
+				return (a, b) => -this.compareByDateDesc(a, b);
+			case 'title-asc':
+				return (a, b) => this.compareTitle(a, b) || this.compareByDateDesc(a, b);
+			case 'title-desc':
+				return (a, b) => this.compareTitle(b, a) || this.compareByDateDesc(a, b);
+			case 'words-desc':
+				return (a, b) => (b.wordCount - a.wordCount) || this.compareByDateDesc(a, b);
+			case 'words-asc':
+				return (a, b) => (a.wordCount - b.wordCount) || this.compareByDateDesc(a, b);
+			case 'ctime-desc':
+				return (a, b) => this.compareByCtimeDesc(a, b);
+			case 'ctime-asc':
+				return (a, b) => -this.compareByCtimeDesc(a, b);
+			case 'date-desc':
+			default:
+				return (a, b) => this.compareByDateDesc(a, b);
+		}
+	}
+
+	/**
+	 * 获取条目所在分组的键
+	 * 按日期或创建时间排序时按月份分组（键为 formatMonthKey 的结果）；其他排序方式不分组（返回空字符串）
+	 */
+	static getGroupKey(entry: JournalEntry, mode: SortMode): string {
+		if (mode === 'date-desc' || mode === 'date-asc') {
+			return formatMonthKey(entry.date);
+		}
+		if (mode === 'ctime-desc' || mode === 'ctime-asc') {
+			return formatMonthKey(new Date(entry.file.stat.ctime));
+		}
+		return '';
+	}
+
+	/**
+	 * 按日期排序（最新的在前），如果日期相同则按创建时间排序（最新的在前）
+	 */
+	private static compareByDateDesc(a: JournalEntry, b: JournalEntry): number {
+		const dateDiff = b.date.getTime() - a.date.getTime();
+		if (dateDiff !== 0) {
+			return dateDiff;
+		}
+		return this.compareByCtimeDesc(a, b);
+	}
+
+	/**
+	 * 按创建时间排序（最新的在前）
+	 * 注意：ctime 是毫秒时间戳，值越大表示越新
+	 */
+	private static compareByCtimeDesc(a: JournalEntry, b: JournalEntry): number {
+		const ctimeDiff = b.file.stat.ctime - a.file.stat.ctime;
+		if (ctimeDiff !== 0) {
+			return ctimeDiff;
+		}
+		// 如果创建时间也相同（理论上不应该），按文件路径排序作为最后的排序依据
+		return b.file.path.localeCompare(a.file.path);
+	}
+
+	private static compareTitle(a: JournalEntry, b: JournalEntry): number {
+		const titleA = a.title || a.file.basename;
+		const titleB = b.title || b.file.basename;
+		return titleA.localeCompare(titleB, undefined, { numeric: true, sensitivity: 'base' });
+	}
+}
@@ -0,0 +1,173 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * 图片的 EXIF 信息（只读取查看器需要的字段）
+ */
+export interface ExifData {
+	takenAt?: Date; // 拍摄时间
+	latitude?: number; // 纬度（南纬为负）
+	longitude?: number; // 经度（西经为负）
+}
+
+/**
+ * IFD 中的一个字段
+ */
+interface IfdEntry {
+	type: number;
+	count: number;
+	valueOffset: number; // 值的绝对偏移（不超过 4 字节的值直接存放在字段中）
+}
+
+// EXIF 字段编号
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// 字段类型的字节数（ASCII、SHORT、LONG、RATIONAL）
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * EXIF 读取器
+ * 解析 JPEG 的 APP1 段，读取拍摄时间和 GPS 坐标，不依赖第三方库
+ */
+export class ExifReader {
+	/**
+	 * 读取 vault 中图片的 EXIF 信息，不是 JPEG 或没有 EXIF 时返回 null
+	 */
+	static async read(app: App, file: TFile): Promise<ExifData | null> {
+		if (!['jpg', 'jpeg'].includes(file.extension.toLowerCase())) return null;
+		const buffer = await app.vault.readBinary(file);
+		return this.parse(buffer);
+	}
+
+	/**
+	 * 从 JPEG 数据中解析 EXIF 信息
+	 */
+	static parse(buffer: ArrayBuffer): ExifData | null {
+		try {
+			const view = new DataView(buffer);
+			if (view.getUint16(0) !== 0xFFD8) return null;
+
+			let offset = 2;
+			while (offset + 4 <= view.byteLength) {
+				const marker = view.getUint16(offset);
+				if ((marker & 0xFF00) !== 0xFF00) return null;
+				// 图像数据开始，后面不会再有 EXIF
+				if (marker === 0xFFDA) return null;
+
+				const length = view.getUint16(offset + 2);
+				if (marker === 0xFFE1 && this.readString(view, offset + 4, 4) === 'Exif') {
+					return this.parseTiff(view, offset + 10);
+				}
+				offset += 2 + length;
+			}
+			return null;
+		} catch {
+			// 数据损坏或被截断
+			return null;
+		}
+	}
+
+	/**
+	 * 解析 TIFF 结构（EXIF 的主体）
+	 * @param start TIFF 头的偏移，IFD 中的偏移都相对于它
+	 */
+	private static parseTiff(view: DataView, start: number): ExifData | null {
+		const littleEndian = view.getUint16(start) === 0x4949;
+		if (view.getUint16(start + 2, littleEndian) !== 42) return null;
+
+		const ifd0 = this.readIfd(view, start, start + view.getUint32(start + 4, littleEndian), littleEndian);
+		const data: ExifData = {};
+
+		// 拍摄时间优先使用 Exif IFD 中的 DateTimeOriginal，没有时使用 IFD0 中的修改时间
+		const exifPointer = ifd0.get(TAG_EXIF_IFD);
+		const exifIfd = exifPointer
+			? this.readIfd(view, start, start + view.getUint32(exifPointer.valueOffset, littleEndian), littleEndian)
+			: null;
+		const dateEntry = exifIfd?.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+		if (dateEntry) {
+			data.takenAt = this.parseDateTime(this.readAscii(view, dateEntry));
+		}
+
+		const gpsPointer = ifd0.get(TAG_GPS_IFD);
+		if (gpsPointer) {
+			const gpsIfd = this.readIfd(view, start, start + view.getUint32(gpsPointer.valueOffset, littleEndian), littleEndian);
+			const latitude = this.readCoordinate(view, gpsIfd, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, 'S', littleEndian);
+			const longitude = this.readCoordinate(view, gpsIfd, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, 'W', littleEndian);
+			if (latitude !== undefined && longitude !== undefined) {
+				data.latitude = latitude;
+				data.longitude = longitude;
+			}
+		}
+
+		return data.takenAt || data.latitude !== undefined ? data : null;
+	}
+
+	private static readIfd(view: DataView, start: number, offset: number, littleEndian: boolean): Map<number, IfdEntry> {
+		const entries = new Map<number, IfdEntry>();
+		const count = view.getUint16(offset, littleEndian);
+		for (let i = 0; i < count; i++) {
+			const entryOffset = offset + 2 + i * 12;
+			const tag = view.getUint16(entryOffset, littleEndian);
+			const type = view.getUint16(entryOffset + 2, littleEndian);
+			const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+			const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+			const valueOffset = size > 4 ? start + view.getUint32(entryOffset + 8, littleEndian) : entryOffset + 8;
+			entries.set(tag, { type, count: valueCount, valueOffset });
+		}
+		return entries;
+	}
+
+	private static readString(view: DataView, offset: number, length: number): string {
+		let text = '';
+		for (let i = 0; i < length; i++) {
+			text += String.fromCharCode(view.getUint8(offset + i));
+		}
+		return text;
+	}
+
+	private static readAscii(view: DataView, entry: IfdEntry): string {
+		return this.readString(view, entry.valueOffset, entry.count).replace(/\0+$/, '').trim();
+	}
+
+	/**
+	 * 读取度、分、秒三个有理数，转换为带符号的十进制度数
+	 */
+	private static readCoordinate(
+		view: DataView,
+		ifd: Map<number, IfdEntry>,
+		valueTag: number,
+		refTag: number,
+		negativeRef: string,
+		littleEndian: boolean
+	): number | undefined {
+		const value = ifd.get(valueTag);
+		const ref = ifd.get(refTag);
+		if (!value || value.count < 3) return undefined;
+
+		const parts: number[] = [];
+		for (let i = 0; i < 3; i++) {
+			const numerator = view.getUint32(value.valueOffset + i * 8, littleEndian);
+			const denominator = view.getUint32(value.valueOffset + i * 8 + 4, littleEndian);
+			parts.push(denominator ? numerator / denominator : 0);
+		}
+		const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+		return ref && this.readAscii(view, ref).toUpperCase() === negativeRef ? -degrees : degrees;
+	}
+
+	/**
+	 * EXIF 日期格式：YYYY:MM:DD HH:MM:SS（相机的本地时间）
+	 */
+	private static parseDateTime(value: string): Date | undefined {
+		const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+		if (!match) return undefined;
+		const [, year, month, day, hour, minute, second] = match.map(Number);
+		if (!year || !month || !day) return undefined;
+		return new Date(year, month - 1, day, hour, minute, second);
+	}
+}
@@ -0,0 +1,177 @@
+import { JournalEntry } from './utils';
+import { EntryFilter, EntryFilterState, FilterCondition } from './EntryFilter';
+import { t } from './i18n';
+
+/**
+ * 筛选栏回调
+ */
+export interface FilterBarCallbacks {
+	onChange: (state: EntryFilterState) => void;
+}
+
+/**
+ * 筛选栏构建器
+ * 负责渲染标签/属性筛选下拉菜单和已选条件
+ */
+export class FilterBarBuilder {
+	private static readonly MAX_VALUES_PER_PROPERTY = 30; // 每个属性最多列出的值数量
+
+	/**
+	 * 构建筛选栏
+	 * @param container 父容器
+	 * @param entries 用于收集可选标签和属性的条目（当前文件夹中的所有条目）
+	 * @param state 当前筛选状态
+	 * @param callbacks 回调
+	 * @returns 筛选栏元素；没有任何可选项和已选条件时返回 null
+	 */
+	static buildFilterBar(
+		container: HTMLElement,
+		entries: JournalEntry[],
+		state: EntryFilterState,
+		callbacks: FilterBarCallbacks
+	): HTMLElement | null {
+		const candidates = this.getCandidates(entries, state);
+		if (candidates.length === 0 && state.conditions.length === 0) {
+			return null;
+		}
+
+		const barEl = container.createDiv('journal-filter-bar');
+
+		// 1. 添加筛选条件的下拉菜单
+		if (candidates.length > 0) {
+			this.buildAddSelect(barEl, candidates, state, callbacks);
+		}
+
+		// 2. 组合方式（两个及以上包含条件时才有意义）
+		const includeCount = state.conditions.filter(condition => !condition.exclude).length;
+		if (includeCount >= 2) {
+			const modeButton = barEl.createEl('button', {
+				cls: 'journal-filter-mode-button',
+				text: state.mode === 'all' ? t('filter.modeAll') : t('filter.modeAny'),
+			});
+			modeButton.setAttribute('title', t('filter.modeTitle'));
+			modeButton.addEventListener('click', () => {
+				callbacks.onChange({ ...state, mode: state.mode === 'all' ? 'any' : 'all' });
+			});
+		}
+
+		// 3. 已选条件
+		state.conditions.forEach((condition, index) => {
+			this.buildChip(barEl, condition, index, state, callbacks);
+		});
+
+		// 4. 清除全部
+		if (state.conditions.length > 0) {
+			const clearButton = barEl.createEl('button', { cls: 'journal-filter-clear-button', text: t('filter.clear') });
+			clearButton.addEventListener('click', () => {
+				callbacks.onChange(EntryFilter.createEmpty());
+			});
+		}
+
+		return barEl;
+	}
+
+	/**
+	 * 构建"添加筛选"下拉菜单（标签一组，每个属性一组）
+	 */
+	private static buildAddSelect(
+		barEl: HTMLElement,
+		candidates: { condition: FilterCondition; count: number; group: string }[],
+		state: EntryFilterState,
+		callbacks: FilterBarCallbacks
+	): void {
+		const select = barEl.createEl('select', { cls: 'dropdown journal-filter-add-select' });
+		select.setAttribute('aria-label', t('filter.add'));
+		select.createEl('option', { text: t('filter.addPlaceholder'), value: '' });
+
+		let groupEl: HTMLOptGroupElement | null = null;
+		let currentGroup = '';
+		candidates.forEach((candidate, index) => {
+			if (!groupEl || candidate.group !== currentGroup) {
+				currentGroup = candidate.group;
+				groupEl = select.createEl('optgroup');
+				groupEl.label = candidate.group;
+			}
+			const label = candidate.condition.type === 'tag'
+				? `#${candidate.condition.key}`
+				: candidate.condition.value ?? '';
+			groupEl.createEl('option', { text: `${label} (${candidate.count})`, value: String(index) });
+		});
+
+		select.addEventListener('change', () => {
+			const candidate = candidates[parseInt(select.value)];
+			if (!candidate) return;
+			callbacks.onChange({ ...state, conditions: [...state.conditions, candidate.condition] });
+		});
+	}
+
+	/**
+	 * 构建已选条件标签：点击切换包含/排除，× 移除
+	 */
+	private static buildChip(
+		barEl: HTMLElement,
+		condition: FilterCondition,
+		index: number,
+		state: EntryFilterState,
+		callbacks: FilterBarCallbacks
+	): void {
+		const chip = barEl.createDiv('journal-filter-chip');
+		if (condition.exclude) {
+			chip.addClass('is-excluded');
+		}
+
+		const labelEl = chip.createEl('button', {
+			cls: 'journal-filter-chip-label',
+			text: condition.exclude
+				? t('filter.excludeLabel', { label: EntryFilter.getConditionLabel(condition) })
+				: EntryFilter.getConditionLabel(condition),
+		});
+		labelEl.setAttribute('title', condition.exclude ? t('filter.toggleInclude') : t('filter.toggleExclude'));
+		labelEl.addEventListener('click', () => {
+			const conditions = state.conditions.map((c, i) => i === index ? { ...c, exclude: !c.exclude } : c);
+			callbacks.onChange({ ...state, conditions });
+		});
+
+		const removeEl = chip.createEl('button', { cls: 'journal-filter-chip-remove', text: '×' });
+		removeEl.setAttribute('aria-label', t('filter.remove'));
+		removeEl.addEventListener('click', () => {
+			callbacks.onChange({ ...state, conditions: state.conditions.filter((_, i) => i !== index) });
+		});
+	}
+
+	/**
+	 * 收集还没有被选中的候选条件：标签按数量排序，属性按名称排序，属性值按数量排序
+	 */
+	private static getCandidates(
+		entries: JournalEntry[],
+		state: EntryFilterState
+	): { condition: FilterCondition; count: number; group: string }[] {
+		const options = EntryFilter.collectOptions(entries);
+		const candidates: { condition: FilterCondition; count: number; group: string }[] = [];
+		const isSelected = (condition: FilterCondition) =>
+			state.conditions.some(selected => EntryFilter.isSameCondition(selected, condition));
+
+		const sortByCount = (a: [string, number], b: [string, number]) => b[1] - a[1] || a[0].localeCompare(b[0]);
+
+		Array.from(options.tags.entries()).sort(sortByCount).forEach(([tag, count]) => {
+			const condition: FilterCondition = { type: 'tag', key: tag, exclude: false };
+			if (!isSelected(condition)) {
+				candidates.push({ condition, count, group: t('filter.groupTags') });
+			}
+		});
+
+		Array.from(options.properties.keys()).sort((a, b) => a.localeCompare(b)).forEach(key => {
+			const values = Array.from(options.properties.get(key)!.entries())
+				.sort(sortByCount)
+				.slice(0, this.MAX_VALUES_PER_PROPERTY);
+			for (const [value, count] of values) {
+				const condition: FilterCondition = { type: 'property', key, value, exclude: false };
+				if (!isSelected(condition)) {
+					candidates.push({ condition, count, group: t('filter.groupProperty', { key }) });
+				}
+			}
+		});
+
+		return candidates;
+	}
+}
@@ -0,0 +1,305 @@
+import { App, MarkdownPostProcessorContext, Plugin, TFile } from 'obsidian';
+import { EditorImageLayout } from './EditorImageLayout';
+import { GalleryLayoutEngine, GalleryLayoutName } from './GalleryLayoutEngine';
+import { GALLERY_BLOCK } from './constants';
+import { getMediaType, isRemoteUrl } from './utils';
+import { logger } from './logger';
+import { t } from './i18n';
+
+/**
+ * gallery 代码块的布局
+ * auto：与自动布局的 classic 相同，按图片数量排列；其他布局由 GalleryLayoutEngine 排列
+ */
+export type GalleryLayout = 'auto' | Exclude<GalleryLayoutName, 'classic'>;
+
+export interface GalleryOptions {
+	layout: GalleryLayout;
+	columns: number; // grid 和 masonry 的列数
+	gap: number; // 图片间距（px）
+	aspect?: string | null; // CSS aspect-ratio 值；未设置时使用布局默认值，null 表示保持图片原始比例
+	captions: boolean;
+}
+
+export interface GalleryImageRef {
+	link: string; // 图片链接（vault 中的路径、文件名或外部 URL）
+	caption: string;
+}
+
+export interface GalleryBlock {
+	options: GalleryOptions;
+	images: GalleryImageRef[];
+}
+
+/**
+ * gallery 代码块
+ * 用户在代码块中列出图片和选项，按指定布局渲染，不依赖 DOM 相邻关系猜测，
+ * 在阅读模式和实时预览模式下渲染结果相同：
+ *
+ * ```gallery
+ * layout: grid
+ * columns: 3
+ * ![[photo-1.jpg|海边]]
+ * ![[photo-2.jpg]]
+ * ```
+ */
+export class GalleryCodeBlock {
+	private app: App;
+	private plugin: Plugin;
+
+	constructor(app: App, plugin: Plugin) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	/**
+	 * 注册代码块处理器
+	 */
+	initialize(): void {
+		this.plugin.registerMarkdownCodeBlockProcessor(GALLERY_BLOCK.LANGUAGE, (source, el, ctx) => {
+			this.render(source, el, ctx);
+		});
+		logger.log('[GalleryCodeBlock] 已注册 gallery 代码块');
+	}
+
+	/**
+	 * 解析代码块内容
+	 * "选项: 值" 形式的行是选项，其他非空行是图片（每行可以有多个嵌入）
+	 */
+	static parse(source: string): GalleryBlock {
+		const options: GalleryOptions = {
+			layout: 'grid',
+			columns: GALLERY_BLOCK.DEFAULT_COLUMNS,
+			gap: GALLERY_BLOCK.DEFAULT_GAP,
+			captions: false,
+		};
+		const images: GalleryImageRef[] = [];
+
+		for (const rawLine of source.split('\n')) {
+			const line = rawLine.trim();
+			if (!line || line === '---') continue;
+
+			const option = line.match(/^(layout|columns|gap|aspect|captions)\s*:\s*(.*)$/i);
+			if (option) {
+				this.applyOption(options, option[1].toLowerCase(), option[2].trim());
+				continue;
+			}
+
+			images.push(...this.parseImageLine(line));
+		}
+
+		return { options, images };
+	}
+
+	private static applyOption(options: GalleryOptions, key: string, value: string): void {
+		const lower = value.toLowerCase();
+		switch (key) {
+			case 'layout':
+				if (lower === 'auto' || lower === 'classic') {
+					options.layout = 'auto';
+					return;
+				}
+				if (GalleryLayoutEngine.isLayoutName(lower) && lower !== 'classic') {
+					options.layout = lower;
+					return;
+				}
+				break;
+			case 'columns': {
+				const columns = parseInt(value, 10);
+				if (columns > 0) {
+					options.columns = Math.min(columns, GALLERY_BLOCK.MAX_COLUMNS);
+					return;
+				}
+				break;
+			}
+			case 'gap': {
+				const gap = parseInt(value, 10);
+				if (gap >= 0) {
+					options.gap = gap;
+					return;
+				}
+				break;
+			}
+			case 'aspect': {
+				if (lower === 'auto' || lower === 'original') {
+					options.aspect = null;
+					return;
+				}
+				// 4/3、4:3 或 1.5
+				const ratio = value.match(/^(\d+(?:\.\d+)?)\s*[/:]\s*(\d+(?:\.\d+)?)$/);
+				if (ratio && parseFloat(ratio[1]) > 0 && parseFloat(ratio[2]) > 0) {
+					options.aspect = `${ratio[1]} / ${ratio[2]}`;
+					return;
+				}
+				if (/^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 0) {
+					options.aspect = value;
+					return;
+				}
+				break;
+			}
+			case 'captions':
+				if (['true', 'yes', 'on', '1'].includes(lower)) {
+					options.captions = true;
+					return;
+				}
+				if (['false', 'no', 'off', '0'].includes(lower)) {
+					options.captions = false;
+					return;
+				}
+				break;
+		}
+		logger.warn(`[GalleryCodeBlock] 无法识别的选项值 ${key}: ${value}`);
+	}
+
+	/**
+	 * 解析一行中的图片：![[图片|说明]]、![说明](图片)，或者直接写路径（可以用 | 分隔说明）
+	 */
+	private static parseImageLine(line: string): GalleryImageRef[] {
+		const refs: GalleryImageRef[] = [];
+		const embedRegex = /!?\[\[([^\]]+)\]\]|!?\[([^\]]*)\]\(([^)]+)\)/g;
+		let match;
+		while ((match = embedRegex.exec(line)) !== null) {
+			if (match[1] !== undefined) {
+				const [link, ...rest] = match[1].split('|');
+				refs.push({ link: link.split('#')[0].trim(), caption: this.toCaption(rest.join('|')) });
+			} else {
+				// 去掉可选的标题: ![说明](图片 "标题")
+				const link = match[3].trim().split(/\s+"/)[0];
+				refs.push({ link: this.decodeLink(link), caption: match[2].trim() });
+			}
+		}
+		if (refs.length > 0) return refs;
+
+		const [link, ...rest] = line.split('|');
+		return [{ link: link.trim(), caption: this.toCaption(rest.join('|')) }];
+	}
+
+	/**
+	 * wikilink 中 | 后面的尺寸（例如 300 或 300x200）不是说明
+	 */
+	private static toCaption(text: string): string {
+		const caption = text.trim();
+		return /^\d+(x\d+)?$/.test(caption) ? '' : caption;
+	}
+
+	private static decodeLink(link: string): string {
+		try {
+			return decodeURIComponent(link);
+		} catch {
+			return link;
+		}
+	}
+
+	/**
+	 * 渲染代码块
+	 */
+	private render(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+		const { options, images } = GalleryCodeBlock.parse(source);
+
+		const missing: string[] = [];
+		const imgs: HTMLImageElement[] = [];
+		const captions: string[] = [];
+		for (const ref of images) {
+			const img = this.createImage(ref, ctx.sourcePath);
+			if (img) {
+				// auto 布局的说明由 EditorImageLayout 按设置的样式显示
+				img.setAttribute('data-caption', options.captions ? ref.caption : '');
+				imgs.push(img);
+				captions.push(ref.caption);
+			} else {
+				missing.push(ref.link);
+			}
+		}
+
+		if (imgs.length === 0 && missing.length === 0) {
+			el.createDiv({ cls: 'diary-gallery-message', text: t('gallery.empty') });
+			return;
+		}
+
+		if (imgs.length > 0) {
+			const gallery = el.createDiv('diary-gallery diary-gallery-block');
+			// 移动端样式会用 !important 缩小间距，这里的间距是用户指定的，优先级更高
+			gallery.style.setProperty('gap', `${options.gap}px`, 'important');
+
+			if (options.layout === 'auto') {
+				this.renderAutoLayout(gallery, imgs, options);
+			} else {
+				this.renderEngineLayout(gallery, imgs, captions, options.layout, options);
+			}
+		}
+
+		if (missing.length > 0) {
+			el.createDiv({
+				cls: 'diary-gallery-message mod-warning',
+				text: t('gallery.notFound', { items: missing.join(t('common.listSeparator')) }),
+			});
+		}
+	}
+
+	/**
+	 * auto 布局：与自动布局使用相同的 diary-gallery 结构和 CSS（图片直接放在容器中，说明叠加在图片上）
+	 */
+	private renderAutoLayout(gallery: HTMLElement, imgs: HTMLImageElement[], options: GalleryOptions): void {
+		gallery.setAttribute('data-count', imgs.length.toString());
+		if (options.aspect) {
+			gallery.style.setProperty('aspect-ratio', options.aspect, 'important');
+		}
+		EditorImageLayout.organizeImagesInContainer(imgs, gallery);
+	}
+
+	/**
+	 * grid、masonry、justified 和 carousel 布局：与卡片使用同一个布局引擎
+	 * grid 的列数在图片数量少于列数时按图片数量分列
+	 */
+	private renderEngineLayout(
+		gallery: HTMLElement,
+		imgs: HTMLImageElement[],
+		captions: string[],
+		layout: GalleryLayoutName,
+		options: GalleryOptions
+	): void {
+		const items = imgs.map((img, index) => {
+			img.addClass('diary-processed');
+			if (!options.captions) return img;
+			const figure = gallery.createEl('figure', { cls: 'diary-gallery-figure' });
+			figure.appendChild(img);
+			if (captions[index]) {
+				figure.createEl('figcaption', { text: captions[index] });
+			}
+			return figure;
+		});
+
+		GalleryLayoutEngine.apply(gallery, items, layout, {
+			columns: options.columns,
+			aspect: options.aspect === undefined ? GALLERY_BLOCK.DEFAULT_ASPECT : options.aspect,
+		});
+	}
+
+	/**
+	 * 创建图片元素，找不到图片或不是图片时返回 null
+	 */
+	private createImage(ref: GalleryImageRef, sourcePath: string): HTMLImageElement | null {
+		let url: string;
+		let name: string;
+		if (isRemoteUrl(ref.link)) {
+			url = ref.link;
+			name = ref.link;
+		} else {
+			const file = this.app.metadataCache.getFirstLinkpathDest(ref.link.replace(/^\//, ''), sourcePath);
+			if (!(file instanceof TFile) || getMediaType(file.extension) !== 'image') return null;
+			url = this.app.vault.getResourcePath(file);
+			name = file.basename;
+		}
+
+		const img = document.createElement('img');
+		img.src = url;
+		img.alt = ref.caption || name;
+		if (ref.caption) {
+			img.title = ref.caption;
+		}
+		img.loading = 'lazy';
+		if (isRemoteUrl(ref.link)) {
+			img.referrerPolicy = 'no-referrer';
+		}
+		return img;
+	}
+}
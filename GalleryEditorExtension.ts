@@ -0,0 +1,349 @@
+import { App, TFile, editorInfoField, editorLivePreviewField } from 'obsidian';
+import { EditorState, Extension, Line, RangeSetBuilder, StateEffect, StateField, Transaction } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
+import { EditorImageLayout } from './EditorImageLayout';
+import { GalleryLayoutName } from './GalleryLayoutEngine';
+import { getMediaType, isRemoteUrl } from './utils';
+import { CaptionStyle, ImageCaption } from './ImageCaption';
+
+/**
+ * 一组连续图片嵌入所在的文档范围
+ */
+interface GalleryRun {
+	from: number; // 第一行开头
+	to: number; // 最后一行结尾
+	images: GalleryWidgetImage[];
+}
+
+interface GalleryWidgetImage {
+	url: string;
+	alt: string;
+	caption: string;
+}
+
+/**
+ * 可见的文档范围
+ */
+interface VisibleRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * StateField 的值：可见范围、其中的画廊和当前的装饰
+ */
+interface GalleryState {
+	visible: readonly VisibleRange[];
+	runs: GalleryRun[];
+	decorations: DecorationSet;
+}
+
+const setVisibleRanges = StateEffect.define<VisibleRange[]>();
+
+// 整行只有图片嵌入（可以有多个），例如 ![[a.jpg]] ![[b.jpg]] 或 ![](c.png)
+const EMBED_LINE_REGEX = /^\s*(?:(?:!\[\[[^\]]+\]\]|!\[[^\]]*\]\([^)]+\))\s*)+$/;
+const EMBED_REGEX = /!\[\[([^\]]+)\]\]|!\[([^\]]*)\]\(([^)]+)\)/g;
+// Obsidian 的 Markdown 语法树节点名称：嵌入和图片，以及其中的嵌入不会渲染的位置
+const EMBED_NODE_REGEX = /embed|image/;
+const EXCLUDED_NODE_REGEX = /codeblock|code-block|indented-code|comment|math|frontmatter/;
+
+/**
+ * 实时预览中的图片画廊组件
+ * DOM 由 CodeMirror 管理，结构与自动布局相同（diary-gallery + data-count），共用同一套 CSS
+ */
+class GalleryWidget extends WidgetType {
+	constructor(private images: GalleryWidgetImage[], private layout: GalleryLayoutName, private captionStyle: CaptionStyle) {
+		super();
+	}
+
+	eq(other: GalleryWidget): boolean {
+		return other.layout === this.layout
+			&& other.captionStyle === this.captionStyle
+			&& other.images.length === this.images.length
+			&& other.images.every((image, index) => image.url === this.images[index].url
+				&& image.alt === this.images[index].alt
+				&& image.caption === this.images[index].caption);
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const wrapper = document.createElement('div');
+		wrapper.addClass('diary-gallery-widget');
+
+		const gallery = wrapper.createDiv('diary-gallery');
+		gallery.setAttribute('data-count', this.images.length.toString());
+		const imgs = this.images.map((image) => {
+			const img = document.createElement('img');
+			img.src = image.url;
+			img.alt = image.alt;
+			img.setAttribute('data-caption', image.caption);
+			img.loading = 'lazy';
+			if (isRemoteUrl(image.url)) {
+				img.referrerPolicy = 'no-referrer';
+			}
+			return img;
+		});
+		EditorImageLayout.organizeImagesInContainer(imgs, gallery, this.layout);
+
+		// 点击画廊时把光标移到嵌入所在行，显示原始 Markdown 以便编辑
+		wrapper.addEventListener('mousedown', (e) => {
+			e.preventDefault();
+			const pos = view.posAtDOM(wrapper);
+			view.dispatch({ selection: { anchor: pos } });
+			view.focus();
+		});
+
+		return wrapper;
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+}
+
+/**
+ * 实时预览的图片画廊扩展
+ * 用语法树在可见范围内查找连续的图片嵌入行（中间可以有空行），用块级组件替换为画廊；
+ * 光标或选区在这些行中时不替换，显示原始 Markdown。
+ * 替换多行的块级装饰只能由 StateField 提供（ViewPlugin 不能提供），所以使用 StateField，
+ * 可见范围由 ViewPlugin 在视口变化后通过 setVisibleRanges 传入。
+ * 画廊范围只在文档、可见范围或语法树变化时重新查找，只移动光标时只重新判断哪些画廊需要显示原始 Markdown
+ */
+export class GalleryEditorExtension {
+	/**
+	 * @param shouldProcessFile 是否在该文件中启用画廊（与自动布局的范围一致）
+	 * @param getLayout 文件使用的图片布局
+	 */
+	static create(
+		app: App,
+		shouldProcessFile: (filePath: string | null | undefined) => boolean,
+		getLayout: (filePath: string) => GalleryLayoutName
+	): Extension {
+		const buildDecorations = (state: EditorState, runs: GalleryRun[]): DecorationSet => {
+			if (runs.length === 0) return Decoration.none;
+
+			const file = state.field(editorInfoField, false)?.file ?? null;
+			if (!file) return Decoration.none;
+
+			const layout = getLayout(file.path);
+			const captionStyle = ImageCaption.getStyle();
+			const builder = new RangeSetBuilder<Decoration>();
+			for (const run of runs) {
+				if (this.selectionTouches(state, run)) continue;
+				builder.add(run.from, run.to, Decoration.replace({
+					widget: new GalleryWidget(run.images, layout, captionStyle),
+					block: true,
+				}));
+			}
+			return builder.finish();
+		};
+
+		const findRuns = (state: EditorState, visible: readonly VisibleRange[]): GalleryRun[] => {
+			if (!state.field(editorLivePreviewField, false)) return [];
+
+			const file = state.field(editorInfoField, false)?.file ?? null;
+			if (!file || !shouldProcessFile(file.path)) return [];
+
+			return this.findRuns(app, state, file, visible);
+		};
+
+		const galleryField = StateField.define<GalleryState>({
+			create: () => ({ visible: [], runs: [], decorations: Decoration.none }),
+			update: (value, tr: Transaction) => {
+				let visible = value.visible;
+				for (const effect of tr.effects) {
+					if (effect.is(setVisibleRanges)) {
+						visible = effect.value;
+					}
+				}
+				if (tr.docChanged) {
+					visible = visible.map(range => ({
+						from: tr.changes.mapPos(range.from, -1),
+						to: tr.changes.mapPos(range.to, 1),
+					}));
+				}
+
+				// 语法树在后台逐步解析，解析到可见范围后需要重新查找
+				const rescan = tr.docChanged || tr.reconfigured || visible !== value.visible
+					|| syntaxTree(tr.startState) !== syntaxTree(tr.state)
+					|| tr.startState.field(editorLivePreviewField, false) !== tr.state.field(editorLivePreviewField, false);
+				if (rescan) {
+					const runs = findRuns(tr.state, visible);
+					return { visible, runs, decorations: buildDecorations(tr.state, runs) };
+				}
+				if (tr.selection) {
+					return { ...value, decorations: buildDecorations(tr.state, value.runs) };
+				}
+				return value;
+			},
+			provide: (field) => EditorView.decorations.from(field, value => value.decorations),
+		});
+
+		// 视口变化后把可见范围传给 StateField（不能在视图更新过程中 dispatch，所以推迟到下一帧）
+		const visibleRangesPlugin = ViewPlugin.fromClass(class {
+			private frame: number | null = null;
+
+			constructor(private view: EditorView) {
+				this.schedule();
+			}
+
+			update(update: ViewUpdate): void {
+				if (update.viewportChanged) {
+					this.schedule();
+				}
+			}
+
+			destroy(): void {
+				if (this.frame !== null) {
+					cancelAnimationFrame(this.frame);
+					this.frame = null;
+				}
+			}
+
+			private schedule(): void {
+				if (this.frame !== null) return;
+				this.frame = requestAnimationFrame(() => {
+					this.frame = null;
+					const current = this.view.state.field(galleryField, false)?.visible ?? [];
+					const visible = this.view.visibleRanges.map(range => ({ from: range.from, to: range.to }));
+					const unchanged = current.length === visible.length
+						&& current.every((range, index) => range.from === visible[index].from && range.to === visible[index].to);
+					if (!unchanged) {
+						this.view.dispatch({ effects: setVisibleRanges.of(visible) });
+					}
+				});
+			}
+		});
+
+		return [galleryField, visibleRangesPlugin];
+	}
+
+	/**
+	 * 在可见范围内查找连续的图片嵌入行；至少两张图片才组成画廊
+	 * 可见范围的边界落在画廊中间时向外扩展到整个画廊，避免滚动时画廊只显示一部分
+	 */
+	private static findRuns(app: App, state: EditorState, file: TFile, visible: readonly VisibleRange[]): GalleryRun[] {
+		const tree = syntaxTree(state);
+		const runs: GalleryRun[] = [];
+		let current: GalleryRun | null = null;
+		let nextLine = 1; // 尚未检查的第一行（可见范围重叠时不重复检查）
+
+		const finish = () => {
+			if (current && current.images.length >= 2) {
+				runs.push(current);
+			}
+			current = null;
+		};
+
+		for (const range of visible) {
+			let lineNumber = Math.max(state.doc.lineAt(range.from).number, nextLine);
+			const lastLine = state.doc.lineAt(Math.min(range.to, state.doc.length)).number;
+
+			// 向前扩展到画廊的第一行
+			if (lineNumber > nextLine) {
+				finish();
+				while (lineNumber > nextLine && this.classifyLine(tree, state.doc.line(lineNumber - 1)) !== 'other') {
+					lineNumber--;
+				}
+			}
+
+			// 检查可见范围内的行；最后一行仍在画廊中时继续向后检查，直到画廊结束
+			for (; lineNumber <= state.doc.lines && (lineNumber <= lastLine || current); lineNumber++) {
+				const line = state.doc.line(lineNumber);
+				const kind = this.classifyLine(tree, line);
+
+				// 空行不打断画廊
+				if (kind === 'blank') continue;
+
+				const images = kind === 'embed' ? this.resolveImages(app, line.text, file) : null;
+				if (!images) {
+					finish();
+					if (lineNumber > lastLine) {
+						lineNumber++;
+						break;
+					}
+					continue;
+				}
+
+				if (current) {
+					current.to = line.to;
+					current.images.push(...images);
+				} else {
+					current = { from: line.from, to: line.to, images };
+				}
+			}
+			nextLine = lineNumber;
+		}
+		finish();
+
+		return runs;
+	}
+
+	/**
+	 * 用语法树判断一行的类型
+	 * 代码块（包括缩进代码块和没有闭合的代码块）、注释、数学公式和 frontmatter 中的行不是图片嵌入；
+	 * 语法树还没有解析到的行暂时当作普通行，解析完成后会重新查找
+	 */
+	private static classifyLine(tree: ReturnType<typeof syntaxTree>, line: Line): 'blank' | 'embed' | 'other' {
+		if (!line.text.trim()) return 'blank';
+		if (!EMBED_LINE_REGEX.test(line.text) || line.to > tree.length) return 'other';
+
+		let excluded = false;
+		let hasEmbed = false;
+		tree.iterate({
+			from: line.from,
+			to: line.to,
+			enter: (node) => {
+				if (EXCLUDED_NODE_REGEX.test(node.name)) {
+					excluded = true;
+					return false;
+				}
+				if (EMBED_NODE_REGEX.test(node.name)) {
+					hasEmbed = true;
+				}
+			},
+		});
+		return !excluded && hasEmbed ? 'embed' : 'other';
+	}
+
+	/**
+	 * 解析一行中的图片嵌入，有任何一个不是图片（例如嵌入的笔记或 PDF）时返回 null
+	 */
+	private static resolveImages(app: App, text: string, file: TFile): GalleryWidgetImage[] | null {
+		const images: GalleryWidgetImage[] = [];
+		EMBED_REGEX.lastIndex = 0;
+		let match;
+		while ((match = EMBED_REGEX.exec(text)) !== null) {
+			let link: string;
+			let alt: string;
+			if (match[1] !== undefined) {
+				const [target, ...rest] = match[1].split('|');
+				link = target.split('#')[0].trim();
+				alt = ImageCaption.clean(rest.join('|'));
+			} else {
+				link = match[3].trim().split(/\s+"/)[0];
+				alt = ImageCaption.clean(match[2]);
+			}
+
+			if (isRemoteUrl(link)) {
+				images.push({ url: link, alt, caption: alt });
+				continue;
+			}
+
+			let decoded = link;
+			try {
+				decoded = decodeURIComponent(link);
+			} catch {
+				// 无法解码时使用原始链接
+			}
+			const imageFile = app.metadataCache.getFirstLinkpathDest(decoded, file.path);
+			if (!(imageFile instanceof TFile) || getMediaType(imageFile.extension) !== 'image') return null;
+			images.push({ url: app.vault.getResourcePath(imageFile), alt: alt || imageFile.basename, caption: alt });
+		}
+		return images;
+	}
+
+	private static selectionTouches(state: EditorState, run: GalleryRun): boolean {
+		return state.selection.ranges.some(range => range.from <= run.to && range.to >= run.from);
+	}
+}
@@ -0,0 +1,343 @@
+import { App, TFile } from 'obsidian';
+import { GALLERY_LAYOUT, GALLERY_LAYOUT_FIELD } from './constants';
+import { TranslationKey } from './i18n';
+
+// 图片布局
+// classic：按图片数量使用固定布局（最多 5 张）；其他布局可以排列任意数量的图片
+export type GalleryLayoutName = 'classic' | 'grid' | 'masonry' | 'justified' | 'carousel';
+
+export const DEFAULT_GALLERY_LAYOUT: GalleryLayoutName = 'classic';
+
+// 布局选项（用于设置页面的下拉菜单，显示文本用 t(labelKey) 获取）
+export const GALLERY_LAYOUT_OPTIONS: { value: GalleryLayoutName; labelKey: TranslationKey }[] = [
+	{ value: 'classic', labelKey: 'layout.classic' },
+	{ value: 'grid', labelKey: 'layout.grid' },
+	{ value: 'masonry', labelKey: 'layout.masonry' },
+	{ value: 'justified', labelKey: 'layout.justified' },
+	{ value: 'carousel', labelKey: 'layout.carousel' },
+];
+
+export interface GalleryLayoutOptions {
+	columns?: number; // grid 和 masonry 的列数
+	aspect?: string | null; // grid 中图片的宽高比（CSS aspect-ratio 值），null 表示保持图片原始比例
+	rowHeight?: number; // justified 的目标行高（px）
+	carouselHeight?: number; // carousel 的图片高度（px）
+}
+
+/**
+ * 插件设置中与布局有关的部分
+ */
+export interface GalleryLayoutSettings {
+	galleryLayout?: GalleryLayoutName; // 全局布局
+	folderGalleryLayouts?: Record<string, GalleryLayoutName>; // 文件夹路径 -> 布局
+}
+
+interface LayoutState {
+	items: HTMLElement[];
+	layout: GalleryLayoutName;
+	options: GalleryLayoutOptions;
+}
+
+// 布局时设置的内联样式，重新布局前清除
+const CONTAINER_STYLES = [
+	'display', 'flex-wrap', 'align-items', 'grid-template-columns', 'grid-template-rows', 'grid-template-areas',
+	'aspect-ratio', 'height', 'overflow-x', 'overflow-y', 'scroll-snap-type',
+];
+const ITEM_STYLES = [
+	'display', 'flex', 'width', 'height', 'min-width', 'max-width', 'aspect-ratio', 'grid-area', 'margin', 'scroll-snap-align',
+];
+
+/**
+ * 图片布局引擎
+ * 卡片和编辑器共用：把一组元素（卡片中的图片容器、编辑器中的 img 或带说明的 figure）排列为指定布局。
+ * 元素的宽高比在图片加载后读取，justified、masonry 和 carousel 按实际比例排列。
+ * 布局尺寸使用带 !important 的内联样式，覆盖 classic 布局按 data-count 设置的 CSS
+ */
+export class GalleryLayoutEngine {
+	private static states: WeakMap<HTMLElement, LayoutState> = new WeakMap();
+	private static watched: WeakSet<HTMLElement> = new WeakSet();
+	private static pending: WeakSet<HTMLElement> = new WeakSet();
+
+	/**
+	 * 检查值是否是有效的布局名称
+	 */
+	static isLayoutName(value: unknown): value is GalleryLayoutName {
+		return GALLERY_LAYOUT_OPTIONS.some(option => option.value === value);
+	}
+
+	/**
+	 * 确定文件使用的布局
+	 * 优先级：笔记 frontmatter（gallery-layout）> 最近的文件夹设置 > 全局设置
+	 */
+	static resolve(
+		settings: GalleryLayoutSettings | null | undefined,
+		filePath: string | null | undefined,
+		frontmatter?: Record<string, unknown> | null
+	): GalleryLayoutName {
+		const noteLayout = frontmatter?.[GALLERY_LAYOUT_FIELD];
+		if (typeof noteLayout === 'string' && this.isLayoutName(noteLayout.trim().toLowerCase())) {
+			return noteLayout.trim().toLowerCase() as GalleryLayoutName;
+		}
+
+		if (filePath && settings?.folderGalleryLayouts) {
+			let matchedFolder = '';
+			for (const [folder, layout] of Object.entries(settings.folderGalleryLayouts)) {
+				if (!this.isLayoutName(layout) || folder.length <= matchedFolder.length) continue;
+				if (filePath.startsWith(folder + '/')) {
+					matchedFolder = folder;
+				}
+			}
+			if (matchedFolder) {
+				return settings.folderGalleryLayouts[matchedFolder];
+			}
+		}
+
+		const globalLayout = settings?.galleryLayout;
+		return this.isLayoutName(globalLayout) ? globalLayout : DEFAULT_GALLERY_LAYOUT;
+	}
+
+	/**
+	 * 确定 vault 中文件使用的布局（从 metadata cache 读取 frontmatter）
+	 */
+	static resolveForFile(app: App, settings: GalleryLayoutSettings | null | undefined, file: TFile): GalleryLayoutName {
+		return this.resolve(settings, file.path, app.metadataCache.getFileCache(file)?.frontmatter);
+	}
+
+	/**
+	 * 把元素排列为指定布局（classic 以外）
+	 * 元素会按顺序移动到容器中；图片加载后按实际宽高比重新布局
+	 */
+	static apply(container: HTMLElement, items: HTMLElement[], layout: GalleryLayoutName, options: GalleryLayoutOptions = {}): void {
+		container.addClass('diary-layout');
+		container.setAttribute('data-layout', layout);
+		this.states.set(container, { items, layout, options });
+
+		for (const item of items) {
+			item.addClass('diary-layout-item');
+			this.watchRatio(item);
+		}
+
+		this.layout(container);
+	}
+
+	/**
+	 * 按当前状态排列容器中的元素
+	 */
+	private static layout(container: HTMLElement): void {
+		const state = this.states.get(container);
+		if (!state) return;
+		const { items, layout, options } = state;
+
+		// 先把元素按原顺序放回容器，再移除上一次布局创建的列和占位元素
+		for (const item of items) {
+			container.appendChild(item);
+			this.clearStyles(item, ITEM_STYLES);
+			const target = this.getSizeTarget(item);
+			if (target !== item) {
+				this.clearStyles(target, ITEM_STYLES);
+			}
+		}
+		Array.from(container.children)
+			.filter(child => child.hasClass('diary-layout-column') || child.hasClass('diary-layout-filler'))
+			.forEach(child => child.remove());
+		this.clearStyles(container, CONTAINER_STYLES);
+
+		this.setStyles(container, {
+			'aspect-ratio': 'auto',
+			'height': 'auto',
+			'grid-template-areas': 'none',
+			'grid-template-rows': 'none',
+		});
+
+		switch (layout) {
+			case 'grid':
+				this.layoutGrid(container, items, options);
+				break;
+			case 'masonry':
+				this.layoutMasonry(container, items, options);
+				break;
+			case 'justified':
+				this.layoutJustified(container, items, options);
+				break;
+			case 'carousel':
+				this.layoutCarousel(container, items, options);
+				break;
+		}
+	}
+
+	/**
+	 * grid：固定列数，图片按统一的宽高比裁剪
+	 */
+	private static layoutGrid(container: HTMLElement, items: HTMLElement[], options: GalleryLayoutOptions): void {
+		const columns = this.getColumns(items.length, options);
+		this.setStyles(container, {
+			'display': 'grid',
+			'grid-template-columns': `repeat(${columns}, minmax(0, 1fr))`,
+			'align-items': 'start',
+		});
+
+		for (const item of items) {
+			const aspect = options.aspect === null ? String(this.getRatio(item)) : (options.aspect ?? '1');
+			this.setItemStyles(item, { 'width': '100%', 'min-width': '0' }, { 'width': '100%', 'height': 'auto', 'aspect-ratio': aspect });
+		}
+	}
+
+	/**
+	 * masonry：等宽的列，每张图片放到当前最短的一列，保持原始比例
+	 */
+	private static layoutMasonry(container: HTMLElement, items: HTMLElement[], options: GalleryLayoutOptions): void {
+		const columnCount = this.getColumns(items.length, options);
+		this.setStyles(container, {
+			'display': 'flex',
+			'align-items': 'flex-start',
+		});
+
+		const columns: HTMLElement[] = [];
+		const heights: number[] = [];
+		for (let i = 0; i < columnCount; i++) {
+			columns.push(container.createDiv('diary-layout-column'));
+			heights.push(0);
+		}
+
+		for (const item of items) {
+			// 列宽相同，图片高度与 1 / 宽高比成正比
+			const ratio = this.getRatio(item);
+			const shortest = heights.indexOf(Math.min(...heights));
+			columns[shortest].appendChild(item);
+			heights[shortest] += 1 / ratio;
+			this.setItemStyles(item, { 'width': '100%' }, { 'width': '100%', 'height': 'auto', 'aspect-ratio': String(ratio) });
+		}
+	}
+
+	/**
+	 * justified：每行高度相同并填满宽度，宽图占得更宽
+	 * 每张图片按宽高比分配剩余宽度（flex-grow = 宽高比），同一行的图片因此等高；
+	 * 最后的占位元素吸收最后一行的剩余宽度，避免最后一行的图片被拉得很大
+	 */
+	private static layoutJustified(container: HTMLElement, items: HTMLElement[], options: GalleryLayoutOptions): void {
+		const rowHeight = options.rowHeight ?? GALLERY_LAYOUT.ROW_HEIGHT;
+		this.setStyles(container, {
+			'display': 'flex',
+			'flex-wrap': 'wrap',
+			'align-items': 'flex-start',
+		});
+
+		for (const item of items) {
+			const ratio = this.getRatio(item);
+			this.setItemStyles(
+				item,
+				{ 'flex': `${ratio} 1 ${Math.round(ratio * rowHeight)}px`, 'min-width': '0' },
+				{ 'width': '100%', 'height': 'auto', 'aspect-ratio': String(ratio) }
+			);
+		}
+
+		const filler = container.createDiv('diary-layout-filler');
+		this.setStyles(filler, { 'flex': '1000000 1 0px', 'height': '0' });
+	}
+
+	/**
+	 * carousel：一行横向滚动，图片高度相同
+	 */
+	private static layoutCarousel(container: HTMLElement, items: HTMLElement[], options: GalleryLayoutOptions): void {
+		const height = options.carouselHeight ?? GALLERY_LAYOUT.CAROUSEL_HEIGHT;
+		this.setStyles(container, {
+			'display': 'flex',
+			'flex-wrap': 'nowrap',
+			'align-items': 'flex-start',
+			'overflow-x': 'auto',
+			'overflow-y': 'hidden',
+			'scroll-snap-type': 'x mandatory',
+		});
+
+		for (const item of items) {
+			const ratio = this.getRatio(item);
+			this.setItemStyles(
+				item,
+				{ 'flex': '0 0 auto', 'max-width': '100%', 'scroll-snap-align': 'start' },
+				{ 'width': 'auto', 'height': `${height}px`, 'aspect-ratio': String(ratio) }
+			);
+		}
+	}
+
+	/**
+	 * 设置元素样式：itemStyles 设置在元素上，sizeStyles 设置在决定尺寸的元素上
+	 * （带说明的 figure 由其中的图片决定尺寸，说明显示在图片下方）
+	 */
+	private static setItemStyles(item: HTMLElement, itemStyles: Record<string, string>, sizeStyles: Record<string, string>): void {
+		this.setStyles(item, { 'grid-area': 'auto', 'margin': '0', ...itemStyles });
+		// classic 布局的 CSS 会隐藏第 6 张以后的图片，这里重新显示
+		const target = this.getSizeTarget(item);
+		this.setStyles(target, { 'display': 'block', ...sizeStyles });
+	}
+
+	private static getSizeTarget(item: HTMLElement): HTMLElement {
+		if (item.tagName !== 'FIGURE') return item;
+		return item.querySelector<HTMLElement>('img, video') ?? item;
+	}
+
+	private static getColumns(count: number, options: GalleryLayoutOptions): number {
+		return Math.max(1, Math.min(options.columns ?? GALLERY_LAYOUT.DEFAULT_COLUMNS, count));
+	}
+
+	/**
+	 * 元素的宽高比（图片加载前使用默认值）
+	 */
+	private static getRatio(item: HTMLElement): number {
+		const ratio = parseFloat(item.getAttribute('data-ratio') || '');
+		return ratio > 0 ? ratio : GALLERY_LAYOUT.DEFAULT_RATIO;
+	}
+
+	/**
+	 * 图片或视频加载后记录宽高比，并重新布局所在的容器
+	 */
+	private static watchRatio(item: HTMLElement): void {
+		if (this.watched.has(item)) return;
+		const media = item instanceof HTMLImageElement || item instanceof HTMLVideoElement
+			? item
+			: item.querySelector<HTMLImageElement | HTMLVideoElement>('img, video');
+		if (!media) return;
+		this.watched.add(item);
+
+		const update = () => {
+			const width = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+			const height = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+			if (!width || !height) return;
+
+			const ratio = (Math.round(width / height * 1000) / 1000).toString();
+			if (item.getAttribute('data-ratio') === ratio) return;
+			item.setAttribute('data-ratio', ratio);
+
+			const container = item.closest<HTMLElement>('.diary-layout');
+			if (container) {
+				this.scheduleLayout(container);
+			}
+		};
+
+		media.addEventListener(media instanceof HTMLVideoElement ? 'loadedmetadata' : 'load', update);
+		update();
+	}
+
+	/**
+	 * 多张图片同时加载完成时只重新布局一次
+	 */
+	private static scheduleLayout(container: HTMLElement): void {
+		if (this.pending.has(container)) return;
+		this.pending.add(container);
+		requestAnimationFrame(() => {
+			this.pending.delete(container);
+			this.layout(container);
+		});
+	}
+
+	private static setStyles(el: HTMLElement, styles: Record<string, string>): void {
+		for (const [name, value] of Object.entries(styles)) {
+			el.style.setProperty(name, value, 'important');
+		}
+	}
+
+	private static clearStyles(el: HTMLElement, names: string[]): void {
+		for (const name of names) {
+			el.style.removeProperty(name);
+		}
+	}
+}
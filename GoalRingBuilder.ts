@@ -0,0 +1,69 @@
+import { GoalProgress } from './GoalTracker';
+import { t } from './i18n';
+
+/**
+ * 目标进度环构建器
+ * 在 header 统计项旁边显示每个目标的完成进度
+ */
+export class GoalRingBuilder {
+	private static readonly SVG_NS = 'http://www.w3.org/2000/svg';
+	private static readonly SIZE = 40;
+	private static readonly STROKE = 4;
+
+	/**
+	 * 构建所有目标的进度环
+	 * @param container 父容器（会被清空）
+	 * @param progress 各目标进度
+	 */
+	static buildRings(container: HTMLElement, progress: GoalProgress[]): void {
+		container.empty();
+		for (const goal of progress) {
+			const item = container.createDiv('journal-goal-item');
+			if (goal.ratio >= 1) {
+				item.addClass('is-complete');
+			}
+			item.setAttribute('title', t('common.labelValue', { label: goal.label, value: `${goal.current} / ${goal.target}` }));
+
+			const ringWrapper = item.createDiv('journal-goal-ring');
+			ringWrapper.appendChild(this.createRing(goal.ratio));
+			ringWrapper.createDiv({ cls: 'journal-goal-percent', text: `${Math.round(goal.ratio * 100)}%` });
+
+			const textEl = item.createDiv('journal-goal-text');
+			textEl.createDiv({ cls: 'journal-goal-value', text: `${goal.current}/${goal.target}` });
+			textEl.createDiv({ cls: 'journal-goal-label', text: goal.label });
+		}
+	}
+
+	private static createRing(ratio: number): SVGSVGElement {
+		const radius = (this.SIZE - this.STROKE) / 2;
+		const circumference = 2 * Math.PI * radius;
+		const center = this.SIZE / 2;
+
+		const svg = document.createElementNS(this.SVG_NS, 'svg');
+		svg.setAttribute('width', String(this.SIZE));
+		svg.setAttribute('height', String(this.SIZE));
+		svg.setAttribute('viewBox', `0 0 ${this.SIZE} ${this.SIZE}`);
+
+		const track = document.createElementNS(this.SVG_NS, 'circle');
+		track.setAttribute('class', 'journal-goal-ring-track');
+		track.setAttribute('cx', String(center));
+		track.setAttribute('cy', String(center));
+		track.setAttribute('r', String(radius));
+		track.setAttribute('stroke-width', String(this.STROKE));
+		svg.appendChild(track);
+
+		const bar = document.createElementNS(this.SVG_NS, 'circle');
+		bar.setAttribute('class', 'journal-goal-ring-bar');
+		bar.setAttribute('cx', String(center));
+		bar.setAttribute('cy', String(center));
+		bar.setAttribute('r', String(radius));
+		bar.setAttribute('stroke-width', String(this.STROKE));
+		bar.setAttribute('stroke-dasharray', String(circumference));
+		bar.setAttribute('stroke-dashoffset', String(circumference * (1 - ratio)));
+		// 从 12 点方向开始顺时针绘制
+		bar.setAttribute('transform', `rotate(-90 ${center} ${center})`);
+		svg.appendChild(bar);
+
+		return svg;
+	}
+}
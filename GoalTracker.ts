@@ -0,0 +1,167 @@
+import { JournalEntry, formatDateKey } from './utils';
+import { StatisticsCalculator, StreakOptions } from './StatisticsCalculator';
+import { t, TranslationKey } from './i18n';
+
+// 目标周期
+export type GoalPeriod = 'day' | 'week' | 'month';
+// 目标指标
+export type GoalMetric = 'words' | 'entries';
+
+/**
+ * 写作目标（0 表示不设置该目标）
+ */
+export interface WritingGoals {
+	dailyWords: number;
+	dailyEntries: number;
+	weeklyWords: number;
+	weeklyEntries: number;
+	monthlyWords: number;
+	monthlyEntries: number;
+}
+
+export const DEFAULT_WRITING_GOALS: WritingGoals = {
+	dailyWords: 0,
+	dailyEntries: 0,
+	weeklyWords: 0,
+	weeklyEntries: 0,
+	monthlyWords: 0,
+	monthlyEntries: 0,
+};
+
+/**
+ * 单个目标的当前进度
+ */
+export interface GoalProgress {
+	period: GoalPeriod;
+	metric: GoalMetric;
+	target: number;
+	current: number;
+	ratio: number; // 完成比例（0-1，超出按 1 计）
+	label: string; // 例如"今日字数"
+}
+
+/**
+ * 写作目标跟踪
+ * 计算当前周期的目标进度、每天是否达成每日目标，以及基于目标的连续天数
+ */
+export class GoalTracker {
+	private static readonly LABEL_KEYS: Record<GoalPeriod, Record<GoalMetric, TranslationKey>> = {
+		day: { words: 'goal.dayWords', entries: 'goal.dayEntries' },
+		week: { words: 'goal.weekWords', entries: 'goal.weekEntries' },
+		month: { words: 'goal.monthWords', entries: 'goal.monthEntries' },
+	};
+
+	/**
+	 * 是否设置了任意目标
+	 */
+	static hasGoals(goals: WritingGoals): boolean {
+		return Object.values(goals).some((target) => target > 0);
+	}
+
+	/**
+	 * 是否设置了每日目标
+	 */
+	static hasDailyGoals(goals: WritingGoals): boolean {
+		return goals.dailyWords > 0 || goals.dailyEntries > 0;
+	}
+
+	/**
+	 * 计算所有已设置目标在当前周期（今天、本周、本月）的进度
+	 * @param dayRolloverHour 日期分界时间，条目和当前时间都按记录日归属周期（与连续天数一致）
+	 * @param now 当前时间（默认现在）
+	 */
+	static calculateProgress(
+		entries: JournalEntry[],
+		goals: WritingGoals,
+		dayRolloverHour: number = 0,
+		now: Date = new Date()
+	): GoalProgress[] {
+		const today = StatisticsCalculator.getStreakDay(now, dayRolloverHour);
+		const targets: { period: GoalPeriod; metric: GoalMetric; target: number }[] = [
+			{ period: 'day', metric: 'words', target: goals.dailyWords },
+			{ period: 'day', metric: 'entries', target: goals.dailyEntries },
+			{ period: 'week', metric: 'words', target: goals.weeklyWords },
+			{ period: 'week', metric: 'entries', target: goals.weeklyEntries },
+			{ period: 'month', metric: 'words', target: goals.monthlyWords },
+			{ period: 'month', metric: 'entries', target: goals.monthlyEntries },
+		];
+
+		return targets
+			.filter((goal) => goal.target > 0)
+			.map((goal) => {
+				const { start, end } = this.getPeriodRange(goal.period, today);
+				const periodEntries = entries.filter((e) => {
+					const day = StatisticsCalculator.getStreakDay(e.date, dayRolloverHour);
+					return day >= start && day < end;
+				});
+				const current = goal.metric === 'words'
+					? StatisticsCalculator.calculateTotalWords(periodEntries)
+					: periodEntries.length;
+				return {
+					...goal,
+					current,
+					ratio: Math.min(1, current / goal.target),
+					label: t(this.LABEL_KEYS[goal.period][goal.metric]),
+				};
+			});
+	}
+
+	/**
+	 * 计算每一天是否达成每日目标（所有每日目标都达成才算达成）
+	 * @param dayRolloverHour 日期分界时间，按记录日汇总（与连续天数一致）
+	 * @returns 记录日的日期键（YYYY-MM-DD）-> 是否达成；没有设置每日目标时返回空 Map
+	 */
+	static calculateDailyGoalStatus(entries: JournalEntry[], goals: WritingGoals, dayRolloverHour: number = 0): Map<string, boolean> {
+		const status = new Map<string, boolean>();
+		if (!this.hasDailyGoals(goals)) return status;
+
+		StatisticsCalculator.calculateDailyStats(entries, dayRolloverHour).forEach((stat, key) => {
+			const wordsMet = goals.dailyWords <= 0 || stat.wordCount >= goals.dailyWords;
+			const entriesMet = goals.dailyEntries <= 0 || stat.entryCount >= goals.dailyEntries;
+			status.set(key, wordsMet && entriesMet);
+		});
+		return status;
+	}
+
+	/**
+	 * 基于目标的连续天数：只把达成每日目标的日期算作有记录
+	 * 没有设置每日目标时与普通连续天数相同
+	 */
+	static calculateGoalStreak(
+		entries: JournalEntry[],
+		goals: WritingGoals,
+		options: StreakOptions,
+		now: Date = new Date()
+	): number {
+		if (!this.hasDailyGoals(goals)) {
+			return StatisticsCalculator.calculateConsecutiveDays(entries, options, now);
+		}
+
+		const status = this.calculateDailyGoalStatus(entries, goals, options.dayRolloverHour);
+		const metEntries = entries.filter((e) =>
+			status.get(formatDateKey(StatisticsCalculator.getStreakDay(e.date, options.dayRolloverHour))) === true
+		);
+		return StatisticsCalculator.calculateConsecutiveDays(metEntries, options, now);
+	}
+
+	/**
+	 * 计算周期的时间范围 [start, end)，周从周一开始
+	 */
+	private static getPeriodRange(period: GoalPeriod, now: Date): { start: Date; end: Date } {
+		const year = now.getFullYear();
+		const month = now.getMonth();
+		const day = now.getDate();
+
+		switch (period) {
+			case 'week': {
+				const weekStart = day - (now.getDay() + 6) % 7;
+				return { start: new Date(year, month, weekStart), end: new Date(year, month, weekStart + 7) };
+			}
+			case 'month':
+				return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+			case 'day':
+			default:
+				return { start: new Date(year, month, day), end: new Date(year, month, day + 1) };
+		}
+	}
+}
@@ -0,0 +1,195 @@
+import { JournalEntry, formatDate, formatDateKey } from './utils';
+import { StatisticsCalculator, DailyStat } from './StatisticsCalculator';
+import { t, formatMonthShort, formatYear } from './i18n';
+
+// 热力图着色依据：每日字数 / 每日篇数
+export type HeatmapMetric = 'words' | 'entries';
+
+/**
+ * 热力图回调
+ */
+export interface HeatmapCallbacks {
+	onYearChange: (year: number) => void;
+	onMetricChange: (metric: HeatmapMetric) => void;
+	onDayClick: (date: Date) => void;
+}
+
+/**
+ * 年度热力图构建器
+ * 负责渲染类似 GitHub 贡献图的 52 周热力图
+ */
+export class HeatmapBuilder {
+	private static readonly LEVELS = 4; // 颜色等级数（不含 0 级）
+	private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+	/**
+	 * 构建热力图
+	 * @param container 父容器
+	 * @param entries 所有条目
+	 * @param year 要显示的年份
+	 * @param metric 着色依据
+	 * @param callbacks 回调
+	 */
+	static buildHeatmap(
+		container: HTMLElement,
+		entries: JournalEntry[],
+		year: number,
+		metric: HeatmapMetric,
+		callbacks: HeatmapCallbacks
+	): HTMLElement {
+		const heatmapEl = container.createDiv('journal-heatmap');
+
+		this.buildToolbar(heatmapEl, entries, year, metric, callbacks);
+
+		const dailyStats = StatisticsCalculator.calculateDailyStats(entries);
+		const maxValue = this.getMaxValue(dailyStats, year, metric);
+
+		const scrollEl = heatmapEl.createDiv('journal-heatmap-scroll');
+		const monthsEl = scrollEl.createDiv('journal-heatmap-months');
+		const gridEl = scrollEl.createDiv('journal-heatmap-grid');
+
+		// 从 1 月 1 日所在周的周一开始，到 12 月 31 日所在周结束
+		const firstDay = new Date(year, 0, 1);
+		const start = new Date(year, 0, 1 - (firstDay.getDay() + 6) % 7);
+		const lastDay = new Date(year, 11, 31);
+		const totalDays = Math.round((lastDay.getTime() - start.getTime()) / this.DAY_MS) + 1;
+		const weekCount = Math.ceil(totalDays / 7);
+
+		monthsEl.style.gridTemplateColumns = `repeat(${weekCount}, var(--journal-heatmap-cell))`;
+		gridEl.style.gridTemplateColumns = `repeat(${weekCount}, var(--journal-heatmap-cell))`;
+
+		let lastLabelMonth = -1;
+		for (let i = 0; i < weekCount * 7; i++) {
+			const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+			const cell = gridEl.createDiv('journal-heatmap-cell');
+
+			if (date.getFullYear() !== year) {
+				cell.addClass('journal-heatmap-cell-outside');
+				continue;
+			}
+
+			// 每月第一次出现的周显示月份标签
+			if (date.getMonth() !== lastLabelMonth && date.getDate() <= 7 && i % 7 === 0) {
+				const label = monthsEl.createDiv({ cls: 'journal-heatmap-month-label', text: formatMonthShort(date) });
+				label.style.gridColumnStart = String(Math.floor(i / 7) + 1);
+				lastLabelMonth = date.getMonth();
+			}
+
+			const stat = dailyStats.get(formatDateKey(date));
+			const value = stat ? this.getValue(stat, metric) : 0;
+			// 有记录但字数为 0（例如仅从缓存加载的条目）时仍至少显示最浅的颜色
+			const level = stat ? Math.max(1, this.getLevel(value, maxValue, metric)) : 0;
+			cell.setAttribute('data-level', String(level));
+
+			const cellLabel = t('heatmap.cell', {
+				date: formatDate(date),
+				value: t(metric === 'words' ? 'common.words' : 'common.entries', { count: value }),
+			});
+			cell.setAttribute('aria-label', cellLabel);
+			cell.setAttribute('title', cellLabel);
+
+			if (stat) {
+				cell.addClass('journal-heatmap-cell-active');
+				cell.addEventListener('click', () => callbacks.onDayClick(date));
+			}
+		}
+
+		this.buildLegend(heatmapEl);
+
+		return heatmapEl;
+	}
+
+	/**
+	 * 构建工具栏：年份选择和着色依据切换
+	 */
+	private static buildToolbar(
+		heatmapEl: HTMLElement,
+		entries: JournalEntry[],
+		year: number,
+		metric: HeatmapMetric,
+		callbacks: HeatmapCallbacks
+	): void {
+		const toolbar = heatmapEl.createDiv('journal-heatmap-toolbar');
+
+		// 年份选择（包含今年和所有有记录的年份）
+		const years = StatisticsCalculator.getEntryYears(entries);
+		const currentYear = new Date().getFullYear();
+		if (!years.includes(currentYear)) years.unshift(currentYear);
+		if (!years.includes(year)) years.push(year);
+		years.sort((a, b) => b - a);
+
+		const yearSelect = toolbar.createEl('select', { cls: 'dropdown journal-heatmap-year-select' });
+		yearSelect.setAttribute('aria-label', t('common.selectYear'));
+		for (const y of years) {
+			const option = yearSelect.createEl('option', { text: formatYear(y), value: String(y) });
+			if (y === year) option.selected = true;
+		}
+		yearSelect.addEventListener('change', () => {
+			callbacks.onYearChange(parseInt(yearSelect.value));
+		});
+
+		// 着色依据切换
+		const metricGroup = toolbar.createDiv('journal-heatmap-metric');
+		const metricOptions: { value: HeatmapMetric; label: string }[] = [
+			{ value: 'entries', label: t('heatmap.metricEntries') },
+			{ value: 'words', label: t('heatmap.metricWords') },
+		];
+		for (const option of metricOptions) {
+			const button = metricGroup.createEl('button', {
+				cls: 'journal-heatmap-metric-button',
+				text: option.label,
+			});
+			if (option.value === metric) {
+				button.addClass('is-active');
+			}
+			button.addEventListener('click', () => {
+				if (option.value !== metric) {
+					callbacks.onMetricChange(option.value);
+				}
+			});
+		}
+	}
+
+	/**
+	 * 构建图例
+	 */
+	private static buildLegend(heatmapEl: HTMLElement): void {
+		const legend = heatmapEl.createDiv('journal-heatmap-legend');
+		legend.createSpan({ text: t('heatmap.less') });
+		for (let level = 0; level <= this.LEVELS; level++) {
+			const cell = legend.createDiv('journal-heatmap-cell');
+			cell.setAttribute('data-level', String(level));
+		}
+		legend.createSpan({ text: t('heatmap.more') });
+	}
+
+	private static getValue(stat: DailyStat, metric: HeatmapMetric): number {
+		return metric === 'words' ? stat.wordCount : stat.entryCount;
+	}
+
+	/**
+	 * 获取指定年份中的最大值（用于字数着色的归一化）
+	 */
+	private static getMaxValue(dailyStats: Map<string, DailyStat>, year: number, metric: HeatmapMetric): number {
+		let max = 0;
+		dailyStats.forEach((stat) => {
+			if (stat.date.getFullYear() === year) {
+				max = Math.max(max, this.getValue(stat, metric));
+			}
+		});
+		return max;
+	}
+
+	/**
+	 * 计算颜色等级（0 表示无记录）
+	 * 篇数按绝对值分级（1、2、3、4+），字数按当年最大值等比分级
+	 */
+	private static getLevel(value: number, maxValue: number, metric: HeatmapMetric): number {
+		if (value <= 0) return 0;
+		if (metric === 'entries') {
+			return Math.min(value, this.LEVELS);
+		}
+		if (maxValue <= 0) return 1;
+		return Math.max(1, Math.ceil((value / maxValue) * this.LEVELS));
+	}
+}
@@ -0,0 +1,128 @@
+import { App, TFile } from 'obsidian';
+import { ImageInfo } from './utils';
+import { COVER_FIELD } from './constants';
+import { t } from './i18n';
+
+/**
+ * 附件操作
+ * 图片查看器中的定位、复制链接、设为封面和删除等操作
+ */
+export class ImageActions {
+	/**
+	 * 附件在 vault 中的文件（外部链接返回 null）
+	 */
+	static getFile(app: App, media: ImageInfo): TFile | null {
+		if (media.isRemote) return null;
+		const file = app.vault.getAbstractFileByPath(media.path);
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * 嵌入该附件的笔记
+	 */
+	static getSourceNote(app: App, media: ImageInfo): TFile | null {
+		if (!media.source) return null;
+		const file = app.vault.getAbstractFileByPath(media.source.path);
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * 打开嵌入该附件的笔记，并定位到嵌入所在行
+	 */
+	static async openSource(app: App, media: ImageInfo): Promise<void> {
+		if (!media.source) return;
+		await app.workspace.openLinkText(media.source.path, '', true, { eState: { line: media.source.line } });
+	}
+
+	/**
+	 * 在文件列表中显示附件
+	 * @returns 文件列表插件未启用时返回 false
+	 */
+	static revealInExplorer(app: App, media: ImageInfo): boolean {
+		const file = this.getFile(app, media);
+		// 文件列表是核心插件，没有公开 API
+		const explorer = (app as any).internalPlugins?.getPluginById?.('file-explorer');
+		if (!file || !explorer?.enabled || !explorer.instance?.revealInFolder) return false;
+		explorer.instance.revealInFolder(file);
+		return true;
+	}
+
+	/**
+	 * 附件的嵌入链接（按用户的链接格式设置生成），外部链接返回 URL
+	 */
+	static getLink(app: App, media: ImageInfo): string {
+		const file = this.getFile(app, media);
+		if (!file) return media.url;
+		return `!${app.fileManager.generateMarkdownLink(file, media.source?.path ?? '')}`;
+	}
+
+	/**
+	 * 把附件设为所在笔记的封面（写入 frontmatter）
+	 */
+	static async setCover(app: App, media: ImageInfo): Promise<void> {
+		const note = this.getSourceNote(app, media);
+		if (!note) throw new Error(t('image.noteNotFound', { path: media.source?.path ?? '' }));
+
+		const file = this.getFile(app, media);
+		// frontmatter 中只能识别 wikilink，外部图片直接写 URL
+		const value = file ? `[[${app.metadataCache.fileToLinktext(file, note.path)}]]` : media.url;
+		await app.fileManager.processFrontMatter(note, (frontmatter) => {
+			frontmatter[COVER_FIELD] = value;
+		});
+	}
+
+	/**
+	 * 删除附件：从笔记中移除嵌入，没有其他地方引用时把文件移到回收站
+	 * @returns 文件是否被删除（外部链接或仍被引用时只移除嵌入）
+	 */
+	static async delete(app: App, media: ImageInfo): Promise<boolean> {
+		const note = this.getSourceNote(app, media);
+		if (!note || !media.source) throw new Error(t('image.noteNotFound', { path: media.source?.path ?? '' }));
+
+		// 先检查引用（移除嵌入后 metadata cache 不会立即更新）
+		const file = this.getFile(app, media);
+		const inUse = file ? this.isReferencedElsewhere(app, file, note.path) : false;
+
+		await this.removeEmbed(app, note, media.source.line, media.source.embed);
+
+		if (!file || inUse) return false;
+		await app.fileManager.trashFile(file);
+		return true;
+	}
+
+	/**
+	 * 除了这一处嵌入之外，是否还有其他链接指向该文件
+	 */
+	private static isReferencedElsewhere(app: App, file: TFile, notePath: string): boolean {
+		return Object.entries(app.metadataCache.resolvedLinks).some(([sourcePath, links]) => {
+			const count = links[file.path] ?? 0;
+			return count > (sourcePath === notePath ? 1 : 0);
+		});
+	}
+
+	/**
+	 * 移除笔记中的嵌入语法，嵌入单独占一行时删除整行
+	 * 嵌入所在行已经改变（例如文件在加载后被编辑）时移除第一处相同的嵌入
+	 */
+	private static async removeEmbed(app: App, note: TFile, line: number, embed: string): Promise<void> {
+		await app.vault.process(note, (content) => {
+			const lines = content.split('\n');
+			const current = lines[line];
+			if (current !== undefined && current.includes(embed)) {
+				const rest = current.replace(embed, '');
+				if (rest.trim()) {
+					lines[line] = rest;
+				} else {
+					lines.splice(line, 1);
+				}
+				return lines.join('\n');
+			}
+
+			const index = content.indexOf(embed);
+			if (index === -1) {
+				throw new Error(t('image.embedNotFound', { embed }));
+			}
+			return content.slice(0, index) + content.slice(index + embed.length);
+		});
+	}
+}
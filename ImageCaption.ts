@@ -0,0 +1,146 @@
+import { MEDIA_EXTENSIONS } from './constants';
+import { TranslationKey } from './i18n';
+import { ImageInfo } from './utils';
+
+// 图片说明的显示方式：不显示、叠加在图片底部、显示在图片下方
+export type CaptionStyle = 'none' | 'overlay' | 'below';
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = 'overlay';
+
+// 说明样式选项（用于设置页面的下拉菜单，显示文本用 t(labelKey) 获取）
+export const CAPTION_STYLE_OPTIONS: { value: CaptionStyle; labelKey: TranslationKey }[] = [
+	{ value: 'none', labelKey: 'caption.none' },
+	{ value: 'overlay', labelKey: 'caption.overlay' },
+	{ value: 'below', labelKey: 'caption.below' },
+];
+
+// | 后面的尺寸（例如 300 或 300x200）
+const SIZE_REGEX = /^\d+(x\d+)?$/;
+// 以附件扩展名结尾的文字是文件名，不是说明
+const FILE_NAME_REGEX = new RegExp(`\\.(${Object.values(MEDIA_EXTENSIONS).flat().join('|')})$`, 'i');
+
+/**
+ * 图片说明
+ * 说明来自 ![说明](图片) 或 ![[图片|说明]]；卡片和编辑器中的画廊按设置的样式显示
+ */
+export class ImageCaption {
+	private static style: CaptionStyle = DEFAULT_CAPTION_STYLE;
+	private static observers: WeakMap<HTMLElement, ResizeObserver> = new WeakMap();
+
+	static setStyle(style: CaptionStyle): void {
+		this.style = CAPTION_STYLE_OPTIONS.some(option => option.value === style) ? style : DEFAULT_CAPTION_STYLE;
+	}
+
+	static getStyle(): CaptionStyle {
+		return this.style;
+	}
+
+	/**
+	 * 从 alt 文字中取出说明
+	 * Obsidian 在没有别名时把链接本身作为 alt，尺寸和文件名都不是说明
+	 * @param names 附件自身的名称和路径，与之相同的文字不作为说明
+	 */
+	static clean(text: string | null | undefined, names: string[] = []): string {
+		const caption = (text ?? '')
+			.split('|')
+			.map(part => part.trim())
+			.filter(part => part && !SIZE_REGEX.test(part))
+			.join(' | ');
+		if (!caption || FILE_NAME_REGEX.test(caption) || names.includes(caption)) return '';
+		return caption;
+	}
+
+	/**
+	 * 附件的说明（没有时为空字符串）
+	 */
+	static fromImage(image: ImageInfo): string {
+		const fileName = image.path.split('/').pop() ?? '';
+		return this.clean(image.altText, [image.name, image.path, fileName, fileName.replace(/\.[^.]+$/, '')]);
+	}
+
+	/**
+	 * 编辑器中图片的说明
+	 * 优先使用 data-caption（实时预览组件和 gallery 代码块创建图片时设置）；
+	 * 阅读模式中 Obsidian 把别名放在 alt 中，嵌入的 src 是链接本身
+	 */
+	static fromElement(img: HTMLImageElement): string {
+		const caption = img.getAttribute('data-caption');
+		if (caption !== null) return caption;
+
+		const embedSrc = img.closest('.internal-embed')?.getAttribute('src') ?? '';
+		return this.clean(img.getAttribute('alt'), [embedSrc.split('|')[0].trim()]);
+	}
+
+	/**
+	 * 在元素中显示说明（卡片中的图片容器、编辑器中的 figure）
+	 * overlay 叠加在元素底部；below 显示在图片下方，元素改为纵向排列
+	 */
+	static attach(item: HTMLElement, caption: string, style: CaptionStyle = this.style): void {
+		item.querySelector(':scope > .diary-caption')?.remove();
+		item.removeClass('diary-caption-overlay', 'diary-caption-below');
+		if (!caption || style === 'none') return;
+
+		item.addClass(`diary-caption-${style}`);
+		item.createDiv({ cls: 'diary-caption', text: caption, attr: { title: caption } });
+	}
+
+	/**
+	 * 编辑器中 classic 以外的布局：有说明的图片放入 figure，figure 由布局引擎排列
+	 * 返回排列的元素（没有说明或不显示说明时为图片本身）
+	 */
+	static wrapImages(images: HTMLImageElement[], container: HTMLElement): HTMLElement[] {
+		return images.map((img) => {
+			const caption = this.fromElement(img);
+			if (!caption || this.style === 'none') return img;
+
+			const figure = container.createEl('figure', { cls: 'diary-gallery-figure' });
+			figure.appendChild(img);
+			this.attach(figure, caption);
+			return figure;
+		});
+	}
+
+	/**
+	 * 编辑器中 classic 布局的说明
+	 * classic 布局的 CSS 按图片在容器中的位置（nth-child）排列，图片不能放入 figure，
+	 * 所以说明放在覆盖整个画廊的图层中，按图片的位置定位（below 样式也叠加显示）
+	 */
+	static renderOverlays(container: HTMLElement, images: HTMLImageElement[]): void {
+		this.observers.get(container)?.disconnect();
+		this.observers.delete(container);
+		container.querySelector(':scope > .diary-caption-layer')?.remove();
+		container.removeClass('has-captions');
+
+		if (this.style === 'none') return;
+		const captioned = images
+			.map(img => ({ img, caption: this.fromElement(img) }))
+			.filter(item => item.caption);
+		if (captioned.length === 0) return;
+
+		container.addClass('has-captions');
+		const layer = container.createDiv('diary-caption-layer');
+		const captions = captioned.map(({ img, caption }) => {
+			const el = layer.createDiv({ cls: 'diary-caption', text: caption, attr: { title: caption } });
+			return { img, el };
+		});
+
+		const position = () => {
+			const containerRect = container.getBoundingClientRect();
+			for (const { img, el } of captions) {
+				const rect = img.getBoundingClientRect();
+				// 隐藏的图片（classic 布局第 6 张以后）不显示说明
+				el.toggleClass('is-hidden', rect.width === 0 || rect.height === 0);
+				el.style.left = `${rect.left - containerRect.left}px`;
+				el.style.width = `${rect.width}px`;
+				el.style.top = `${rect.bottom - containerRect.top}px`;
+			}
+		};
+
+		// 画廊尺寸变化（窗口缩放、图片加载、插入到文档中）时重新定位
+		const observer = new ResizeObserver(() => position());
+		observer.observe(container);
+		captions.forEach(({ img }) => observer.observe(img));
+		this.observers.set(container, observer);
+		position();
+	}
+}
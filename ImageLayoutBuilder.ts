@@ -1,13 +1,18 @@
 import { ImageInfo } from './utils';
 import { CONTENT, IMAGE_LOADING } from './constants';
 import { ImageModal } from './ImageModal';
+import { PdfRenderer } from './PdfRenderer';
+import { ThumbnailCache } from './ThumbnailCache';
+import { GalleryLayoutEngine, GalleryLayoutName } from './GalleryLayoutEngine';
+import { ImageCaption } from './ImageCaption';
 
 /**
  * 图片布局构建器
- * 负责根据图片数量创建不同的布局结构
+ * 负责根据图片数量创建不同的布局结构，视频和 PDF 与图片一样显示为缩略图
  */
 export class ImageLayoutBuilder {
 	private static imageModal: ImageModal | null = null;
+	private static thumbnailCache: ThumbnailCache | null = null;
 
 	/**
 	 * 设置图片查看器实例
@@ -15,6 +20,32 @@ export class ImageLayoutBuilder {
 	static setImageModal(modal: ImageModal): void {
 		this.imageModal = modal;
 	}
+
+	/**
+	 * 设置缩略图缓存（未设置时直接加载原图）
+	 */
+	static setThumbnailCache(cache: ThumbnailCache): void {
+		this.thumbnailCache = cache;
+	}
+	/**
+	 * 根据附件类型创建懒加载缩略图，有说明时按设置的样式显示在容器中
+	 */
+	static createLazyMedia(image: ImageInfo, container: HTMLElement, allImages: ImageInfo[] = [], imageIndex: number = 0): HTMLElement {
+		let media: HTMLElement;
+		switch (image.type) {
+			case 'video':
+				media = this.createLazyVideo(image, container, allImages, imageIndex);
+				break;
+			case 'pdf':
+				media = this.createLazyPdf(image, container, allImages, imageIndex);
+				break;
+			default:
+				media = this.createLazyImage(image, container, allImages, imageIndex);
+		}
+		ImageCaption.attach(container, ImageCaption.fromImage(image));
+		return media;
+	}
+
 	/**
 	 * 创建懒加载图片
 	 */
@@ -24,46 +55,123 @@ export class ImageLayoutBuilder {
 		img.addClass('journal-image');
 		img.loading = 'lazy';
 		img.decoding = 'async';
+		if (image.isRemote) {
+			// 外部图片不发送 Referer，避免部分图床拒绝请求
+			img.referrerPolicy = 'no-referrer';
+		}
+
+		this.attachViewer(img, image, allImages, imageIndex);
+		this.observeOnce(img, () => {
+			if (this.thumbnailCache) {
+				// 卡片中只加载缩略图，原图在查看器中加载
+				this.thumbnailCache.load(img, image, img.clientWidth || container.clientWidth);
+			} else {
+				img.src = image.url;
+			}
+		});
+
+		container.appendChild(img);
+		return img;
+	}
 
-		// 添加点击事件：打开全屏查看器
-		img.style.cursor = 'pointer';
-		img.addEventListener('click', (e) => {
+	/**
+	 * 创建懒加载视频缩略图（显示第一帧，点击后在查看器中播放）
+	 */
+	private static createLazyVideo(image: ImageInfo, container: HTMLElement, allImages: ImageInfo[], imageIndex: number): HTMLVideoElement {
+		const video = document.createElement('video');
+		video.addClass('journal-image');
+		video.muted = true;
+		video.preload = 'metadata';
+		video.playsInline = true;
+
+		this.attachViewer(video, image, allImages, imageIndex);
+		this.observeOnce(video, () => {
+			// 跳到 0.1 秒，让浏览器加载并显示第一帧
+			video.src = `${image.url}#t=0.1`;
+		});
+
+		container.appendChild(video);
+		container.createDiv({ cls: 'journal-media-badge journal-media-badge-play', text: '▶' });
+		return video;
+	}
+
+	/**
+	 * 创建懒加载 PDF 缩略图（第一页）
+	 */
+	private static createLazyPdf(image: ImageInfo, container: HTMLElement, allImages: ImageInfo[], imageIndex: number): HTMLImageElement {
+		const img = document.createElement('img');
+		img.alt = image.altText || image.name;
+		img.addClass('journal-image');
+		img.addClass('journal-image-pdf');
+
+		this.attachViewer(img, image, allImages, imageIndex);
+		this.observeOnce(img, () => {
+			PdfRenderer.getThumbnail(image.url).then((thumbnail) => {
+				if (thumbnail) {
+					img.src = thumbnail;
+				} else {
+					// 渲染失败时显示文件名
+					container.createDiv({ cls: 'journal-media-placeholder', text: image.name });
+				}
+			});
+		});
+
+		container.appendChild(img);
+		container.createDiv({ cls: 'journal-media-badge', text: 'PDF' });
+		return img;
+	}
+
+	/**
+	 * 点击缩略图时打开全屏查看器
+	 */
+	private static attachViewer(el: HTMLElement, image: ImageInfo, allImages: ImageInfo[], imageIndex: number): void {
+		el.style.cursor = 'pointer';
+		el.addEventListener('click', (e) => {
 			e.stopPropagation(); // 阻止事件冒泡到卡片
 			if (this.imageModal && allImages.length > 0) {
-				// 找到当前图片在所有图片中的索引
+				// 找到当前附件在所有附件中的索引
 				const currentIndex = allImages.findIndex(img => img.path === image.path);
 				this.imageModal.show(allImages, currentIndex >= 0 ? currentIndex : imageIndex);
 			}
 		});
+	}
 
-		// 使用 Intersection Observer 实现懒加载
-		const imageObserver = new IntersectionObserver((entries) => {
+	/**
+	 * 元素第一次进入可视区域时调用 onVisible（使用 Intersection Observer 实现懒加载）
+	 */
+	private static observeOnce(el: HTMLElement, onVisible: () => void): void {
+		const observer = new IntersectionObserver((entries) => {
 			entries.forEach((entry) => {
 				if (entry.isIntersecting) {
-					img.src = image.url;
-					imageObserver.unobserve(img);
+					onVisible();
+					observer.unobserve(el);
 				}
 			});
 		}, { rootMargin: IMAGE_LOADING.ROOT_MARGIN });
 
-		imageObserver.observe(img);
-		container.appendChild(img);
-		return img;
+		observer.observe(el);
 	}
 
 	/**
-	 * 根据图片数量构建布局
+	 * 根据布局和图片数量构建布局
 	 * @param imagesEl 图片容器元素
-	 * @param displayImages 要显示的图片列表
+	 * @param displayImages 要显示的图片列表（有封面时封面在第一张，显示在最大的位置）
 	 * @param totalImages 总图片数（用于显示 "+N"）
 	 * @param allImages 所有图片列表（用于全屏查看器）
+	 * @param layout 布局，classic 按图片数量使用固定布局，其他布局由 GalleryLayoutEngine 排列
 	 */
 	static buildImageLayout(
 		imagesEl: HTMLElement,
 		displayImages: ImageInfo[],
 		totalImages: number,
-		allImages: ImageInfo[] = displayImages
+		allImages: ImageInfo[] = displayImages,
+		layout: GalleryLayoutName = 'classic'
 	): void {
+		if (layout !== 'classic') {
+			this.buildEngineLayout(imagesEl, displayImages, totalImages, allImages, layout);
+			return;
+		}
+
 		const imageCount = displayImages.length;
 
 		// 根据图片数量添加不同的布局类
@@ -95,20 +203,20 @@ export class ImageLayoutBuilder {
 	private static buildQuadLayout(imagesEl: HTMLElement, displayImages: ImageInfo[], allImages: ImageInfo[]): void {
 		// 第一张：左半边大图
 		const imgContainer1 = imagesEl.createDiv('journal-image-container journal-image-container-quad-left');
-		this.createLazyImage(displayImages[0], imgContainer1, allImages, 0);
+		this.createLazyMedia(displayImages[0], imgContainer1, allImages, 0);
 
 		// 第二张：右半边上半部分
 		const imgContainer2 = imagesEl.createDiv('journal-image-container journal-image-container-quad-right-top');
-		this.createLazyImage(displayImages[1], imgContainer2, allImages, 1);
+		this.createLazyMedia(displayImages[1], imgContainer2, allImages, 1);
 
 		// 右半边下半部分：创建包装器
 		const rightBottomWrapper = imagesEl.createDiv('journal-images-quad-right-bottom');
 		// 第三张：右半边下半部分左侧
 		const imgContainer3 = rightBottomWrapper.createDiv('journal-image-container journal-image-container-quad-right-bottom-left');
-		this.createLazyImage(displayImages[2], imgContainer3, allImages, 2);
+		this.createLazyMedia(displayImages[2], imgContainer3, allImages, 2);
 		// 第四张：右半边下半部分右侧
 		const imgContainer4 = rightBottomWrapper.createDiv('journal-image-container journal-image-container-quad-right-bottom-right');
-		this.createLazyImage(displayImages[3], imgContainer4, allImages, 3);
+		this.createLazyMedia(displayImages[3], imgContainer4, allImages, 3);
 	}
 
 	/**
@@ -122,40 +230,70 @@ export class ImageLayoutBuilder {
 	): void {
 		// 第一张：左边大正方形
 		const imgContainer1 = imagesEl.createDiv('journal-image-container journal-image-container-large');
-		this.createLazyImage(displayImages[0], imgContainer1, allImages, 0);
+		this.createLazyMedia(displayImages[0], imgContainer1, allImages, 0);
 
 		// 右边2x2网格：创建包装器
 		const rightGridWrapper = imagesEl.createDiv('journal-images-multiple-right-grid');
 		// 第二、三、四、五张图片
 		for (let i = 1; i < displayImages.length; i++) {
 			const imgContainer = rightGridWrapper.createDiv('journal-image-container journal-image-container-small');
-			this.createLazyImage(displayImages[i], imgContainer, allImages, i);
+			this.createLazyMedia(displayImages[i], imgContainer, allImages, i);
 
 			// 如果超过最大显示数，在最后一张显示的图片上显示 "+N"
 			if (totalImages > CONTENT.MAX_IMAGES_PER_CARD && i === CONTENT.MAX_IMAGES_PER_CARD - 1) {
-				const moreEl = imgContainer.createDiv('journal-image-more');
-				moreEl.textContent = `+${totalImages - CONTENT.MAX_IMAGES_PER_CARD}`;
-				moreEl.style.cssText = `
-					position: absolute !important;
-					top: 0 !important;
-					left: 0 !important;
-					right: 0 !important;
-					bottom: 0 !important;
-					display: flex !important;
-					align-items: center !important;
-					justify-content: center !important;
-					background: rgba(0, 0, 0, 0.6) !important;
-					color: white !important;
-					font-size: 24px !important;
-					font-weight: 600 !important;
-					pointer-events: none !important;
-					z-index: 10 !important;
-					border-radius: 8px !important;
-				`;
+				this.addMoreOverlay(imgContainer, totalImages - CONTENT.MAX_IMAGES_PER_CARD);
 			}
 		}
 	}
 
+	/**
+	 * 使用布局引擎构建 grid、masonry、justified 或 carousel 布局（任意数量的图片）
+	 */
+	private static buildEngineLayout(
+		imagesEl: HTMLElement,
+		displayImages: ImageInfo[],
+		totalImages: number,
+		allImages: ImageInfo[],
+		layout: GalleryLayoutName
+	): void {
+		const containers = displayImages.map((image, i) => {
+			const imgContainer = imagesEl.createDiv('journal-image-container');
+			this.createLazyMedia(image, imgContainer, allImages, i);
+			return imgContainer;
+		});
+
+		if (totalImages > displayImages.length && containers.length > 0) {
+			this.addMoreOverlay(containers[containers.length - 1], totalImages - displayImages.length);
+		}
+
+		GalleryLayoutEngine.apply(imagesEl, containers, layout);
+	}
+
+	/**
+	 * 在最后一张显示的图片上显示 "+N" 遮罩
+	 */
+	private static addMoreOverlay(imgContainer: HTMLElement, remaining: number): void {
+		const moreEl = imgContainer.createDiv('journal-image-more');
+		moreEl.textContent = `+${remaining}`;
+		moreEl.style.cssText = `
+			position: absolute !important;
+			top: 0 !important;
+			left: 0 !important;
+			right: 0 !important;
+			bottom: 0 !important;
+			display: flex !important;
+			align-items: center !important;
+			justify-content: center !important;
+			background: rgba(0, 0, 0, 0.6) !important;
+			color: white !important;
+			font-size: 24px !important;
+			font-weight: 600 !important;
+			pointer-events: none !important;
+			z-index: 10 !important;
+			border-radius: 8px !important;
+		`;
+	}
+
 	/**
 	 * 构建简单布局（1-3张图片）
 	 */
@@ -178,7 +316,7 @@ export class ImageLayoutBuilder {
 				}
 			}
 
-			this.createLazyImage(image, imgContainer, allImages, i);
+			this.createLazyMedia(image, imgContainer, allImages, i);
 		}
 	}
 }
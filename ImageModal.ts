@@ -1,20 +1,62 @@
-import { App } from 'obsidian';
-import { ImageInfo } from './utils';
+import { App, Notice } from 'obsidian';
+import { ImageInfo, formatTime } from './utils';
+import { PdfRenderer } from './PdfRenderer';
+import { ThumbnailCache } from './ThumbnailCache';
+import { ExifReader } from './ExifReader';
+import { ImageActions } from './ImageActions';
+import { IMAGE_VIEWER, THUMBNAIL } from './constants';
 import { logger } from './logger';
+import { t, formatShortDate } from './i18n';
+import { ImageCaption } from './ImageCaption';
+
+/**
+ * 当前图片的缩放和平移状态（平移单位为屏幕像素）
+ */
+interface ZoomState {
+	scale: number;
+	x: number;
+	y: number;
+}
+
+/**
+ * 进行中的手势
+ */
+interface GestureState {
+	startX: number; // 单指起点
+	startY: number;
+	startPanX: number; // 单指开始时的平移
+	startPanY: number;
+	startScale: number; // 双指开始时的缩放
+	startDistance: number; // 双指开始时的距离
+	moved: boolean; // 移动超过点击范围，或使用过双指
+}
 
 /**
  * 图片全屏查看器
- * 支持全屏查看和图片轮播
+ * 支持全屏查看和图片轮播，视频和音频直接播放，PDF 逐页显示
+ * 图片支持滚轮/双指缩放、放大后拖动、左右滑动切换和双击缩放，底部显示所有附件的缩略图条
+ * 信息面板显示文件信息、EXIF 和所在笔记，并提供定位、复制链接、设为封面和删除等操作
  */
 export class ImageModal {
 	private app: App;
+	private thumbnailCache: ThumbnailCache | null;
 	private overlay: HTMLElement | null = null;
 	private currentIndex: number = 0;
 	private images: ImageInfo[] = [];
 	private isVisible: boolean = false;
+	private renderVersion: number = 0; // 切换附件时递增，用于停止上一个 PDF 的渲染
+	private zoom: ZoomState = { scale: 1, x: 0, y: 0 };
+	private pointers: Map<number, { x: number; y: number }> = new Map();
+	private gesture: GestureState | null = null;
+	private lastTap: { time: number; x: number; y: number } | null = null;
+	private infoVisible: boolean = false; // 信息面板是否展开（切换附件、重新打开时保留）
 
-	constructor(app: App) {
+	/**
+	 * @param thumbnailCache 底部缩略图条使用的缩略图缓存（未设置时加载原图）
+	 */
+	constructor(app: App, thumbnailCache: ThumbnailCache | null = null) {
 		this.app = app;
+		this.thumbnailCache = thumbnailCache;
 	}
 
 	/**
@@ -59,11 +101,24 @@ export class ImageModal {
 		// 关闭按钮
 		const closeBtn = this.overlay.createEl('button', {
 			cls: 'journal-image-modal-close',
-			attr: { 'aria-label': '关闭' }
+			attr: { 'aria-label': t('image.close') }
 		});
 		closeBtn.innerHTML = '×';
 		closeBtn.addEventListener('click', () => this.hide());
 
+		// 信息面板按钮
+		const infoBtn = this.overlay.createEl('button', {
+			cls: 'journal-image-modal-info-toggle',
+			attr: { 'aria-label': t('image.info') }
+		});
+		infoBtn.textContent = 'i';
+		infoBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.toggleInfoPanel();
+		});
+		this.overlay.createDiv('journal-image-modal-panel');
+		this.overlay.toggleClass('has-info-panel', this.infoVisible);
+
 		// 图片容器
 		const imageContainer = this.overlay.createDiv('journal-image-modal-container');
 
@@ -71,7 +126,7 @@ export class ImageModal {
 		if (this.images.length > 1) {
 			const prevBtn = imageContainer.createEl('button', {
 				cls: 'journal-image-modal-nav journal-image-modal-prev',
-				attr: { 'aria-label': '上一张' }
+				attr: { 'aria-label': t('image.prev') }
 			});
 			prevBtn.innerHTML = '‹';
 			prevBtn.addEventListener('click', (e) => {
@@ -80,24 +135,18 @@ export class ImageModal {
 			});
 		}
 
-		// 图片显示区域
+		// 附件显示区域（内容随当前附件类型变化）
 		const imageWrapper = imageContainer.createDiv('journal-image-modal-wrapper');
-		const img = imageWrapper.createEl('img', {
-			cls: 'journal-image-modal-image'
-		});
-		img.alt = this.images[this.currentIndex]?.name || '';
+		imageWrapper.createDiv('journal-image-modal-media');
 
-		// 图片信息（可选）
-		if (this.images.length > 1) {
-			const imageInfo = imageWrapper.createDiv('journal-image-modal-info');
-			imageInfo.textContent = `${this.currentIndex + 1} / ${this.images.length}`;
-		}
+		// 图片说明和序号（内容在 renderCurrentImage 中更新）
+		imageWrapper.createDiv('journal-image-modal-info');
 
 		// 右侧导航按钮（多张图片时显示）
 		if (this.images.length > 1) {
 			const nextBtn = imageContainer.createEl('button', {
 				cls: 'journal-image-modal-nav journal-image-modal-next',
-				attr: { 'aria-label': '下一张' }
+				attr: { 'aria-label': t('image.next') }
 			});
 			nextBtn.innerHTML = '›';
 			nextBtn.addEventListener('click', (e) => {
@@ -105,39 +154,556 @@ export class ImageModal {
 				this.showNext();
 			});
 		}
+
+		// 底部缩略图条（多个附件时显示）
+		if (this.images.length > 1) {
+			this.overlay.addClass('has-filmstrip');
+			const filmstrip = this.overlay.createDiv('journal-image-modal-filmstrip');
+			this.images.forEach((media, index) => {
+				const item = filmstrip.createDiv({
+					cls: 'journal-image-modal-filmstrip-item',
+					attr: { role: 'button', 'aria-label': media.altText || media.name }
+				});
+				this.renderFilmstripThumbnail(item, media);
+				item.addEventListener('click', (e) => {
+					e.stopPropagation();
+					this.showAt(index);
+				});
+			});
+		}
+	}
+
+	/**
+	 * 缩略图条中的一项：图片和 PDF 显示缩略图，视频和音频显示图标
+	 */
+	private renderFilmstripThumbnail(item: HTMLElement, media: ImageInfo): void {
+		if (media.type === 'image') {
+			const img = item.createEl('img');
+			img.alt = media.altText || media.name;
+			img.draggable = false;
+			if (media.isRemote) {
+				img.referrerPolicy = 'no-referrer';
+			}
+			if (this.thumbnailCache) {
+				this.thumbnailCache.load(img, media, THUMBNAIL.PANEL_WIDTH);
+			} else {
+				img.src = media.url;
+			}
+			return;
+		}
+
+		if (media.type === 'pdf') {
+			item.createSpan({ cls: 'journal-image-modal-filmstrip-icon', text: 'PDF' });
+			PdfRenderer.getThumbnail(media.url).then((thumbnail) => {
+				if (!thumbnail) return;
+				item.empty();
+				item.createEl('img', { attr: { src: thumbnail, alt: media.altText || media.name, draggable: 'false' } });
+			});
+			return;
+		}
+
+		item.createSpan({ cls: 'journal-image-modal-filmstrip-icon', text: media.type === 'video' ? '▶' : '♪' });
 	}
 
 	/**
-	 * 渲染当前图片
+	 * 渲染当前附件
 	 */
 	private renderCurrentImage(): void {
 		if (!this.overlay) return;
 
-		const img = this.overlay.querySelector('.journal-image-modal-image') as HTMLImageElement;
+		const mediaEl = this.overlay.querySelector('.journal-image-modal-media') as HTMLElement;
 		const info = this.overlay.querySelector('.journal-image-modal-info') as HTMLElement;
 
-		if (!img) return;
+		if (!mediaEl) return;
 
 		const currentImage = this.images[this.currentIndex];
 		if (!currentImage) return;
 
+		this.stopMedia();
+		mediaEl.empty();
+		this.renderVersion++;
+		this.zoom = { scale: 1, x: 0, y: 0 };
+		this.pointers.clear();
+		this.gesture = null;
+		this.lastTap = null;
+
+		switch (currentImage.type) {
+			case 'video':
+				this.renderVideo(mediaEl, currentImage);
+				break;
+			case 'audio':
+				this.renderAudio(mediaEl, currentImage);
+				break;
+			case 'pdf':
+				this.renderPdf(mediaEl, currentImage);
+				break;
+			default:
+				this.renderImage(mediaEl, currentImage);
+		}
+
+		// 更新图片说明和序号
+		if (info) {
+			this.updateInfo(info, currentImage);
+		}
+
+		// 更新导航按钮状态
+		this.updateNavButtons();
+		this.updateFilmstrip();
+		this.renderInfoPanel();
+	}
+
+	/**
+	 * 底部显示当前附件的说明和序号，都没有时隐藏
+	 */
+	private updateInfo(info: HTMLElement, media: ImageInfo): void {
+		info.empty();
+		const caption = ImageCaption.fromImage(media);
+		if (caption) {
+			info.createSpan({ cls: 'journal-image-modal-caption', text: caption, attr: { title: caption } });
+		}
+		if (this.images.length > 1) {
+			info.createSpan({ cls: 'journal-image-modal-counter', text: `${this.currentIndex + 1} / ${this.images.length}` });
+		}
+		info.toggleClass('is-hidden', !info.hasChildNodes());
+	}
+
+	private toggleInfoPanel(): void {
+		if (!this.overlay) return;
+		this.infoVisible = !this.infoVisible;
+		this.overlay.toggleClass('has-info-panel', this.infoVisible);
+		this.renderInfoPanel();
+	}
+
+	/**
+	 * 渲染当前附件的信息面板（面板收起时只清空）
+	 */
+	private renderInfoPanel(): void {
+		if (!this.overlay) return;
+
+		const panel = this.overlay.querySelector('.journal-image-modal-panel') as HTMLElement;
+		const media = this.images[this.currentIndex];
+		if (!panel || !media) return;
+
+		panel.empty();
+		if (!this.infoVisible) return;
+
+		const version = this.renderVersion;
+		const file = ImageActions.getFile(this.app, media);
+		panel.createDiv({ cls: 'journal-image-modal-panel-title', text: t('image.info') });
+
+		const addRow = (list: HTMLElement, label: string, value: string): HTMLElement => {
+			list.createEl('dt', { text: label });
+			return list.createEl('dd', { text: value });
+		};
+
+		// 文件信息
+		const fileList = panel.createEl('dl', { cls: 'journal-image-modal-panel-list' });
+		addRow(fileList, t('image.infoName'), file ? file.name : media.name);
+		const caption = ImageCaption.fromImage(media);
+		if (caption) {
+			addRow(fileList, t('image.infoCaption'), caption);
+		}
+		if (file) {
+			addRow(fileList, t('image.infoSize'), this.formatFileSize(file.stat.size));
+		}
+		const mediaEl = this.overlay.querySelector('.journal-image-modal-media img, .journal-image-modal-media video');
+		if (mediaEl instanceof HTMLImageElement || mediaEl instanceof HTMLVideoElement) {
+			// 尺寸在图片或视频加载后才能读取
+			const dimensionsEl = addRow(fileList, t('image.infoDimensions'), '—');
+			const updateDimensions = () => {
+				const width = mediaEl instanceof HTMLVideoElement ? mediaEl.videoWidth : mediaEl.naturalWidth;
+				const height = mediaEl instanceof HTMLVideoElement ? mediaEl.videoHeight : mediaEl.naturalHeight;
+				if (width && height) {
+					dimensionsEl.textContent = `${width} × ${height}`;
+				}
+			};
+			updateDimensions();
+			mediaEl.addEventListener(mediaEl instanceof HTMLVideoElement ? 'loadedmetadata' : 'load', updateDimensions, { once: true });
+		}
+
+		// EXIF（异步读取，只有 JPEG 才有）
+		const exifList = panel.createEl('dl', { cls: 'journal-image-modal-panel-list' });
+		if (file && media.type === 'image') {
+			ExifReader.read(this.app, file)
+				.then((exif) => {
+					if (!exif || version !== this.renderVersion) return;
+					if (exif.takenAt) {
+						addRow(exifList, t('image.infoTaken'), `${formatShortDate(exif.takenAt)} ${formatTime(exif.takenAt)}`);
+					}
+					if (exif.latitude !== undefined && exif.longitude !== undefined) {
+						const locationEl = addRow(exifList, t('image.infoLocation'), '');
+						locationEl.createEl('a', {
+							text: `${exif.latitude.toFixed(5)}, ${exif.longitude.toFixed(5)}`,
+							href: `https://www.openstreetmap.org/?mlat=${exif.latitude}&mlon=${exif.longitude}#map=16/${exif.latitude}/${exif.longitude}`,
+						});
+					}
+				})
+				.catch((error) => logger.error(`读取 EXIF 失败 ${file.path}:`, error));
+		}
+
+		// 所在笔记
+		const sourceNote = ImageActions.getSourceNote(this.app, media);
+		if (sourceNote && media.source) {
+			const sourceList = panel.createEl('dl', { cls: 'journal-image-modal-panel-list' });
+			addRow(sourceList, t('image.infoSource'), `${sourceNote.basename} · ${t('image.infoLine', { line: media.source.line + 1 })}`);
+		}
+
+		this.renderActions(panel, media, file !== null);
+	}
+
+	/**
+	 * 信息面板中的操作按钮，结果显示在按钮下方（查看器会遮住 Notice）
+	 */
+	private renderActions(panel: HTMLElement, media: ImageInfo, isLocal: boolean): void {
+		const actionsEl = panel.createDiv('journal-image-modal-panel-actions');
+		const statusEl = panel.createDiv('journal-image-modal-panel-status');
+
+		const addAction = (label: string, onClick: (button: HTMLButtonElement) => Promise<void> | void): HTMLButtonElement => {
+			const button = actionsEl.createEl('button', { text: label });
+			button.addEventListener('click', async (e) => {
+				e.stopPropagation();
+				try {
+					await onClick(button);
+				} catch (error) {
+					logger.error(`附件操作失败 ${media.path}:`, error);
+					statusEl.textContent = t('image.actionFailed', { error: error instanceof Error ? error.message : String(error) });
+				}
+			});
+			return button;
+		};
+
+		if (media.source) {
+			addAction(t('image.actionOpenNote'), async () => {
+				await ImageActions.openSource(this.app, media);
+				this.hide();
+			});
+		}
+
+		if (isLocal) {
+			addAction(t('image.actionReveal'), () => {
+				if (ImageActions.revealInExplorer(this.app, media)) {
+					this.hide();
+				} else {
+					statusEl.textContent = t('image.revealUnavailable');
+				}
+			});
+		}
+
+		addAction(t('image.actionCopyLink'), async () => {
+			await navigator.clipboard.writeText(ImageActions.getLink(this.app, media));
+			statusEl.textContent = t('image.linkCopied');
+		});
+
+		if (media.source && media.type === 'image') {
+			addAction(t('image.actionSetCover'), async () => {
+				await ImageActions.setCover(this.app, media);
+				statusEl.textContent = t('image.coverSet');
+			});
+		}
+
+		if (media.source) {
+			const deleteBtn = addAction(t('image.actionDelete'), async (button) => {
+				// 第一次点击只进入确认状态
+				if (!button.hasClass('is-confirming')) {
+					button.addClass('is-confirming');
+					button.textContent = t('image.deleteConfirm');
+					return;
+				}
+				const fileDeleted = await ImageActions.delete(this.app, media);
+				this.removeCurrent(fileDeleted ? t('image.deleted') : t('image.embedRemoved'));
+			});
+			deleteBtn.addClass('mod-warning');
+		}
+	}
+
+	/**
+	 * 从查看器中移除当前附件（已删除），没有其他附件时关闭查看器
+	 */
+	private removeCurrent(message: string): void {
+		const images = this.images.filter((_, index) => index !== this.currentIndex);
+		const index = Math.min(this.currentIndex, images.length - 1);
+		this.hide();
+
+		if (images.length === 0) {
+			new Notice(message);
+			return;
+		}
+
+		this.show(images, index);
+		const statusEl = this.overlay?.querySelector('.journal-image-modal-panel-status');
+		if (statusEl) {
+			statusEl.textContent = message;
+		}
+	}
+
+	private formatFileSize(bytes: number): string {
+		if (bytes < 1024) return `${bytes} B`;
+		if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+		return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+	}
+
+	private renderImage(mediaEl: HTMLElement, image: ImageInfo): void {
+		const img = mediaEl.createEl('img', { cls: 'journal-image-modal-image' });
+		if (image.isRemote) {
+			img.referrerPolicy = 'no-referrer';
+		}
+
 		// 显示加载状态
 		img.style.opacity = '0.5';
-		img.src = currentImage.url;
-		img.alt = currentImage.altText || currentImage.name;
+		img.src = image.url;
+		img.alt = image.altText || image.name;
 
 		// 图片加载完成后恢复透明度
 		img.onload = () => {
 			img.style.opacity = '1';
 		};
 
-		// 更新图片信息
-		if (info && this.images.length > 1) {
-			info.textContent = `${this.currentIndex + 1} / ${this.images.length}`;
+		this.attachGestures(img);
+	}
+
+	/**
+	 * 图片手势
+	 * 滚轮或双指缩放；放大后单指拖动；未放大时左右滑动切换图片；双击在适应屏幕和原始大小之间切换
+	 */
+	private attachGestures(img: HTMLImageElement): void {
+		img.draggable = false;
+
+		img.addEventListener('wheel', (e) => {
+			e.preventDefault();
+			const factor = Math.exp(-e.deltaY * IMAGE_VIEWER.WHEEL_ZOOM_SPEED);
+			this.zoomAt(img, this.zoom.scale * factor, e.clientX, e.clientY, false);
+		}, { passive: false });
+
+		img.addEventListener('pointerdown', (e) => {
+			if (e.pointerType === 'mouse' && e.button !== 0) return;
+			img.setPointerCapture(e.pointerId);
+			this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+			this.startGesture();
+		});
+
+		img.addEventListener('pointermove', (e) => {
+			if (!this.pointers.has(e.pointerId) || !this.gesture) return;
+			this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+			const gesture = this.gesture;
+			const points = Array.from(this.pointers.values());
+
+			// 双指：按两指距离的变化缩放，以两指中点为中心
+			if (points.length >= 2) {
+				const [a, b] = points;
+				const distance = Math.hypot(a.x - b.x, a.y - b.y);
+				if (gesture.startDistance > 0) {
+					this.zoomAt(img, gesture.startScale * distance / gesture.startDistance, (a.x + b.x) / 2, (a.y + b.y) / 2, false);
+				}
+				return;
+			}
+
+			const dx = e.clientX - gesture.startX;
+			const dy = e.clientY - gesture.startY;
+			if (Math.hypot(dx, dy) > IMAGE_VIEWER.TAP_SLOP) {
+				gesture.moved = true;
+			}
+			if (!gesture.moved) return;
+
+			if (this.zoom.scale > 1) {
+				// 放大时拖动查看图片的其他部分
+				this.zoom.x = gesture.startPanX + dx;
+				this.zoom.y = gesture.startPanY + dy;
+				this.clampPan(img);
+			} else if (this.images.length > 1) {
+				// 未放大时图片跟随手指左右移动
+				this.zoom.x = dx;
+			}
+			this.applyTransform(img, false);
+		});
+
+		const endPointer = (e: PointerEvent) => {
+			if (!this.pointers.has(e.pointerId) || !this.gesture) return;
+			this.pointers.delete(e.pointerId);
+
+			// 双指中抬起一指：剩下的手指继续拖动
+			if (this.pointers.size > 0) {
+				this.startGesture();
+				return;
+			}
+
+			const gesture = this.gesture;
+			this.gesture = null;
+			const dx = e.clientX - gesture.startX;
+			const dy = e.clientY - gesture.startY;
+
+			if (!gesture.moved) {
+				if (e.type === 'pointerup') {
+					this.handleTap(img, e.clientX, e.clientY);
+				}
+				return;
+			}
+
+			if (this.zoom.scale > 1) return;
+
+			// 未放大：滑动距离足够时切换，否则回弹
+			if (gesture.startScale <= 1 && Math.abs(dx) > IMAGE_VIEWER.SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+				if (dx > 0 && this.currentIndex > 0) {
+					this.showPrevious();
+					return;
+				}
+				if (dx < 0 && this.currentIndex < this.images.length - 1) {
+					this.showNext();
+					return;
+				}
+			}
+			this.resetZoom(img);
+		};
+		img.addEventListener('pointerup', endPointer);
+		img.addEventListener('pointercancel', endPointer);
+	}
+
+	/**
+	 * 按当前按下的手指记录手势起点
+	 */
+	private startGesture(): void {
+		const points = Array.from(this.pointers.values());
+		const [a, b] = points;
+		this.gesture = {
+			startX: a.x,
+			startY: a.y,
+			startPanX: this.zoom.x,
+			startPanY: this.zoom.y,
+			startScale: this.zoom.scale,
+			startDistance: b ? Math.hypot(a.x - b.x, a.y - b.y) : 0,
+			// 从双指回到单指时不再视为点击
+			moved: points.length > 1 || (this.gesture?.moved ?? false),
+		};
+	}
+
+	/**
+	 * 点击：两次点击足够接近时切换缩放
+	 */
+	private handleTap(img: HTMLImageElement, clientX: number, clientY: number): void {
+		const now = Date.now();
+		const last = this.lastTap;
+		if (last && now - last.time <= IMAGE_VIEWER.DOUBLE_TAP_DELAY
+			&& Math.hypot(clientX - last.x, clientY - last.y) <= IMAGE_VIEWER.TAP_SLOP * 3) {
+			this.lastTap = null;
+			this.toggleZoom(img, clientX, clientY);
+		} else {
+			this.lastTap = { time: now, x: clientX, y: clientY };
 		}
+	}
 
-		// 更新导航按钮状态
-		this.updateNavButtons();
+	/**
+	 * 在适应屏幕和原始大小（100%）之间切换
+	 * 原始大小不超过屏幕时放大到固定倍数
+	 */
+	private toggleZoom(img: HTMLImageElement, clientX: number, clientY: number): void {
+		if (this.zoom.scale > 1) {
+			this.resetZoom(img);
+			return;
+		}
+		const actualScale = img.clientWidth > 0 ? img.naturalWidth / img.clientWidth : 1;
+		const targetScale = actualScale > 1.01 ? actualScale : IMAGE_VIEWER.DOUBLE_TAP_SCALE;
+		this.zoomAt(img, targetScale, clientX, clientY, true);
+	}
+
+	/**
+	 * 缩放到指定倍数，保持 (clientX, clientY) 处的图片内容不动
+	 */
+	private zoomAt(img: HTMLImageElement, scale: number, clientX: number, clientY: number, animate: boolean): void {
+		const newScale = Math.max(1, Math.min(scale, IMAGE_VIEWER.MAX_SCALE));
+		if (newScale === 1) {
+			this.resetZoom(img, animate);
+			return;
+		}
+
+		// 以图片中心为变换原点，外接矩形的中心 = 未变换时的中心 + 平移
+		const rect = img.getBoundingClientRect();
+		const centerX = rect.left + rect.width / 2 - this.zoom.x;
+		const centerY = rect.top + rect.height / 2 - this.zoom.y;
+		const ratio = newScale / this.zoom.scale;
+		this.zoom.x = (clientX - centerX) - ratio * (clientX - centerX - this.zoom.x);
+		this.zoom.y = (clientY - centerY) - ratio * (clientY - centerY - this.zoom.y);
+		this.zoom.scale = newScale;
+		this.clampPan(img);
+		this.applyTransform(img, animate);
+	}
+
+	private resetZoom(img: HTMLImageElement, animate: boolean = true): void {
+		this.zoom = { scale: 1, x: 0, y: 0 };
+		this.applyTransform(img, animate);
+	}
+
+	/**
+	 * 限制平移范围，放大后的图片边缘不离开屏幕边缘
+	 */
+	private clampPan(img: HTMLImageElement): void {
+		const viewWidth = this.overlay?.clientWidth ?? window.innerWidth;
+		const viewHeight = this.overlay?.clientHeight ?? window.innerHeight;
+		const maxX = Math.max(0, (img.clientWidth * this.zoom.scale - viewWidth) / 2);
+		const maxY = Math.max(0, (img.clientHeight * this.zoom.scale - viewHeight) / 2);
+		this.zoom.x = Math.max(-maxX, Math.min(this.zoom.x, maxX));
+		this.zoom.y = Math.max(-maxY, Math.min(this.zoom.y, maxY));
+	}
+
+	private applyTransform(img: HTMLImageElement, animate: boolean): void {
+		img.style.transition = animate
+			? `opacity 0.3s ease, transform ${IMAGE_VIEWER.ANIMATION_DURATION}ms ease`
+			: 'opacity 0.3s ease';
+		img.style.transform = `translate(${this.zoom.x}px, ${this.zoom.y}px) scale(${this.zoom.scale})`;
+		img.toggleClass('is-zoomed', this.zoom.scale > 1);
+	}
+
+	private renderVideo(mediaEl: HTMLElement, video: ImageInfo): void {
+		const videoEl = mediaEl.createEl('video', { cls: 'journal-image-modal-video' });
+		videoEl.controls = true;
+		videoEl.autoplay = true;
+		videoEl.playsInline = true;
+		videoEl.src = video.url;
+	}
+
+	private renderAudio(mediaEl: HTMLElement, audio: ImageInfo): void {
+		const audioCard = mediaEl.createDiv('journal-image-modal-audio');
+		audioCard.createDiv({ cls: 'journal-image-modal-audio-icon', text: '♪' });
+		audioCard.createDiv({ cls: 'journal-image-modal-audio-name', text: audio.altText || audio.name });
+		const audioEl = audioCard.createEl('audio');
+		audioEl.controls = true;
+		audioEl.autoplay = true;
+		audioEl.src = audio.url;
+	}
+
+	/**
+	 * PDF：逐页渲染到可滚动的容器中，并提供在 Obsidian 中打开的按钮
+	 */
+	private renderPdf(mediaEl: HTMLElement, pdf: ImageInfo): void {
+		const pdfEl = mediaEl.createDiv('journal-image-modal-pdf');
+
+		const headerEl = pdfEl.createDiv('journal-image-modal-pdf-header');
+		headerEl.createSpan({ cls: 'journal-image-modal-pdf-name', text: pdf.altText || pdf.name });
+		const openBtn = headerEl.createEl('button', { text: t('image.openFile') });
+		openBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			if (pdf.isRemote) {
+				window.open(pdf.url);
+			} else {
+				this.app.workspace.openLinkText(pdf.path, '', true);
+			}
+			this.hide();
+		});
+
+		const pagesEl = pdfEl.createDiv('journal-image-modal-pdf-pages');
+		const loadingEl = pagesEl.createDiv({ cls: 'journal-image-modal-pdf-status', text: t('image.pdfLoading') });
+		const version = this.renderVersion;
+		PdfRenderer.renderPages(pdf.url, pagesEl, () => version !== this.renderVersion || !this.isVisible)
+			.then(() => loadingEl.remove())
+			.catch((error) => {
+				logger.error(`渲染 PDF 失败 ${pdf.path}:`, error);
+				loadingEl.textContent = t('image.pdfFailed');
+			});
+	}
+
+	/**
+	 * 停止当前正在播放的视频或音频
+	 */
+	private stopMedia(): void {
+		this.overlay?.querySelectorAll('video, audio').forEach((el) => (el as HTMLMediaElement).pause());
 	}
 
 	/**
@@ -160,6 +726,32 @@ export class ImageModal {
 		}
 	}
 
+	/**
+	 * 高亮缩略图条中的当前附件，并滚动到可见位置
+	 */
+	private updateFilmstrip(): void {
+		if (!this.overlay) return;
+
+		const items = this.overlay.querySelectorAll('.journal-image-modal-filmstrip-item');
+		items.forEach((item, index) => {
+			const isActive = index === this.currentIndex;
+			item.toggleClass('is-active', isActive);
+			if (isActive) {
+				item.scrollIntoView({ block: 'nearest', inline: 'center' });
+			}
+		});
+	}
+
+	/**
+	 * 显示指定索引的附件
+	 */
+	private showAt(index: number): void {
+		if (index !== this.currentIndex && index >= 0 && index < this.images.length) {
+			this.currentIndex = index;
+			this.renderCurrentImage();
+		}
+	}
+
 	/**
 	 * 显示上一张图片
 	 */
@@ -201,6 +793,8 @@ export class ImageModal {
 				this.showPrevious();
 			} else if (e.key === 'ArrowRight' && this.images.length > 1) {
 				this.showNext();
+			} else if (e.key === 'i' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+				this.toggleInfoPanel();
 			}
 		};
 
@@ -222,6 +816,7 @@ export class ImageModal {
 		}
 
 		// 移除模态框
+		this.stopMedia();
 		this.overlay.remove();
 		this.overlay = null;
 
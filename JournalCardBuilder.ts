@@ -1,8 +1,11 @@
 import { App } from 'obsidian';
-import { JournalEntry, formatDate } from './utils';
-import { CONTENT } from './constants';
+import { JournalEntry, ImageInfo, formatDate, formatTime, isVisualMedia, withCoverFirst } from './utils';
+import { CONTENT, GALLERY_LAYOUT } from './constants';
 import { ImageLayoutBuilder } from './ImageLayoutBuilder';
 import { ImageModal } from './ImageModal';
+import { GalleryLayoutName } from './GalleryLayoutEngine';
+import { EntrySearch } from './EntrySearch';
+import { t } from './i18n';
 
 /**
  * 卡片构建器
@@ -14,6 +17,8 @@ export class JournalCardBuilder {
 	private imageModal: ImageModal | null = null;
 	private currentOpenMenu: HTMLElement | null = null; // 当前打开的菜单
 	private currentMenuCloseHandler: ((e: MouseEvent) => void) | null = null; // 当前菜单的关闭处理器
+	public onDateClick: ((date: Date) => void) | null = null; // 点击卡片日期时调用（打开单日详情）
+	public resolveGalleryLayout: ((entry: JournalEntry) => GalleryLayoutName) | null = null; // 卡片图片使用的布局（未设置时使用 classic）
 
 	constructor(app: App, scrollContainer: HTMLElement | null = null, imageModal: ImageModal | null = null) {
 		this.app = app;
@@ -27,37 +32,69 @@ export class JournalCardBuilder {
 
 	/**
 	 * 创建手记卡片
+	 * @param highlightTerms 需要在标题和预览中高亮的搜索词
+	 * @param goalMet 当天是否达成每日目标（null 表示没有设置每日目标，不显示标记）
 	 */
-	async createJournalCard(entry: JournalEntry): Promise<HTMLElement> {
+	async createJournalCard(
+		entry: JournalEntry,
+		highlightTerms: string[] = [],
+		goalMet: boolean | null = null
+	): Promise<HTMLElement> {
 		const card = document.createElement('div');
 		card.addClass('journal-card');
 
-		// 1. 图片（懒加载）- 最先显示
-		if (entry.images.length > 0) {
+		// 1. 图片、视频和 PDF（懒加载）- 最先显示，封面排在最前面
+		const visualMedia = withCoverFirst(entry.images.filter(isVisualMedia), entry.cover);
+		if (visualMedia.length > 0) {
 			const imagesEl = card.createDiv('journal-images');
-			// 最多显示N张：1张左边 + 4张右边2x2网格
-			const displayImages = entry.images.slice(0, CONTENT.MAX_IMAGES_PER_CARD);
-			const totalImages = entry.images.length;
+			const layout = this.resolveGalleryLayout ? this.resolveGalleryLayout(entry) : 'classic';
+			// classic 最多显示 5 张：1张左边 + 4张右边2x2网格；其他布局可以显示更多
+			const maxImages = layout === 'classic' ? CONTENT.MAX_IMAGES_PER_CARD : GALLERY_LAYOUT.MAX_IMAGES_PER_CARD;
+			const displayImages = visualMedia.slice(0, maxImages);
+			const totalImages = visualMedia.length;
 
 			// 使用 ImageLayoutBuilder 构建布局（传入所有图片用于全屏查看器）
-			ImageLayoutBuilder.buildImageLayout(imagesEl, displayImages, totalImages, entry.images);
+			ImageLayoutBuilder.buildImageLayout(imagesEl, displayImages, totalImages, visualMedia, layout);
+		}
+
+		// 音频：直接在卡片中播放
+		const audios = entry.images.filter(media => media.type === 'audio');
+		if (audios.length > 0) {
+			this.buildAudioList(card, audios);
 		}
 
 		// 2. 标题
 		if (entry.title) {
 			const titleEl = card.createEl('h3', { cls: 'journal-title' });
-			titleEl.textContent = entry.title;
+			EntrySearch.highlight(titleEl, entry.title, highlightTerms);
 		}
 
 		// 3. 正文预览
 		const contentEl = card.createDiv('journal-content');
 		const previewEl = contentEl.createDiv('journal-preview');
-		previewEl.textContent = entry.preview;
+		EntrySearch.highlight(
+			previewEl,
+			EntrySearch.getPreviewText(entry, highlightTerms, CONTENT.MAX_PREVIEW_LENGTH),
+			highlightTerms
+		);
 
 		// 4. 日期和菜单按钮容器 - 最后显示
 		const dateContainer = card.createDiv('journal-date-container');
 		const dateEl = dateContainer.createDiv('journal-date');
 		dateEl.textContent = formatDate(entry.date);
+		if (entry.hasTime) {
+			dateEl.createSpan({ cls: 'journal-date-time', text: formatTime(entry.date) });
+		}
+		if (this.onDateClick) {
+			const onDateClick = this.onDateClick;
+			dateEl.addClass('is-clickable');
+			dateEl.setAttribute('title', t('card.openDay'));
+			dateEl.addEventListener('click', (e) => {
+				e.stopPropagation(); // 不打开文件
+				onDateClick(entry.date);
+			});
+		}
+		this.updateGoalIndicator(card, goalMet, dateContainer);
 
 		// 5. 菜单按钮（三个点）- 与日期同一行
 		const menuButton = dateContainer.createDiv('journal-card-menu-button');
@@ -68,7 +105,7 @@ export class JournalCardBuilder {
 				<circle cx="19" cy="12" r="1"></circle>
 			</svg>
 		`;
-		menuButton.setAttribute('aria-label', '更多选项');
+		menuButton.setAttribute('aria-label', t('card.more'));
 
 		// 附加菜单按钮点击事件
 		this.attachMenuHandler(menuButton, entry, card);
@@ -83,6 +120,51 @@ export class JournalCardBuilder {
 		return card;
 	}
 
+	/**
+	 * 更新卡片上的每日目标标记（达成 / 未达成 / 不显示）
+	 * @param dateContainer 日期容器（省略时从卡片中查找）
+	 */
+	updateGoalIndicator(card: HTMLElement, goalMet: boolean | null, dateContainer?: HTMLElement): void {
+		const container = dateContainer || card.querySelector('.journal-date-container') as HTMLElement | null;
+		if (!container) return;
+
+		let indicator = container.querySelector('.journal-card-goal') as HTMLElement | null;
+		if (goalMet === null) {
+			indicator?.remove();
+			return;
+		}
+
+		if (!indicator) {
+			indicator = document.createElement('div');
+			indicator.addClass('journal-card-goal');
+			// 放在日期后面、菜单按钮前面
+			const dateEl = container.querySelector('.journal-date');
+			container.insertBefore(indicator, dateEl ? dateEl.nextSibling : container.firstChild);
+		}
+
+		indicator.toggleClass('is-met', goalMet);
+		indicator.textContent = goalMet ? t('card.goalMet') : t('card.goalMissed');
+		indicator.setAttribute('title', goalMet ? t('card.goalMetTitle') : t('card.goalMissedTitle'));
+	}
+
+	/**
+	 * 构建音频列表：文件名 + 播放器（不预加载，点击播放时才加载）
+	 */
+	private buildAudioList(card: HTMLElement, audios: ImageInfo[]): void {
+		const listEl = card.createDiv('journal-audio-list');
+		// 操作播放器时不打开文件
+		listEl.addEventListener('click', (e) => e.stopPropagation());
+
+		for (const audio of audios) {
+			const item = listEl.createDiv('journal-audio-item');
+			item.createDiv({ cls: 'journal-audio-name', text: audio.altText || audio.name });
+			const player = item.createEl('audio', { cls: 'journal-audio-player' });
+			player.controls = true;
+			player.preload = 'none';
+			player.src = audio.url;
+		}
+	}
+
 	/**
 	 * 附加点击事件处理器
 	 */
@@ -148,7 +230,7 @@ export class JournalCardBuilder {
 					<polyline points="3 6 5 6 21 6"></polyline>
 					<path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
 				</svg>
-				<span>删除</span>
+				<span>${t('card.delete')}</span>
 			`;
 			deleteItem.addEventListener('click', async (e) => {
 				e.stopPropagation();
@@ -197,7 +279,7 @@ export class JournalCardBuilder {
 	 */
 	private async deleteEntry(entry: JournalEntry, card: HTMLElement): Promise<void> {
 		// 确认删除
-		const confirmed = confirm(`确定要删除 "${entry.title || entry.file.basename}" 吗？\n\n此操作无法撤销。`);
+		const confirmed = confirm(t('card.deleteConfirm', { name: entry.title || entry.file.basename }));
 		if (!confirmed) {
 			return;
 		}
@@ -210,7 +292,7 @@ export class JournalCardBuilder {
 			card.remove();
 		} catch (error) {
 			console.error('删除文件失败:', error);
-			alert('删除文件失败，请重试。');
+			alert(t('card.deleteFailed'));
 		}
 	}
 
@@ -11,28 +11,57 @@ import {
 import {
 	JournalEntry,
 	ImageInfo,
-	extractDate,
 	extractImagesFromContent,
 	generatePreview,
 	countWords,
 	formatDate,
-	groupByMonth,
+	formatTime,
 	extractTitle,
-	parseDate,
+	formatDateKey,
+	extractTags,
+	extractProperties,
+	getMediaType,
+	isRemoteUrl,
+	createRemoteMedia,
+	resolveCover,
 } from './utils';
-import { PAGINATION, CONTENT, IMAGE_LOADING, UI_DELAYS, FILE_FILTER } from './constants';
+import { PAGINATION, CONTENT, IMAGE_LOADING, UI_DELAYS, FILE_FILTER, DATE_FIELDS, COVER_FIELD } from './constants';
 import { logger } from './logger';
 import { ImageLayoutBuilder } from './ImageLayoutBuilder';
 import { JournalCardBuilder } from './JournalCardBuilder';
-import { StatisticsCalculator } from './StatisticsCalculator';
+import { StatisticsCalculator, StreakOptions, DEFAULT_STREAK_OPTIONS } from './StatisticsCalculator';
 import { ImageModal } from './ImageModal';
+import { CalendarViewBuilder } from './CalendarViewBuilder';
+import { HeatmapBuilder, HeatmapMetric } from './HeatmapBuilder';
+import { OnThisDayManager, OnThisDayOptions } from './OnThisDayManager';
+import { OnThisDayRenderer } from './OnThisDayRenderer';
+import { EntrySorter, SortMode, SORT_MODE_OPTIONS, DEFAULT_SORT_MODE } from './EntrySorter';
+import { EntrySearch } from './EntrySearch';
+import { EntryFilter, EntryFilterState } from './EntryFilter';
+import { FilterBarBuilder } from './FilterBarBuilder';
+import { DateRangeFilter, DateRangeState } from './DateRangeFilter';
+import { DateRangePickerBuilder } from './DateRangePickerBuilder';
+import { DateResolver, DateStrategy, DateResolution } from './DateResolver';
+import { StatisticsDashboardModal } from './StatisticsDashboardModal';
+import { DayDetailModal } from './DayDetailModal';
+import { DateDiagnosticsModal } from './DateDiagnosticsModal';
+import { DateNormalizeModal } from './DateNormalizeModal';
+import { GoalTracker, WritingGoals, DEFAULT_WRITING_GOALS } from './GoalTracker';
+import { GoalRingBuilder } from './GoalRingBuilder';
+import { t, formatMonth, formatShortDate } from './i18n';
+import { ThumbnailCache } from './ThumbnailCache';
+import { GalleryLayoutEngine } from './GalleryLayoutEngine';
 
 export const JOURNAL_VIEW_TYPE = 'journal-view';
 
+// 视图模式：卡片时间线 / 月历网格
+type JournalViewMode = 'timeline' | 'calendar';
+
 export class JournalView extends ItemView {
 	private entries: JournalEntry[] = [];
+	private filteredEntries: JournalEntry[] = []; // 经过日期范围、搜索和筛选过滤的条目（时间线、日历和统计信息使用），与 entries 顺序一致
 	private isLoading: boolean = false;
-	private renderedEntries: Set<number> = new Set(); // 已渲染的条目索引
+	private renderedEntries: Set<string> = new Set(); // 已渲染的条目路径（插入/删除条目后索引会变化，因此记录路径）
 	private itemsPerPage: number = PAGINATION.ITEMS_PER_PAGE;
 	private currentPage: number = 0;
 	private scrollContainer: HTMLElement | null = null;
@@ -45,6 +74,22 @@ export class JournalView extends ItemView {
 	private stateRestored: boolean = false; // 标记状态是否已恢复
 	private plugin: Plugin | null = null; // 插件实例
 	private isRefreshing: boolean = false; // 是否正在刷新（防止并发刷新）
+	private viewMode: JournalViewMode = 'timeline'; // 当前视图模式
+	private calendarMonth: Date = new Date(); // 日历模式当前显示的月份
+	private calendarBuilder: CalendarViewBuilder; // 日历视图构建器
+	private heatmapYear: number = new Date().getFullYear(); // 热力图显示的年份
+	private heatmapMetric: HeatmapMetric = 'entries'; // 热力图着色依据
+	private onThisDayRenderer: OnThisDayRenderer; // "那年今日"面板渲染器
+	private sortMode: SortMode = DEFAULT_SORT_MODE; // 当前排序方式
+	private searchQuery: string = ''; // 搜索框中的原始文本
+	private searchTerms: string[] = []; // 解析后的搜索词（小写）
+	private searchVersion: number = 0; // 搜索版本号，用于丢弃过期的异步搜索结果
+	private searchDebounceTimer: number | null = null; // 搜索输入防抖定时器
+	private readonly SEARCH_DEBOUNCE_DELAY = 300; // 搜索防抖延迟时间（毫秒）
+	private filterState: EntryFilterState = EntryFilter.createEmpty(); // 标签/属性筛选条件
+	private dateRange: DateRangeState = DateRangeFilter.createAll(); // 日期范围
+	private dailyGoalStatus: Map<string, boolean> | null = null; // 每天是否达成每日目标（条目变化后失效，按需重新计算）
+	private wordCountCache: Map<string, { mtime: number; wordCount: number }> = new Map(); // 文件路径 -> 按完整正文计算的字数（文件修改后失效）
 	
 	// 实时更新相关属性
 	private vaultEventRefs: EventRef[] = []; // Vault 事件监听器引用
@@ -71,11 +116,32 @@ export class JournalView extends ItemView {
 
 		logger.debug('构造函数调用', { contentEl: this.contentEl, containerEl: this.containerEl });
 
+		// 卡片和面板中的图片使用插件的缩略图缓存
+		const thumbnailCache: ThumbnailCache | null = this.plugin ? (this.plugin as any).thumbnailCache ?? null : null;
+		if (thumbnailCache) {
+			ImageLayoutBuilder.setThumbnailCache(thumbnailCache);
+		}
+
 		// 初始化图片查看器
-		this.imageModal = new ImageModal(app);
+		this.imageModal = new ImageModal(app, thumbnailCache);
 
 		// 初始化卡片构建器
 		this.cardBuilder = new JournalCardBuilder(app, null, this.imageModal);
+		this.cardBuilder.onDateClick = (date) => this.openDayDetail(date);
+		this.cardBuilder.resolveGalleryLayout = (entry) =>
+			GalleryLayoutEngine.resolveForFile(this.app, this.plugin ? (this.plugin as any).settings : null, entry.file);
+
+		// 初始化日历视图构建器
+		this.calendarBuilder = new CalendarViewBuilder(app, thumbnailCache);
+
+		// 初始化"那年今日"面板渲染器
+		this.onThisDayRenderer = new OnThisDayRenderer(app, thumbnailCache);
+
+		// 使用设置中的默认排序方式（视图状态恢复时可能被覆盖）
+		const defaultSortMode = this.plugin ? (this.plugin as any).settings?.defaultSortMode : undefined;
+		if (EntrySorter.isSortMode(defaultSortMode)) {
+			this.sortMode = defaultSortMode;
+		}
 	}
 
 	getViewType(): string {
@@ -83,7 +149,7 @@ export class JournalView extends ItemView {
 	}
 
 	getDisplayText(): string {
-		return '手记视图';
+		return t('view.displayName');
 	}
 
 	getIcon(): string {
@@ -97,6 +163,10 @@ export class JournalView extends ItemView {
 		const state = {
 			targetFolderPath: this.targetFolderPath,
 			hasLoaded: this.entries.length > 0, // 标记是否已经加载过
+			viewMode: this.viewMode,
+			sortMode: this.sortMode,
+			filter: this.filterState,
+			dateRange: this.dateRange,
 		};
 		logger.debug('getState 被调用，返回状态', {
 			state: state,
@@ -126,6 +196,20 @@ export class JournalView extends ItemView {
 
 		this.stateRestored = true;
 
+		// 恢复视图模式（与是否加载过无关）
+		if (state && (state.viewMode === 'timeline' || state.viewMode === 'calendar')) {
+			this.viewMode = state.viewMode;
+		}
+		if (state && EntrySorter.isSortMode(state.sortMode)) {
+			this.sortMode = state.sortMode;
+		}
+		if (state && EntryFilter.isFilterState(state.filter)) {
+			this.filterState = state.filter;
+		}
+		if (state && DateRangeFilter.isDateRangeState(state.dateRange)) {
+			this.dateRange = state.dateRange;
+		}
+
 		// 确保 contentEl 存在
 		if (!this.contentEl && this.containerEl) {
 			this.contentEl = this.containerEl.children[1] as HTMLElement;
@@ -331,7 +415,7 @@ export class JournalView extends ItemView {
 		iconContainer.appendChild(iconSvg);
 
 		const titleEl = cardEl.createEl('h2', { cls: 'journal-welcome-title' });
-		titleEl.textContent = '手记视图';
+		titleEl.textContent = t('view.displayName');
 		titleEl.style.cssText = `
 			font-size: 28px;
 			font-weight: 600;
@@ -341,7 +425,7 @@ export class JournalView extends ItemView {
 		`;
 
 		const descEl = cardEl.createEl('p', { cls: 'journal-welcome-desc' });
-		descEl.textContent = '点击下方按钮开始扫描和加载手记条目';
+		descEl.textContent = t('view.welcomeDesc');
 		descEl.style.cssText = `
 			font-size: 15px;
 			color: var(--text-muted);
@@ -351,8 +435,8 @@ export class JournalView extends ItemView {
 
 		// 创建开始扫描按钮 - 应用最佳实践
 		const buttonEl = cardEl.createEl('button', { cls: 'journal-start-button' });
-		buttonEl.textContent = '开始扫描';
-		buttonEl.setAttribute('aria-label', '开始扫描手记条目');
+		buttonEl.textContent = t('view.startScan');
+		buttonEl.setAttribute('aria-label', t('view.startScanLabel'));
 		buttonEl.style.cssText = `
 			padding: 14px 32px;
 			font-size: 16px;
@@ -408,7 +492,7 @@ export class JournalView extends ItemView {
 			buttonEl.disabled = true;
 			buttonEl.style.opacity = '0.7';
 			buttonEl.style.cursor = 'not-allowed';
-			buttonEl.textContent = '扫描中...';
+			buttonEl.textContent = t('view.scanning');
 
 			// 显示优雅的加载状态
 			this.contentEl.empty();
@@ -465,7 +549,7 @@ export class JournalView extends ItemView {
 		}
 
 		const loadingText = loadingContainer.createEl('p', { cls: 'journal-loading-text' });
-		loadingText.textContent = '正在加载手记视图...';
+		loadingText.textContent = t('view.loadingView');
 		loadingText.style.cssText = `
 			font-size: 16px;
 			color: var(--text-muted);
@@ -483,6 +567,10 @@ export class JournalView extends ItemView {
 			this.loadMoreObserver = null;
 		}
 		this.renderedEntries.clear();
+		if (this.searchDebounceTimer !== null) {
+			window.clearTimeout(this.searchDebounceTimer);
+			this.searchDebounceTimer = null;
+		}
 
 		// 在关闭时确保状态被保存
 		logger.debug('onClose: 保存状态');
@@ -494,23 +582,10 @@ export class JournalView extends ItemView {
 		this.isLoading = true;
 
 		try {
-			// 如果指定了目标文件夹，只扫描该文件夹
-			let files: TFile[] = [];
-			if (this.targetFolderPath) {
-				const targetFolder = this.app.vault.getAbstractFileByPath(this.targetFolderPath);
-				if (targetFolder instanceof TFolder) {
-					files = this.getMarkdownFilesInFolder(targetFolder);
-					logger.log(`扫描文件夹 ${this.targetFolderPath}，找到 ${files.length} 个 Markdown 文件`);
-				} else {
-					logger.log(`文件夹 ${this.targetFolderPath} 不存在，扫描整个 vault`);
-					files = this.app.vault.getMarkdownFiles();
-				}
-			} else {
-				files = this.app.vault.getMarkdownFiles();
-				logger.log(`找到 ${files.length} 个 Markdown 文件`);
-			}
+			const files = this.getTargetFiles();
 
 			this.entries = [];
+			this.filteredEntries = [];
 			this.renderedEntries.clear();
 			this.currentPage = 0;
 
@@ -539,22 +614,19 @@ export class JournalView extends ItemView {
 				}
 			}
 
-			// 按日期排序（最新的在前），如果日期相同则按创建时间排序（最新的在前）
-			this.entries.sort((a, b) => {
-				// 首先按日期排序
-				const dateDiff = b.date.getTime() - a.date.getTime();
-				if (dateDiff !== 0) {
-					return dateDiff;
-				}
-				// 如果日期相同，按创建时间排序（最新的在前）
-				// 注意：ctime 是毫秒时间戳，值越大表示越新
-				const ctimeDiff = b.file.stat.ctime - a.file.stat.ctime;
-				if (ctimeDiff !== 0) {
-					return ctimeDiff;
-				}
-				// 如果创建时间也相同（理论上不应该），按文件路径排序作为最后的排序依据
-				return b.file.path.localeCompare(a.file.path);
-			});
+			// 按字数排序时先计算准确的字数，其他情况在后台计算（统计信息和写作目标在计算完成后更新）
+			if (EntrySorter.usesWordCount(this.sortMode)) {
+				await this.ensureWordCounts();
+			} else {
+				this.updateWordCountsInBackground();
+			}
+
+			// 按当前排序方式排序（与增量插入使用同一个比较函数）
+			this.entries.sort(EntrySorter.getComparator(this.sortMode));
+
+			// 重新应用当前的搜索条件
+			await this.loadSearchContent();
+			this.updateFilteredEntries();
 
 			// 调试：打印前几个条目的排序信息
 			if (this.entries.length > 0) {
@@ -580,44 +652,34 @@ export class JournalView extends ItemView {
 		// 优先使用 Obsidian 的 metadata cache
 		const metadata = this.app.metadataCache.getFileCache(file);
 
-		// 尝试从 frontmatter 提取日期（最快）
-		if (metadata?.frontmatter?.date) {
-			const frontmatterDate = parseDate(metadata.frontmatter.date);
-			if (frontmatterDate) {
-				// 如果 frontmatter 有日期，可以快速处理
-				return this.loadEntryMetadataFromCache(file, metadata, frontmatterDate);
-			}
+		// 先在不读取文件内容的情况下按规则解析日期
+		const strategies = this.getDateStrategies();
+		let resolution = DateResolver.resolve(file, metadata?.frontmatter, null, strategies);
+
+		// 日期来自 frontmatter（或 frontmatter 中已保存了相同日期）时可以快速处理（最快）
+		if (resolution && (resolution.strategy.type === 'frontmatter' || DateResolver.isStoredInFrontmatter(resolution, metadata?.frontmatter, strategies))) {
+			const entry = this.loadEntryMetadataFromCache(file, metadata, resolution);
+			// 快速路径不读取正文：使用缓存的字数，没有缓存时由 ensureWordCounts 在需要时计算
+			entry.wordCount = this.getCachedWordCount(file) ?? 0;
+			return entry;
 		}
 
 		// 如果没有 frontmatter 日期，需要读取文件内容
-		// 但只读取前 1000 个字符（通常足够提取日期和标题）
-		let content: string;
+		// 字数按完整内容计算，日期、标题和预览只使用前 2000 个字符
+		let fullContent: string;
 		try {
-			// 使用缓存的内容（如果可用）
-			const cachedContent = this.app.metadataCache.getFileCache(file);
-			if (cachedContent && (cachedContent as any).content) {
-				content = (cachedContent as any).content;
-			} else {
-				// 只读取文件的前 1000 个字符（通常足够提取日期、标题和预览）
-				const fullContent = await this.app.vault.read(file);
-				content = fullContent.substring(0, 2000); // 读取前 2000 字符
-			}
+			fullContent = await this.app.vault.read(file);
 		} catch (error) {
 			logger.error(`读取文件失败 ${file.path}:`, error);
 			return null;
 		}
+		let content = fullContent.substring(0, 2000);
 
-		// 获取当前文件夹的日期字段配置
-		let customDateField: string | undefined = undefined;
-		if (this.plugin && this.targetFolderPath) {
-			const pluginSettings = (this.plugin as any).settings;
-			if (pluginSettings?.folderDateFields && pluginSettings.folderDateFields[this.targetFolderPath]) {
-				customDateField = pluginSettings.folderDateFields[this.targetFolderPath];
-			}
+		// 需要扫描正文时再用内容解析一次
+		if (!resolution) {
+			resolution = DateResolver.resolve(file, metadata?.frontmatter, content, strategies);
 		}
-
-		const date = extractDate(file, content, this.app, customDateField);
-		if (!date) {
+		if (!resolution) {
 			return null;
 		}
 
@@ -630,14 +692,11 @@ export class JournalView extends ItemView {
 
 		// 如果 metadata cache 中没有图片信息，才从内容中提取
 		if (images.length === 0) {
-			// 需要完整内容来提取图片，但只读取一次
-			const fullContent = await this.app.vault.read(file);
 			images = extractImagesFromContent(fullContent, file, this.app);
 			content = fullContent; // 使用完整内容
 		}
 
-		// 快速计算字数（使用完整内容或部分内容）
-		const wordCount = countWords(content);
+		const wordCount = await this.getWordCount(file, fullContent);
 
 		// 提取标题（优先使用 frontmatter）
 		let title = metadata?.frontmatter?.title || '';
@@ -650,21 +709,43 @@ export class JournalView extends ItemView {
 
 		return {
 			file,
-			date,
+			date: resolution.date,
 			images,
+			cover: resolveCover(metadata?.frontmatter?.[COVER_FIELD], file, this.app),
 			content: '', // 不保存完整内容，需要时再加载
 			preview,
 			wordCount,
 			title,
+			tags: extractTags(metadata),
+			properties: extractProperties(metadata?.frontmatter),
+			hasTime: resolution.hasTime,
+			dateStrategy: resolution.strategy,
+			dateRawValue: resolution.rawValue,
 		};
 	}
 
+	// 获取当前文件夹的日期解析规则（未配置时使用默认规则，默认规则会使用文件夹配置的日期字段）
+	private getDateStrategies(): DateStrategy[] {
+		const pluginSettings = (this.plugin as any)?.settings;
+		if (!this.targetFolderPath || !pluginSettings) {
+			return DateResolver.getDefaultStrategies();
+		}
+
+		const configured = pluginSettings.folderDateStrategies?.[this.targetFolderPath];
+		if (Array.isArray(configured)) {
+			const strategies = configured.filter((strategy: unknown) => DateResolver.isDateStrategy(strategy));
+			if (strategies.length > 0) return strategies;
+		}
+
+		return DateResolver.getDefaultStrategies(pluginSettings.folderDateFields?.[this.targetFolderPath]);
+	}
+
 	// 从 metadata cache 快速加载（当 frontmatter 有日期时）
 	// 这是最快的路径，不需要读取文件内容
 	private loadEntryMetadataFromCache(
 		file: TFile,
 		metadata: any,
-		date: Date
+		resolution: DateResolution
 	): JournalEntry {
 		// 从 metadata cache 提取图片（不需要读取文件）
 		const images = this.extractImagesFromMetadata(metadata, file);
@@ -682,42 +763,54 @@ export class JournalView extends ItemView {
 			preview = title;
 		}
 
-		// 字数统计：如果 frontmatter 有字数信息就使用，否则延迟计算
-		// 为了性能，这里先设为 0，需要时再计算
-		const wordCount = metadata.frontmatter?.wordCount || 0;
-
 		return {
 			file,
-			date,
+			date: resolution.date,
 			images,
+			cover: resolveCover(metadata.frontmatter?.[COVER_FIELD], file, this.app),
 			content: '',
-			preview: preview || '无预览',
-			wordCount,
+			preview: preview || t('view.noPreview'),
+			wordCount: 0, // 由 loadEntryMetadata 按完整正文计算
 			title,
+			tags: extractTags(metadata),
+			properties: extractProperties(metadata?.frontmatter),
+			hasTime: resolution.hasTime,
+			dateStrategy: resolution.strategy,
+			dateRawValue: resolution.rawValue,
 		};
 	}
 
-	// 从 metadata cache 提取图片
+	// 从 metadata cache 提取附件（图片、视频、音频、PDF 和外部图片）
 	private extractImagesFromMetadata(metadata: any, file: TFile): ImageInfo[] {
 		const images: ImageInfo[] = [];
 
 		if (metadata.embeds) {
 			for (const embed of metadata.embeds) {
+				const position = embed.position?.start?.line || 0;
+				const source = { path: file.path, line: position, embed: embed.original };
+				if (isRemoteUrl(embed.link)) {
+					images.push(createRemoteMedia(embed.link, position, embed.displayText, source));
+					continue;
+				}
+
+				// 去掉 PDF 页码等子路径: file.pdf#page=3
 				const imageFile = this.app.metadataCache.getFirstLinkpathDest(
-					embed.link,
+					embed.link.split('#')[0],
 					file.path
 				);
 
 				if (imageFile && imageFile instanceof TFile) {
-					// 检查是否是图片文件
-					const ext = imageFile.extension.toLowerCase();
-					if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'].includes(ext)) {
+					// 只保留支持的附件格式（跳过嵌入的笔记等）
+					const type = getMediaType(imageFile.extension);
+					if (type) {
 						images.push({
 							name: embed.link,
 							path: imageFile.path,
 							url: this.app.vault.getResourcePath(imageFile),
 							altText: embed.displayText || '',
-							position: embed.position?.start?.line || 0,
+							position,
+							type,
+							source,
 						});
 					}
 				}
@@ -727,6 +820,69 @@ export class JournalView extends ItemView {
 		return images;
 	}
 
+	// 缓存的字数（文件修改后失效，没有时返回 null）
+	private getCachedWordCount(file: TFile): number | null {
+		const cached = this.wordCountCache.get(file.path);
+		return cached && cached.mtime === file.stat.mtime ? cached.wordCount : null;
+	}
+
+	// 按完整正文计算字数，文件没有修改时使用缓存
+	private async getWordCount(file: TFile, content?: string): Promise<number> {
+		const cached = this.getCachedWordCount(file);
+		if (cached !== null) {
+			return cached;
+		}
+
+		let text = content;
+		if (text === undefined) {
+			try {
+				text = await this.app.vault.cachedRead(file);
+			} catch (error) {
+				logger.error(`读取文件失败 ${file.path}:`, error);
+				return 0;
+			}
+		}
+
+		const wordCount = countWords(text);
+		this.wordCountCache.set(file.path, { mtime: file.stat.mtime, wordCount });
+		return wordCount;
+	}
+
+	/**
+	 * 为快速路径加载的条目计算字数（没有缓存或文件已修改的条目才读取正文）
+	 * 在字数排序、统计面板和单日详情需要准确字数时调用
+	 * @returns 是否有条目的字数发生变化
+	 */
+	private async ensureWordCounts(entries: JournalEntry[] = this.entries): Promise<boolean> {
+		const pending = entries.filter(entry => this.getCachedWordCount(entry.file) === null);
+		let changed = false;
+
+		const batchSize = PAGINATION.BATCH_SIZE;
+		for (let i = 0; i < pending.length; i += batchSize) {
+			await Promise.all(pending.slice(i, i + batchSize).map(async (entry) => {
+				const wordCount = await this.getWordCount(entry.file);
+				if (wordCount !== entry.wordCount) {
+					entry.wordCount = wordCount;
+					changed = true;
+				}
+			}));
+		}
+		return changed;
+	}
+
+	/**
+	 * 在后台计算字数，完成后更新统计信息、写作目标和热力图（不阻塞加载和渲染）
+	 */
+	private updateWordCountsInBackground(): void {
+		this.ensureWordCounts().then((changed) => {
+			if (!changed) return;
+			this.dailyGoalStatus = null;
+			this.updateStats();
+		}).catch(error => {
+			logger.error('计算字数失败:', error);
+		});
+	}
+
 	// 按需加载完整内容
 	private async loadEntryContent(entry: JournalEntry): Promise<void> {
 		if (entry.content) return; // 已经加载过了
@@ -738,6 +894,102 @@ export class JournalView extends ItemView {
 		}
 	}
 
+	/**
+	 * 为搜索加载正文
+	 * 只读取标题和预览不匹配、且还没有加载过正文的条目，加载后的正文会保留供后续搜索使用
+	 */
+	private async loadSearchContent(): Promise<void> {
+		if (this.searchTerms.length === 0) return;
+
+		const terms = this.searchTerms;
+		const pending = this.entries.filter(entry =>
+			!entry.content && !EntrySearch.matchesMetadata(entry, terms)
+		);
+
+		const batchSize = PAGINATION.BATCH_SIZE;
+		for (let i = 0; i < pending.length; i += batchSize) {
+			await Promise.all(pending.slice(i, i + batchSize).map(entry => this.loadEntryContent(entry)));
+		}
+	}
+
+	/**
+	 * 根据当前搜索词和筛选条件重新计算 filteredEntries（同步，需要的正文应已通过 loadSearchContent 加载）
+	 */
+	private updateFilteredEntries(): void {
+		// 条目发生了变化，每日目标状态需要重新计算
+		this.dailyGoalStatus = null;
+
+		if (!this.hasActiveFilters()) {
+			this.filteredEntries = this.entries.slice();
+			return;
+		}
+		const range = DateRangeFilter.resolve(this.dateRange);
+		this.filteredEntries = this.entries.filter(entry =>
+			DateRangeFilter.contains(range, entry.date) &&
+			EntrySearch.matches(entry, this.searchTerms) &&
+			EntryFilter.matches(entry, this.filterState)
+		);
+	}
+
+	/**
+	 * 是否有生效的日期范围、搜索词或筛选条件
+	 */
+	private hasActiveFilters(): boolean {
+		return this.searchTerms.length > 0 ||
+			EntryFilter.isActive(this.filterState) ||
+			DateRangeFilter.isActive(this.dateRange);
+	}
+
+	/**
+	 * 更新日期范围并重新渲染列表、统计信息和"那年今日"面板
+	 */
+	private setDateRange(state: DateRangeState): void {
+		this.dateRange = state;
+		this.updateFilteredEntries();
+
+		const dateRangeContainer = this.contentEl?.querySelector('.journal-date-range-container') as HTMLElement | null;
+		if (dateRangeContainer) {
+			this.renderDateRangePicker(dateRangeContainer);
+		}
+
+		this.renderList();
+		this.updateStats();
+		this.saveState();
+	}
+
+	/**
+	 * 更新标签/属性筛选条件并重新渲染列表和统计信息
+	 */
+	private setFilterState(state: EntryFilterState): void {
+		this.filterState = state;
+		this.updateFilteredEntries();
+		this.renderList();
+		this.updateStats();
+		this.saveState();
+	}
+
+	/**
+	 * 更新搜索词并重新渲染列表和统计信息（不重新渲染 header，保留搜索框焦点）
+	 */
+	private async setSearchQuery(query: string): Promise<void> {
+		this.searchQuery = query;
+		this.searchTerms = EntrySearch.parseQuery(query);
+		const version = ++this.searchVersion;
+
+		const countEl = this.contentEl?.querySelector('.journal-search-count');
+		if (countEl && this.searchTerms.length > 0) {
+			countEl.textContent = t('search.searching');
+		}
+
+		await this.loadSearchContent();
+		// 加载正文期间输入了新的搜索词，丢弃这次的结果
+		if (version !== this.searchVersion) return;
+
+		this.updateFilteredEntries();
+		this.renderList();
+		this.updateStats();
+	}
+
 	render(): void {
 		// 确保 contentEl 存在
 		let container = this.contentEl;
@@ -767,6 +1019,15 @@ export class JournalView extends ItemView {
 		this.renderToContainer(container);
 	}
 
+	/**
+	 * 只重新渲染（不重新扫描），用于设置变化后更新显示
+	 * 如果还没有加载过条目（显示欢迎界面），不做任何处理
+	 */
+	renderIfLoaded(): void {
+		if (this.entries.length === 0 || this.isLoading) return;
+		this.render();
+	}
+
 	private renderToContainer(container: HTMLElement): void {
 		container.empty();
 		container.addClass('journal-view-container');
@@ -792,7 +1053,7 @@ export class JournalView extends ItemView {
 
 		if (this.isLoading) {
 			const loadingEl = container.createDiv({
-				text: '加载中...',
+				text: t('view.loadingMore'),
 				cls: 'journal-loading',
 			});
 			loadingEl.style.cssText = 'text-align: center; padding: 40px; color: var(--text-normal);';
@@ -802,7 +1063,7 @@ export class JournalView extends ItemView {
 
 		if (this.entries.length === 0) {
 			const emptyEl = container.createDiv({
-				text: '没有找到手记条目。请确保文件包含日期信息（文件名、frontmatter 或正文）。\n\n提示：\n- 文件名格式：2026-01-12.md 或 2026年1月12日.md\n- Frontmatter：date: 2026-01-12\n- 正文内容：2026年1月12日',
+				text: t('view.noEntries'),
 				cls: 'journal-empty',
 			});
 			emptyEl.style.cssText = 'text-align: center; padding: 40px; color: var(--text-normal); white-space: pre-line;';
@@ -833,11 +1094,28 @@ export class JournalView extends ItemView {
 		const listContainer = contentWrapper.createDiv('journal-list-container');
 		this.listContainer = listContainer; // 保存引用
 
+		this.renderList();
+	}
+
+	/**
+	 * 渲染列表区域（时间线或日历），header 保持不变
+	 */
+	private renderList(): void {
+		if (!this.listContainer) return;
+
+		// 日历模式：直接渲染月历网格，不需要分页和懒加载
+		if (this.viewMode === 'calendar') {
+			this.renderCalendar();
+			return;
+		}
+
 		// 渲染手记列表（分页加载）
-		this.renderListPaginated(listContainer);
+		this.renderListPaginated(this.listContainer);
 
 		// 设置滚动监听，实现懒加载（使用主容器作为滚动根，listContainer作为触发器容器）
-		this.setupLazyLoading(container, listContainer);
+		if (this.scrollContainer) {
+			this.setupLazyLoading(this.scrollContainer, this.listContainer);
+		}
 	}
 
 	private setupLazyLoading(scrollContainer: HTMLElement, listContainer: HTMLElement): void {
@@ -896,9 +1174,9 @@ export class JournalView extends ItemView {
 		}
 
 		const startIndex = this.currentPage * this.itemsPerPage;
-		const endIndex = Math.min(startIndex + this.itemsPerPage, this.entries.length);
+		const endIndex = Math.min(startIndex + this.itemsPerPage, this.filteredEntries.length);
 
-		if (startIndex >= this.entries.length) {
+		if (startIndex >= this.filteredEntries.length) {
 			// 没有更多内容了
 			logger.debug('没有更多内容了');
 			const trigger = container.querySelector('.journal-load-more-trigger');
@@ -910,7 +1188,7 @@ export class JournalView extends ItemView {
 		}
 
 		this.isLoadingMore = true;
-		logger.debug(`loadMoreEntries: ${startIndex} - ${endIndex} (共 ${this.entries.length} 个)`);
+		logger.debug(`loadMoreEntries: ${startIndex} - ${endIndex} (共 ${this.filteredEntries.length} 个)`);
 
 		try {
 			// 移除旧的触发器
@@ -926,7 +1204,7 @@ export class JournalView extends ItemView {
 
 			// 创建新的触发器（完全隐藏，只用于 Intersection Observer）
 			// 关键：触发器必须位于列表容器的最后，在正常文档流中
-			if (endIndex < this.entries.length) {
+			if (endIndex < this.filteredEntries.length) {
 				const trigger = container.createDiv('journal-load-more-trigger');
 				trigger.style.cssText = `
 					height: 1px !important;
@@ -940,7 +1218,7 @@ export class JournalView extends ItemView {
 				logger.debug('创建新的加载触发器', {
 					trigger,
 					container: container,
-					remaining: this.entries.length - endIndex,
+					remaining: this.filteredEntries.length - endIndex,
 					containerHeight: container.scrollHeight
 				});
 				// 延迟观察，确保DOM已完全渲染
@@ -971,43 +1249,39 @@ export class JournalView extends ItemView {
 		startIndex: number,
 		endIndex: number
 	): Promise<void> {
-		// 按月份分组当前批次的条目
-		const batchEntries = this.entries.slice(startIndex, endIndex);
-		const grouped = groupByMonth(batchEntries);
-
-		logger.debug(`renderEntriesBatch: 处理 ${batchEntries.length} 个条目，分为 ${Object.keys(grouped).length} 个月份`);
-
-		// 按月份排序
-		const sortedMonths = Object.keys(grouped).sort((a, b) => {
-			const dateA = this.parseMonthKey(a);
-			const dateB = this.parseMonthKey(b);
-			return dateB.getTime() - dateA.getTime();
-		});
+		// 按分组键分组当前批次的条目
+		// 分组按条目在排序结果中首次出现的顺序排列，因此分组顺序同样由排序比较函数决定
+		const batchEntries = this.filteredEntries.slice(startIndex, endIndex);
+		const grouped = new Map<string, JournalEntry[]>();
+		for (const entry of batchEntries) {
+			const groupKey = EntrySorter.getGroupKey(entry, this.sortMode);
+			const groupEntries = grouped.get(groupKey);
+			if (groupEntries) {
+				groupEntries.push(entry);
+			} else {
+				grouped.set(groupKey, [entry]);
+			}
+		}
 
-		for (const monthKey of sortedMonths) {
-			const entries = grouped[monthKey];
+		logger.debug(`renderEntriesBatch: 处理 ${batchEntries.length} 个条目，分为 ${grouped.size} 个分组`);
 
-			// 检查月份标题是否已存在
+		for (const [groupKey, entries] of grouped) {
+			// 检查分组是否已存在
 			let monthSection = container.querySelector(
-				`.journal-month-section[data-month="${monthKey}"]`
+				`.journal-month-section[data-month="${groupKey}"]`
 			) as HTMLElement;
 
 			if (!monthSection) {
-				monthSection = container.createDiv('journal-month-section');
-				monthSection.setAttribute('data-month', monthKey);
-				const title = monthSection.createEl('h2', {
-					text: monthKey,
-					cls: 'journal-month-title',
-				});
-				logger.debug(`创建月份标题: ${monthKey}`);
+				monthSection = this.createMonthSection(groupKey);
+				container.appendChild(monthSection);
+				logger.debug(`创建分组: ${groupKey}`);
 			}
 
 			for (const entry of entries) {
-				const entryIndex = this.entries.indexOf(entry);
-				if (!this.renderedEntries.has(entryIndex)) {
+				if (!this.renderedEntries.has(entry.file.path)) {
 					const card = await this.createJournalCard(entry);
 					monthSection.appendChild(card);
-					this.renderedEntries.add(entryIndex);
+					this.renderedEntries.add(entry.file.path);
 				}
 			}
 		}
@@ -1015,14 +1289,32 @@ export class JournalView extends ItemView {
 		logger.debug(`renderEntriesBatch 完成，容器子元素数: ${container.children.length}`);
 	}
 
+	/**
+	 * 创建分组容器（按月份分组时带月份标题，不分组时没有标题）
+	 */
+	private createMonthSection(groupKey: string): HTMLElement {
+		const monthSection = document.createElement('div');
+		monthSection.addClass('journal-month-section');
+		monthSection.setAttribute('data-month', groupKey);
+		if (groupKey) {
+			monthSection.createEl('h2', {
+				text: formatMonth(this.parseMonthKey(groupKey)),
+				cls: 'journal-month-title',
+			});
+		}
+		return monthSection;
+	}
+
 	// 创建 SVG 图标（符合 UI/UX Pro Max 原则：使用 SVG 而非 emoji）
 	// 参考手记应用设计：火焰和对话气泡用红色，日历用蓝色
-	private createSVGIcon(iconName: 'flame' | 'message' | 'calendar', size: number = 20, color?: string): string {
+	private createSVGIcon(iconName: 'flame' | 'message' | 'calendar' | 'list' | 'chart', size: number = 20, color?: string): string {
 		const iconColor = color || 'currentColor';
 		const svgMap = {
 			flame: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M8.5 14.5A2.5 2.5 0 0 0 11 12c0-1.38-.5-2-1-3-1.072-2.143-.224-4.054 2-6 .5 2.5 2 4.9 4 6.5 2 1.6 3 3.5 3 5.5a7 7 0 1 1-14 0c0-1.153.433-2.294 1-3a2.5 2.5 0 0 0 2.5 2.5z"></path></svg>`,
 			message: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path></svg>`,
-			calendar: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect><line x1="16" y1="2" x2="16" y2="6"></line><line x1="8" y1="2" x2="8" y2="6"></line><line x1="3" y1="10" x2="21" y2="10"></line></svg>`
+			calendar: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect><line x1="16" y1="2" x2="16" y2="6"></line><line x1="8" y1="2" x2="8" y2="6"></line><line x1="3" y1="10" x2="21" y2="10"></line></svg>`,
+			list: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="8" y1="6" x2="21" y2="6"></line><line x1="8" y1="12" x2="21" y2="12"></line><line x1="8" y1="18" x2="21" y2="18"></line><line x1="3" y1="6" x2="3.01" y2="6"></line><line x1="3" y1="12" x2="3.01" y2="12"></line><line x1="3" y1="18" x2="3.01" y2="18"></line></svg>`,
+			chart: `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${iconColor}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="18" y1="20" x2="18" y2="10"></line><line x1="12" y1="20" x2="12" y2="4"></line><line x1="6" y1="20" x2="6" y2="14"></line></svg>`
 		};
 		return svgMap[iconName];
 	}
@@ -1036,7 +1328,7 @@ export class JournalView extends ItemView {
 
 		// 标题
 		const titleEl = titleContainer.createEl('h1', { cls: 'journal-title-header' });
-		titleEl.textContent = '手记';
+		titleEl.textContent = t('header.title');
 
 		// 按钮容器
 		const buttonContainer = titleContainer.createDiv('journal-header-buttons');
@@ -1051,8 +1343,8 @@ export class JournalView extends ItemView {
 				<path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
 			</svg>
 		`;
-		refreshButton.setAttribute('aria-label', '刷新视图');
-		refreshButton.setAttribute('title', '刷新视图');
+		refreshButton.setAttribute('aria-label', t('header.refresh'));
+		refreshButton.setAttribute('title', t('header.refresh'));
 		refreshButton.addEventListener('click', async () => {
 			refreshButton.disabled = true;
 			refreshButton.style.opacity = '0.6';
@@ -1073,20 +1365,68 @@ export class JournalView extends ItemView {
 				<line x1="12" y1="5" x2="12" y2="19"></line>
 				<line x1="5" y1="12" x2="19" y2="12"></line>
 			</svg>
-			<span>新建笔记</span>
+			<span>${t('header.newNote')}</span>
 		`;
-		createButton.setAttribute('aria-label', '新建笔记');
+		createButton.setAttribute('aria-label', t('header.newNote'));
+
+		// 视图模式切换按钮（时间线 / 日历）
+		const viewModeButton = buttonContainer.createEl('button', { cls: 'journal-view-mode-button' });
+		const viewModeLabel = this.viewMode === 'calendar' ? t('header.toTimeline') : t('header.toCalendar');
+		viewModeButton.innerHTML = this.viewMode === 'calendar'
+			? this.createSVGIcon('list', 20)
+			: this.createSVGIcon('calendar', 20);
+		viewModeButton.setAttribute('aria-label', viewModeLabel);
+		viewModeButton.setAttribute('title', viewModeLabel);
+		viewModeButton.addEventListener('click', () => {
+			this.setViewMode(this.viewMode === 'calendar' ? 'timeline' : 'calendar');
+		});
+		// 放在新建按钮之前，保持新建按钮在最右侧
+		buttonContainer.insertBefore(viewModeButton, createButton);
+
+		// 统计面板按钮
+		const statsButton = buttonContainer.createEl('button', { cls: 'journal-stats-button' });
+		statsButton.innerHTML = this.createSVGIcon('chart', 20);
+		statsButton.setAttribute('aria-label', t('header.stats'));
+		statsButton.setAttribute('title', t('header.stats'));
+		statsButton.addEventListener('click', () => {
+			this.openStatisticsDashboard();
+		});
+		buttonContainer.insertBefore(statsButton, viewModeButton);
+
+		// 排序方式下拉菜单（日历视图按日期排列，不需要排序）
+		if (this.viewMode === 'timeline') {
+			const sortSelect = buttonContainer.createEl('select', { cls: 'dropdown journal-sort-select' });
+			sortSelect.setAttribute('aria-label', t('header.sort'));
+			sortSelect.setAttribute('title', t('header.sort'));
+			for (const option of SORT_MODE_OPTIONS) {
+				const optionEl = sortSelect.createEl('option', { text: t(option.labelKey), value: option.value });
+				if (option.value === this.sortMode) optionEl.selected = true;
+			}
+			sortSelect.addEventListener('change', () => {
+				if (EntrySorter.isSortMode(sortSelect.value)) {
+					this.setSortMode(sortSelect.value);
+				}
+			});
+			buttonContainer.insertBefore(sortSelect, refreshButton);
+		}
 		createButton.addEventListener('click', () => {
 			this.createNewNote();
 		});
 
+		// 搜索框
+		this.renderSearchBox(headerEl);
+
+		// 标签/属性筛选栏
+		const filterContainer = headerEl.createDiv('journal-filter-container');
+		this.renderFilterBar(filterContainer);
+
 		// 统计信息容器
 		const statsEl = headerEl.createDiv('journal-stats');
 
-		// 计算统计信息（使用 StatisticsCalculator）
-		const consecutiveDays = StatisticsCalculator.calculateConsecutiveDays(this.entries);
-		const totalWords = StatisticsCalculator.calculateTotalWords(this.entries);
-		const totalDays = StatisticsCalculator.calculateTotalDays(this.entries);
+		// 计算统计信息（使用 StatisticsCalculator，搜索时只统计匹配的条目）
+		const consecutiveDays = this.calculateStreak(this.filteredEntries);
+		const totalWords = StatisticsCalculator.calculateTotalWords(this.filteredEntries);
+		const totalDays = StatisticsCalculator.calculateTotalDays(this.filteredEntries);
 
 		// 统计项 1：连续记录天数（红色火焰图标）
 		const stat1 = statsEl.createDiv('journal-stat-item');
@@ -1096,7 +1436,7 @@ export class JournalView extends ItemView {
 		const value1 = stat1Content.createDiv('journal-stat-value');
 		value1.textContent = this.formatNumber(consecutiveDays);
 		const label1 = stat1.createDiv('journal-stat-label');
-		label1.textContent = '连续纪录天数';
+		label1.textContent = this.isGoalStreak() ? t('stats.goalStreak') : t('stats.streak');
 
 		// 统计项 2：字数（红色对话气泡图标）
 		const stat2 = statsEl.createDiv('journal-stat-item');
@@ -1106,7 +1446,7 @@ export class JournalView extends ItemView {
 		const value2 = stat2Content.createDiv('journal-stat-value');
 		value2.textContent = this.formatNumber(totalWords);
 		const label2 = stat2.createDiv('journal-stat-label');
-		label2.textContent = '字数';
+		label2.textContent = t('stats.words');
 
 		// 统计项 3：写手记天数（蓝色日历图标）
 		const stat3 = statsEl.createDiv('journal-stat-item');
@@ -1116,9 +1456,17 @@ export class JournalView extends ItemView {
 		const value3 = stat3Content.createDiv('journal-stat-value');
 		value3.textContent = this.formatNumber(totalDays);
 		const label3 = stat3.createDiv('journal-stat-label');
-		label3.textContent = '写手记天数';
+		label3.textContent = t('stats.days');
+
+		// 写作目标进度环（统计项旁边）
+		const goalContainer = statsEl.createDiv('journal-goal-rings');
+		this.renderGoalRings(goalContainer);
 
-		// 去年今日卡片
+		// 年度热力图
+		const heatmapContainer = headerEl.createDiv('journal-heatmap-container');
+		this.renderHeatmap(heatmapContainer);
+
+		// 那年今日面板
 		this.renderOnThisDay(headerEl);
 
 		// 调试：打印前10条条目的创建时间和标题
@@ -1140,98 +1488,274 @@ export class JournalView extends ItemView {
 	}
 
 	/**
-	 * 查找去年今日的条目
+	 * 渲染搜索框（搜索标题、预览和正文）
 	 */
-	private findOnThisDayEntry(): JournalEntry | null {
-		const today = new Date();
-		const targetYear = today.getFullYear() - 1;
-		const targetMonth = today.getMonth();
-		const targetDate = today.getDate();
-
-		// 查找去年同月同日的条目（必须精确匹配年份）
-		for (const entry of this.entries) {
-			const entryDate = entry.date;
-			if (
-				entryDate.getFullYear() === targetYear &&
-				entryDate.getMonth() === targetMonth &&
-				entryDate.getDate() === targetDate
-			) {
-				return entry;
+	private renderSearchBox(headerEl: HTMLElement): void {
+		const searchContainer = headerEl.createDiv('journal-search-container');
+
+		const input = searchContainer.createEl('input', {
+			cls: 'journal-search-input',
+			attr: {
+				type: 'search',
+				placeholder: t('search.placeholder'),
+				'aria-label': t('search.label'),
+			},
+		});
+		input.value = this.searchQuery;
+
+		// 日期范围选择器
+		const dateRangeContainer = searchContainer.createDiv('journal-date-range-container');
+		this.renderDateRangePicker(dateRangeContainer);
+
+		const countEl = searchContainer.createDiv('journal-search-count');
+		this.updateSearchCount(countEl);
+
+		input.addEventListener('input', () => {
+			if (this.searchDebounceTimer !== null) {
+				window.clearTimeout(this.searchDebounceTimer);
 			}
-		}
+			this.searchDebounceTimer = window.setTimeout(() => {
+				this.searchDebounceTimer = null;
+				this.setSearchQuery(input.value).catch(error => {
+					logger.error('搜索失败:', error);
+				});
+			}, this.SEARCH_DEBOUNCE_DELAY);
+		});
 
-		return null;
+		// Esc 清空搜索
+		input.addEventListener('keydown', (e) => {
+			if (e.key === 'Escape' && input.value) {
+				e.preventDefault();
+				input.value = '';
+				input.dispatchEvent(new Event('input'));
+			}
+		});
 	}
 
 	/**
-	 * 渲染去年今日卡片
+	 * 更新搜索/筛选结果数量提示
 	 */
-	private renderOnThisDay(headerEl: HTMLElement): void {
-		const onThisDayEntry = this.findOnThisDayEntry();
+	private updateSearchCount(countEl: Element): void {
+		countEl.textContent = this.hasActiveFilters()
+			? t('search.count', { count: this.filteredEntries.length })
+			: '';
+	}
 
-		// 创建去年今日容器
-		const onThisDayContainer = headerEl.createDiv('journal-on-this-day-container');
+	/**
+	 * 渲染日期范围选择器
+	 */
+	private renderDateRangePicker(dateRangeContainer: HTMLElement): void {
+		dateRangeContainer.empty();
+		DateRangePickerBuilder.buildPicker(dateRangeContainer, this.dateRange, {
+			onChange: (state) => this.setDateRange(state),
+		});
+	}
 
-		if (onThisDayEntry) {
-			// 找到去年今日的条目，显示卡片
-			const card = onThisDayContainer.createDiv('journal-on-this-day-card');
-			card.setAttribute('role', 'button');
-			card.setAttribute('tabindex', '0');
-			card.setAttribute('aria-label', '查看去年今日的手记');
+	/**
+	 * 渲染标签/属性筛选栏（可选项从当前文件夹的所有条目中收集）
+	 */
+	private renderFilterBar(filterContainer: HTMLElement): void {
+		filterContainer.empty();
+		FilterBarBuilder.buildFilterBar(filterContainer, this.entries, this.filterState, {
+			onChange: (state) => this.setFilterState(state),
+		});
+	}
 
-			// 添加点击事件
-			card.addEventListener('click', () => {
-				this.app.workspace.openLinkText(onThisDayEntry.file.path, '', true);
-			});
+	/**
+	 * 打开统计面板（统计当前日期范围和筛选条件下的条目）
+	 */
+	openStatisticsDashboard(): void {
+		// 字数统计需要准确的字数
+		this.ensureWordCounts().then(() => {
+			new StatisticsDashboardModal(this.app, this.filteredEntries, this.getStreakOptions()).open();
+		}).catch(error => {
+			logger.error('打开统计面板失败:', error);
+		});
+	}
 
-			card.addEventListener('keydown', (e) => {
-				if (e.key === 'Enter' || e.key === ' ') {
-					e.preventDefault();
-					this.app.workspace.openLinkText(onThisDayEntry.file.path, '', true);
-				}
+	/**
+	 * 打开日期解析诊断（检查视图中所有条目的日期来源）
+	 */
+	openDateDiagnostics(): void {
+		new DateDiagnosticsModal(this.app, this.entries, this.getDateStrategies()).open();
+	}
+
+	/**
+	 * 打开日期规范化预览：把当前解析出的日期写入文件夹配置的日期字段（未配置时写入 date）
+	 */
+	openDateNormalizer(): void {
+		const pluginSettings = (this.plugin as any)?.settings;
+		const field = (this.targetFolderPath && pluginSettings?.folderDateFields?.[this.targetFolderPath]) || DATE_FIELDS[0];
+		new DateNormalizeModal(this.app, this.getTargetFiles(), this.getDateStrategies(), field, () => {
+			this.refresh().catch(error => {
+				logger.error('刷新视图失败:', error);
 			});
+		}).open();
+	}
 
-			// 标题部分
-			const titleSection = card.createDiv('journal-on-this-day-title');
-			const icon = titleSection.createDiv('journal-on-this-day-icon');
-			icon.innerHTML = this.createSVGIcon('calendar', 18, '#3b82f6');
-			const titleText = titleSection.createEl('span', { cls: 'journal-on-this-day-title-text' });
-			const lastYear = new Date().getFullYear() - 1;
-			titleText.textContent = `去年今日 (${lastYear}年)`;
-
-			// 内容部分
-			const contentSection = card.createDiv('journal-on-this-day-content');
-
-			// 如果有图片，显示第一张图片
-			if (onThisDayEntry.images.length > 0) {
-				const imageContainer = contentSection.createDiv('journal-on-this-day-image');
-				const img = document.createElement('img');
-				img.src = onThisDayEntry.images[0].url;
-				img.alt = onThisDayEntry.images[0].altText || onThisDayEntry.title;
-				img.loading = 'lazy';
-				imageContainer.appendChild(img);
-			}
+	/**
+	 * 打开单日详情（按时间先后列出当天在当前日期范围和筛选条件下的条目）
+	 */
+	openDayDetail(date: Date): void {
+		this.ensureWordCounts().then(() => {
+			new DayDetailModal(this.app, this.filteredEntries, date).open();
+		}).catch(error => {
+			logger.error('打开单日详情失败:', error);
+		});
+	}
 
-			// 文本内容
-			const textSection = contentSection.createDiv('journal-on-this-day-text');
-			const entryTitle = textSection.createEl('div', { cls: 'journal-on-this-day-entry-title' });
-			entryTitle.textContent = onThisDayEntry.title;
+	/**
+	 * 渲染年度热力图（切换年份或着色依据时只重绘热力图本身）
+	 */
+	private renderHeatmap(heatmapContainer: HTMLElement): void {
+		heatmapContainer.empty();
+		HeatmapBuilder.buildHeatmap(heatmapContainer, this.filteredEntries, this.heatmapYear, this.heatmapMetric, {
+			onYearChange: (year) => {
+				this.heatmapYear = year;
+				this.renderHeatmap(heatmapContainer);
+			},
+			onMetricChange: (metric) => {
+				this.heatmapMetric = metric;
+				this.renderHeatmap(heatmapContainer);
+			},
+			onDayClick: (date) => {
+				this.scrollToDate(date).catch(error => {
+					logger.error('滚动到指定日期失败:', error);
+				});
+			},
+		});
+	}
 
-			if (onThisDayEntry.preview) {
-				const preview = textSection.createEl('div', { cls: 'journal-on-this-day-preview' });
-				preview.textContent = onThisDayEntry.preview.length > 100
-					? onThisDayEntry.preview.substring(0, 100) + '...'
-					: onThisDayEntry.preview;
+	/**
+	 * 滚动到指定日期的卡片
+	 * 时间线模式下如果卡片还没有被分页渲染，先逐页加载直到渲染出该卡片
+	 * 日历模式下切换到该日期所在的月份
+	 */
+	private async scrollToDate(date: Date): Promise<void> {
+		const dateKey = formatDateKey(date);
+		const targetIndex = this.filteredEntries.findIndex(e => formatDateKey(e.date) === dateKey);
+		if (targetIndex < 0) return;
+
+		if (this.viewMode === 'calendar') {
+			this.calendarMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+			this.renderCalendar();
+			return;
+		}
+
+		if (!this.listContainer) return;
+
+		// 逐页加载，直到目标条目被渲染（受条目总数限制，不会无限循环）
+		while (!this.renderedEntries.has(this.filteredEntries[targetIndex].file.path) && this.currentPage * this.itemsPerPage < this.filteredEntries.length) {
+			if (this.isLoadingMore) {
+				await new Promise(resolve => setTimeout(resolve, UI_DELAYS.RENDER_DELAY));
+				continue;
 			}
-		} else {
-			// 没有找到去年今日的条目，显示提示
-			const emptyCard = onThisDayContainer.createDiv('journal-on-this-day-empty');
-			const icon = emptyCard.createDiv('journal-on-this-day-empty-icon');
-			icon.innerHTML = this.createSVGIcon('calendar', 20, '#999999');
-			const text = emptyCard.createEl('span', { cls: 'journal-on-this-day-empty-text' });
-			const lastYear = new Date().getFullYear() - 1;
-			text.textContent = `去年今日 (${lastYear}年) 暂无记录`;
+			await this.loadMoreEntries(this.listContainer);
 		}
+
+		const card = this.findCardByFilePath(this.filteredEntries[targetIndex].file.path);
+		if (!card) return;
+
+		card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+		card.addClass('journal-card-highlight');
+		window.setTimeout(() => card.removeClass('journal-card-highlight'), 2000);
+	}
+
+	/**
+	 * 渲染"那年今日"面板（过去 N 年的同一天）
+	 */
+	private renderOnThisDay(headerEl: HTMLElement): void {
+		const options = this.getOnThisDayOptions();
+		// 只回顾所选日期范围内的条目（不受搜索和标签筛选影响）
+		const range = DateRangeFilter.resolve(this.dateRange);
+		const entries = range ? this.entries.filter(entry => DateRangeFilter.contains(range, entry.date)) : this.entries;
+		const groups = OnThisDayManager.getOnThisDayEntries(entries, options);
+		this.onThisDayRenderer.render(headerEl, groups, options.maxYears);
+	}
+
+	/**
+	 * 从插件设置读取连续记录规则
+	 */
+	private getStreakOptions(): StreakOptions {
+		const settings = this.plugin ? (this.plugin as any).settings : null;
+		return {
+			allowYesterdayStart: settings?.streakAllowYesterdayStart ?? DEFAULT_STREAK_OPTIONS.allowYesterdayStart,
+			graceDays: settings?.streakGraceDays ?? DEFAULT_STREAK_OPTIONS.graceDays,
+			dayRolloverHour: settings?.dayRolloverHour ?? DEFAULT_STREAK_OPTIONS.dayRolloverHour,
+		};
+	}
+
+	/**
+	 * 从插件设置读取写作目标
+	 */
+	private getWritingGoals(): WritingGoals {
+		const settings = this.plugin ? (this.plugin as any).settings : null;
+		return { ...DEFAULT_WRITING_GOALS, ...(settings?.writingGoals || {}) };
+	}
+
+	/**
+	 * 连续天数是否按"达成每日目标"计算
+	 */
+	private isGoalStreak(): boolean {
+		const settings = this.plugin ? (this.plugin as any).settings : null;
+		return settings?.streakMode === 'goal' && GoalTracker.hasDailyGoals(this.getWritingGoals());
+	}
+
+	/**
+	 * 计算连续天数（按设置使用普通规则或目标规则）
+	 */
+	private calculateStreak(entries: JournalEntry[]): number {
+		return this.isGoalStreak()
+			? GoalTracker.calculateGoalStreak(entries, this.getWritingGoals(), this.getStreakOptions())
+			: StatisticsCalculator.calculateConsecutiveDays(entries, this.getStreakOptions());
+	}
+
+	/**
+	 * 渲染写作目标进度环（目标按整个文件夹的条目计算，不受搜索和筛选影响）
+	 */
+	private renderGoalRings(goalContainer: HTMLElement): void {
+		const progress = GoalTracker.calculateProgress(this.entries, this.getWritingGoals(), this.getStreakOptions().dayRolloverHour);
+		GoalRingBuilder.buildRings(goalContainer, progress);
+	}
+
+	/**
+	 * 获取条目所在日期是否达成每日目标（null 表示没有设置每日目标）
+	 */
+	private getDayGoalMet(entry: JournalEntry): boolean | null {
+		const goals = this.getWritingGoals();
+		if (!GoalTracker.hasDailyGoals(goals)) return null;
+		// 与连续天数使用相同的日期分界时间，分界时间之前写的条目算作前一天
+		const { dayRolloverHour } = this.getStreakOptions();
+		if (!this.dailyGoalStatus) {
+			this.dailyGoalStatus = GoalTracker.calculateDailyGoalStatus(this.entries, goals, dayRolloverHour);
+		}
+		return this.dailyGoalStatus.get(formatDateKey(StatisticsCalculator.getStreakDay(entry.date, dayRolloverHour))) ?? false;
+	}
+
+	/**
+	 * 刷新已渲染卡片上的达标标记（同一天新增或修改条目后，其他卡片的状态也可能变化）
+	 */
+	private refreshGoalIndicators(): void {
+		if (!this.listContainer || this.renderedEntries.size === 0) return;
+		const entriesByPath = new Map(this.entries.map(entry => [entry.file.path, entry] as [string, JournalEntry]));
+		this.listContainer.querySelectorAll('.journal-card[data-file-path]').forEach((card) => {
+			const entry = entriesByPath.get(card.getAttribute('data-file-path') || '');
+			if (entry) {
+				this.cardBuilder.updateGoalIndicator(card as HTMLElement, this.getDayGoalMet(entry));
+			}
+		});
+	}
+
+	/**
+	 * 从插件设置读取"那年今日"配置
+	 */
+	private getOnThisDayOptions(): OnThisDayOptions {
+		const settings = this.plugin ? (this.plugin as any).settings : null;
+		return {
+			maxYears: settings?.onThisDayYears ?? 3,
+			rangeDays: settings?.onThisDayRangeDays ?? 0,
+			maxEntriesPerYear: settings?.onThisDayMaxEntriesPerYear ?? 5,
+		};
 	}
 
 	renderListPaginated(container: HTMLElement): void {
@@ -1246,7 +1770,20 @@ export class JournalView extends ItemView {
 		container.style.background = 'transparent';
 
 		logger.debug('renderListPaginated 被调用');
-		logger.debug(`总条目数: ${this.entries.length}, 每页: ${this.itemsPerPage}`);
+		logger.debug(`总条目数: ${this.filteredEntries.length}, 每页: ${this.itemsPerPage}`);
+
+		// 搜索或筛选没有结果
+		if (this.filteredEntries.length === 0 && this.hasActiveFilters()) {
+			container.createDiv({
+				cls: 'journal-search-empty',
+				text: this.searchTerms.length > 0
+					? t('search.noResults', { query: this.searchQuery.trim() })
+					: EntryFilter.isActive(this.filterState)
+						? t('filter.noResults')
+						: t('dateRange.noResults'),
+			});
+			return;
+		}
 
 		// 加载第一页（异步调用，但不等待）
 		this.loadMoreEntries(container).catch(error => {
@@ -1255,8 +1792,75 @@ export class JournalView extends ItemView {
 		});
 	}
 
+	/**
+	 * 切换视图模式（时间线 / 日历）
+	 * 只重新渲染，复用已加载的 this.entries
+	 */
+	private setViewMode(mode: JournalViewMode): void {
+		if (this.viewMode === mode) return;
+		this.viewMode = mode;
+		if (mode === 'calendar') {
+			this.calendarMonth = new Date();
+		}
+		this.render();
+		this.saveState();
+	}
+
+	/**
+	 * 切换排序方式
+	 * 重新排序已加载的条目并重新渲染，不重新扫描文件
+	 */
+	private setSortMode(mode: SortMode): void {
+		if (this.sortMode === mode) return;
+		this.sortMode = mode;
+		// 按字数排序前先计算准确的字数
+		const ready = EntrySorter.usesWordCount(mode) ? this.ensureWordCounts() : Promise.resolve(false);
+		ready.then(() => {
+			if (this.sortMode !== mode) return;
+			this.entries.sort(EntrySorter.getComparator(mode));
+			this.updateFilteredEntries();
+			this.render();
+			this.saveState();
+		}).catch(error => {
+			logger.error('切换排序方式失败:', error);
+		});
+	}
+
+	/**
+	 * 渲染日历视图（使用已加载的 this.entries，不重新扫描）
+	 */
+	private renderCalendar(): void {
+		if (!this.listContainer) return;
+
+		// 日历模式不需要分页加载
+		if (this.loadMoreObserver) {
+			this.loadMoreObserver.disconnect();
+			this.loadMoreObserver = null;
+		}
+		this.renderedEntries.clear();
+
+		this.calendarBuilder.buildMonthView(this.listContainer, this.filteredEntries, this.calendarMonth, {
+			onMonthChange: (offset) => {
+				if (offset === 0) {
+					this.calendarMonth = new Date();
+				} else {
+					this.calendarMonth = new Date(
+						this.calendarMonth.getFullYear(),
+						this.calendarMonth.getMonth() + offset,
+						1
+					);
+				}
+				this.renderCalendar();
+			},
+			onDayOpen: (date) => this.openDayDetail(date),
+		});
+	}
+
+	/**
+	 * 解析月份分组键（formatMonthKey 生成的 YYYY-MM）
+	 */
 	parseMonthKey(monthKey: string): Date {
-		const match = monthKey.match(/(\d{4})年(\d{1,2})月/);
+		const match = monthKey.match(/^(\d{4})-(\d{2})$/);
 		if (match) {
 			return new Date(parseInt(match[1]), parseInt(match[2]) - 1, 1);
 		}
@@ -1264,7 +1868,7 @@ export class JournalView extends ItemView {
 	}
 
 	async createJournalCard(entry: JournalEntry): Promise<HTMLElement> {
-		return this.cardBuilder.createJournalCard(entry);
+		return this.cardBuilder.createJournalCard(entry, this.searchTerms, this.getDayGoalMet(entry));
 	}
 
 	async refresh(): Promise<void> {
@@ -1334,6 +1938,25 @@ export class JournalView extends ItemView {
 	}
 
 	// 递归获取文件夹下的所有 Markdown 文件
+	private getTargetFiles(): TFile[] {
+		// 如果指定了目标文件夹，只扫描该文件夹
+		let files: TFile[] = [];
+		if (this.targetFolderPath) {
+			const targetFolder = this.app.vault.getAbstractFileByPath(this.targetFolderPath);
+			if (targetFolder instanceof TFolder) {
+				files = this.getMarkdownFilesInFolder(targetFolder);
+				logger.log(`扫描文件夹 ${this.targetFolderPath}，找到 ${files.length} 个 Markdown 文件`);
+			} else {
+				logger.log(`文件夹 ${this.targetFolderPath} 不存在，扫描整个 vault`);
+				files = this.app.vault.getMarkdownFiles();
+			}
+		} else {
+			files = this.app.vault.getMarkdownFiles();
+			logger.log(`找到 ${files.length} 个 Markdown 文件`);
+		}
+		return files;
+	}
+
 	private getMarkdownFilesInFolder(folder: TFolder): TFile[] {
 		const files: TFile[] = [];
 
@@ -1421,14 +2044,16 @@ export class JournalView extends ItemView {
 					.replace(/\{\{year\}\}/g, String(year))
 					.replace(/\{\{month\}\}/g, month)
 					.replace(/\{\{day\}\}/g, day)
-					.replace(/\{\{title\}\}/g, `${year}年${month}月${day}日`);
+					.replace(/\{\{time\}\}/g, formatTime(today))
+					.replace(/\{\{title\}\}/g, formatShortDate(today));
 			} else {
 				// 使用默认格式
 				fileContent = `---
 date: ${year}-${month}-${day}
+time: ${formatTime(today)}
 ---
 
-# ${year}年${month}月${day}日
+# ${formatShortDate(today)}
 
 `;
 			}
@@ -1611,25 +2236,29 @@ date: ${year}-${month}-${day}
 			const newEntry = await this.loadEntryMetadata(file);
 			if (!newEntry) {
 				logger.debug('新文件无法解析为条目，跳过:', file.path);
+				// 日历模式下可能刚移除了旧条目，需要重绘
+				if (this.viewMode === 'calendar') {
+					this.updateFilteredEntries();
+					this.renderCalendar();
+					this.updateStats();
+				}
 				return;
 			}
 
+			// 新增或修改的文件只有一个，直接计算准确的字数（排序、统计和写作目标都会用到）
+			await this.ensureWordCounts([newEntry]);
+
 			// 保存滚动位置
 			const scrollTop = this.saveScrollPosition();
 
-			// 将新条目插入到 entries 数组的正确位置（按日期和创建时间排序）
-			const insertIndex = this.entries.findIndex(entry => {
-				const dateDiff = entry.date.getTime() - newEntry.date.getTime();
-				if (dateDiff !== 0) {
-					return dateDiff < 0; // 新条目日期更新，应该插入到前面
-				}
-				// 日期相同，按创建时间排序
-				const ctimeDiff = entry.file.stat.ctime - newEntry.file.stat.ctime;
-				if (ctimeDiff !== 0) {
-					return ctimeDiff < 0; // 新条目创建时间更新，应该插入到前面
-				}
-				return false;
-			});
+			// 搜索时需要正文来判断新条目是否匹配
+			if (this.searchTerms.length > 0 && !EntrySearch.matchesMetadata(newEntry, this.searchTerms)) {
+				await this.loadEntryContent(newEntry);
+			}
+
+			// 将新条目插入到 entries 数组的正确位置（使用与初始排序相同的比较函数）
+			const comparator = EntrySorter.getComparator(this.sortMode);
+			const insertIndex = this.entries.findIndex(entry => comparator(newEntry, entry) < 0);
 
 			if (insertIndex === -1) {
 				// 应该插入到最后
@@ -1637,80 +2266,65 @@ date: ${year}-${month}-${day}
 			} else {
 				this.entries.splice(insertIndex, 0, newEntry);
 			}
+			this.updateFilteredEntries();
 
-			// 找到插入位置对应的月份分组
-			const entryDate = newEntry.date;
-			const monthKey = `${entryDate.getFullYear()}年${entryDate.getMonth() + 1}月`;
-			let monthSection = this.listContainer.querySelector(`.journal-month-section[data-month="${monthKey}"]`) as HTMLElement | null;
+			// 日历模式：直接重绘当前月份
+			if (this.viewMode === 'calendar') {
+				this.renderCalendar();
+				this.updateStats();
+				return;
+			}
 
-			if (!monthSection) {
-				// 如果月份分组不存在，创建它
-				monthSection = this.listContainer.createDiv('journal-month-section');
-				monthSection.setAttribute('data-month', monthKey);
-				
-				// 创建月份标题（与 renderEntriesBatch 中的格式一致）
-				const monthTitle = monthSection.createEl('h2', {
-					text: monthKey,
-					cls: 'journal-month-title',
-				});
+			// 不匹配当前搜索条件的条目不显示
+			if (!this.filteredEntries.includes(newEntry)) {
+				this.updateStats();
+				return;
+			}
 
-				// 找到正确的插入位置（按月份排序，最新的在前）
-				const existingSections = Array.from(this.listContainer.children) as HTMLElement[];
-				let insertBeforeIndex = -1;
-				for (let i = 0; i < existingSections.length; i++) {
-					const section = existingSections[i];
-					const sectionMonth = section.getAttribute('data-month');
-					if (sectionMonth) {
-						// 按月份排序，最新的在前
-						const sectionDate = this.parseMonthKey(sectionMonth);
-						const newDate = this.parseMonthKey(monthKey);
-						if (sectionDate.getTime() < newDate.getTime()) {
-							insertBeforeIndex = i;
-							break;
-						}
+			// 查找排在新条目之后、且已经渲染的第一张卡片，作为插入参照
+			let nextCard: HTMLElement | null = null;
+			if (insertIndex !== -1) {
+				for (let i = insertIndex + 1; i < this.entries.length; i++) {
+					const nextPath = this.entries[i].file.path;
+					if (this.renderedEntries.has(nextPath)) {
+						nextCard = this.findCardByFilePath(nextPath);
+						if (nextCard) break;
 					}
 				}
+			}
 
-				if (insertBeforeIndex >= 0) {
-					this.listContainer.insertBefore(monthSection, existingSections[insertBeforeIndex]);
-				} else {
-					this.listContainer.appendChild(monthSection);
-				}
+			// 新条目排在第一个未渲染的条目之后：交给分页加载渲染
+			// （排在它之前时，即使后面没有已渲染的卡片也要立即渲染，否则之后的分页从更靠后的位置开始，不会再渲染它）
+			const firstUnrenderedIndex = this.filteredEntries.findIndex(
+				entry => entry !== newEntry && !this.renderedEntries.has(entry.file.path)
+			);
+			if (!nextCard && firstUnrenderedIndex !== -1 && this.filteredEntries.indexOf(newEntry) > firstUnrenderedIndex) {
+				this.updateStats();
+				logger.debug('新条目位于未渲染的分页中，等待分页加载:', file.path);
+				return;
 			}
 
-			// 创建新卡片并插入到月份分组中
-			const card = await this.createJournalCard(newEntry);
-			
-			// 找到月份分组中正确的插入位置（按日期和创建时间排序）
-			// 跳过月份标题（第一个子元素）
-			const existingCards = Array.from(monthSection.children).slice(1) as HTMLElement[];
-			let cardInsertIndex = -1;
-			for (let i = 0; i < existingCards.length; i++) {
-				const existingCard = existingCards[i];
-				const existingPath = existingCard.getAttribute('data-file-path');
-				if (existingPath) {
-					const existingEntry = this.entries.find(e => e.file.path === existingPath);
-					if (existingEntry) {
-						const dateDiff = existingEntry.date.getTime() - newEntry.date.getTime();
-						if (dateDiff < 0) {
-							cardInsertIndex = i + 1; // +1 因为第一个是标题
-							break;
-						} else if (dateDiff === 0) {
-							const ctimeDiff = existingEntry.file.stat.ctime - newEntry.file.stat.ctime;
-							if (ctimeDiff < 0) {
-								cardInsertIndex = i + 1; // +1 因为第一个是标题
-								break;
-							}
-						}
-					}
-				}
+			// 找到新条目所属的分组
+			const groupKey = EntrySorter.getGroupKey(newEntry, this.sortMode);
+			let monthSection = this.listContainer.querySelector(`.journal-month-section[data-month="${groupKey}"]`) as HTMLElement | null;
+
+			if (!monthSection) {
+				// 如果分组不存在，创建它：放在下一张卡片所在分组之前，否则放在列表末尾（加载触发器之前）
+				monthSection = this.createMonthSection(groupKey);
+				const nextSection = nextCard?.closest('.journal-month-section') || null;
+				const trigger = this.listContainer.querySelector('.journal-load-more-trigger');
+				this.listContainer.insertBefore(monthSection, nextSection || trigger);
 			}
 
+			// 创建新卡片并插入到分组中（下一张卡片在同一分组时插在它前面，否则追加到分组末尾）
+			const card = await this.createJournalCard(newEntry);
+			this.renderedEntries.add(newEntry.file.path);
+
 			// 使用 requestAnimationFrame 批量插入，避免强制同步布局
 			requestAnimationFrame(() => {
 				if (!monthSection || !card) return;
-				if (cardInsertIndex >= 0 && cardInsertIndex < monthSection.children.length) {
-					monthSection.insertBefore(card, monthSection.children[cardInsertIndex]);
+				if (nextCard && nextCard.parentElement === monthSection) {
+					monthSection.insertBefore(card, nextCard);
 				} else {
 					monthSection.appendChild(card);
 				}
@@ -1743,10 +2357,10 @@ date: ${year}-${month}-${day}
 			return;
 		}
 
-		// 计算统计信息
-		const consecutiveDays = StatisticsCalculator.calculateConsecutiveDays(this.entries);
-		const totalWords = StatisticsCalculator.calculateTotalWords(this.entries);
-		const totalDays = StatisticsCalculator.calculateTotalDays(this.entries);
+		// 计算统计信息（搜索时只统计匹配的条目）
+		const consecutiveDays = this.calculateStreak(this.filteredEntries);
+		const totalWords = StatisticsCalculator.calculateTotalWords(this.filteredEntries);
+		const totalDays = StatisticsCalculator.calculateTotalDays(this.filteredEntries);
 
 		// 更新统计值
 		const statValues = statsEl.querySelectorAll('.journal-stat-value');
@@ -1755,6 +2369,39 @@ date: ${year}-${month}-${day}
 			statValues[1].textContent = this.formatNumber(totalWords);
 			statValues[2].textContent = this.formatNumber(totalDays);
 		}
+
+		// 更新搜索结果数量
+		const searchCountEl = this.contentEl.querySelector('.journal-search-count');
+		if (searchCountEl) {
+			this.updateSearchCount(searchCountEl);
+		}
+
+		// 更新目标进度和卡片上的达标标记
+		const goalContainer = statsEl.querySelector('.journal-goal-rings') as HTMLElement | null;
+		if (goalContainer) {
+			this.renderGoalRings(goalContainer);
+		}
+		this.refreshGoalIndicators();
+
+		// 更新筛选栏（标签和属性可能随文件变化）
+		const filterContainer = this.contentEl.querySelector('.journal-filter-container') as HTMLElement | null;
+		if (filterContainer) {
+			this.renderFilterBar(filterContainer);
+		}
+
+		// 更新热力图
+		const heatmapContainer = this.contentEl.querySelector('.journal-heatmap-container') as HTMLElement | null;
+		if (heatmapContainer) {
+			this.renderHeatmap(heatmapContainer);
+		}
+
+		// 更新那年今日面板（面板位于 header 末尾，移除后重新追加）
+		const onThisDayEl = this.contentEl.querySelector('.journal-on-this-day-container');
+		const headerEl = onThisDayEl?.parentElement;
+		if (onThisDayEl && headerEl) {
+			onThisDayEl.remove();
+			this.renderOnThisDay(headerEl);
+		}
 	}
 
 	/**
@@ -1769,9 +2416,13 @@ date: ${year}-${month}-${day}
 		const scrollTop = this.saveScrollPosition();
 
 		// 从 entries 数组中移除
-		const entryIndex = this.entries.findIndex(e => e.file.path === filePath);
-		if (entryIndex >= 0) {
-			this.entries.splice(entryIndex, 1);
+		this.removeEntryData(filePath);
+
+		// 日历模式：直接重绘当前月份
+		if (this.viewMode === 'calendar') {
+			this.renderCalendar();
+			this.updateStats();
+			return;
 		}
 
 		// 从 DOM 中移除对应的卡片
@@ -1784,8 +2435,8 @@ date: ${year}-${month}-${day}
 				if (card.parentElement) {
 					card.remove();
 
-					// 如果月份分组为空（只有月份标题），移除月份分组
-					if (monthSection && monthSection.children.length === 1) {
+					// 如果分组中已经没有卡片，移除分组
+					if (monthSection && !monthSection.querySelector('.journal-card')) {
 						monthSection.remove();
 					}
 				}
@@ -1801,6 +2452,19 @@ date: ${year}-${month}-${day}
 		logger.debug('增量删除条目成功:', filePath);
 	}
 
+	/**
+	 * 从 entries、filteredEntries 和已渲染记录中移除条目（不处理 DOM）
+	 */
+	private removeEntryData(filePath: string): void {
+		const entryIndex = this.entries.findIndex(e => e.file.path === filePath);
+		if (entryIndex >= 0) {
+			this.entries.splice(entryIndex, 1);
+		}
+		this.renderedEntries.delete(filePath);
+		this.wordCountCache.delete(filePath);
+		this.updateFilteredEntries();
+	}
+
 	/**
 	 * 增量更新：更新条目（用于文件修改或重命名）
 	 */
@@ -1811,48 +2475,31 @@ date: ${year}-${month}-${day}
 			return;
 		}
 
+		// 日历模式：没有卡片，直接替换 entries 中的旧条目后重绘
+		if (this.viewMode === 'calendar') {
+			this.removeEntryData(oldPath || file.path);
+			await this.incrementalAddEntry(file);
+			return;
+		}
+
 		try {
 			// 保存滚动位置
 			const scrollTop = this.saveScrollPosition();
 
-		// 如果是重命名，先移除旧条目
-		if (oldPath) {
-			// 同步移除，因为需要立即更新
-			const oldCard = this.findCardByFilePath(oldPath);
-			if (oldCard) {
-				const monthSection = oldCard.parentElement;
-				oldCard.remove();
-
-				// 从 entries 数组中移除旧条目
-				const entryIndex = this.entries.findIndex(e => e.file.path === oldPath);
-				if (entryIndex >= 0) {
-					this.entries.splice(entryIndex, 1);
-				}
-
-				// 如果月份分组为空，移除月份分组
-				if (monthSection && monthSection.children.length === 1) {
-					monthSection.remove();
-				}
-			}
-		} else {
-			// 如果是修改，移除旧卡片
-			const oldCard = this.findCardByFilePath(file.path);
-			if (oldCard) {
-				const monthSection = oldCard.parentElement;
-				oldCard.remove();
-
-				// 从 entries 数组中移除旧条目
-				const entryIndex = this.entries.findIndex(e => e.file.path === file.path);
-				if (entryIndex >= 0) {
-					this.entries.splice(entryIndex, 1);
-				}
-
-				// 如果月份分组为空，移除月份分组
-				if (monthSection && monthSection.children.length === 1) {
-					monthSection.remove();
-				}
+		// 移除旧条目（重命名时使用旧路径），卡片可能还没有被分页渲染
+		// 同步移除，因为需要立即更新
+		const pathToRemove = oldPath || file.path;
+		const oldCard = this.findCardByFilePath(pathToRemove);
+		if (oldCard) {
+			const monthSection = oldCard.parentElement;
+			oldCard.remove();
+
+			// 如果分组中已经没有卡片，移除分组
+			if (monthSection && !monthSection.querySelector('.journal-card')) {
+				monthSection.remove();
 			}
 		}
+		this.removeEntryData(pathToRemove);
 
 		// 重新加载条目并添加
 		// 使用 requestAnimationFrame 延迟，避免与移除操作冲突
@@ -0,0 +1,87 @@
+import { JournalEntry } from './utils';
+
+/**
+ * "那年今日"查询配置
+ */
+export interface OnThisDayOptions {
+	maxYears: number; // 最多回顾多少年（1-10）
+	rangeDays: number; // 模糊匹配范围（±N 天，0 表示精确匹配同月同日）
+	maxEntriesPerYear: number; // 每年最多显示多少条
+}
+
+/**
+ * 某一年的"那年今日"结果
+ */
+export interface OnThisDayGroup {
+	yearOffset: number; // 几年前（1 表示去年）
+	targetDate: Date; // 当年的同月同日
+	entries: JournalEntry[]; // 匹配的条目（已按限制截断）
+	totalCount: number; // 截断前的匹配数量
+}
+
+/**
+ * "那年今日"数据查询
+ * 负责从已加载的条目中筛选过去 N 年同一天（或前后若干天）的条目
+ */
+export class OnThisDayManager {
+	private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+	/**
+	 * 查询过去 N 年的同日条目
+	 * @param entries 所有条目
+	 * @param options 查询配置
+	 * @param today 基准日期（默认今天）
+	 * @returns 按年份分组的结果，最近的年份在前，没有匹配的年份不返回
+	 */
+	static getOnThisDayEntries(
+		entries: JournalEntry[],
+		options: OnThisDayOptions,
+		today: Date = new Date()
+	): OnThisDayGroup[] {
+		const groups: OnThisDayGroup[] = [];
+		const maxYears = Math.max(1, options.maxYears);
+		const rangeDays = Math.max(0, options.rangeDays);
+
+		for (let yearOffset = 1; yearOffset <= maxYears; yearOffset++) {
+			const targetDate = this.getTargetDate(today, yearOffset);
+			const targetTime = targetDate.getTime();
+
+			const matched = entries
+				.map((entry) => ({ entry, distance: this.getDayDistance(entry.date, targetTime) }))
+				.filter((item) => item.distance <= rangeDays)
+				// 离目标日期越近越靠前，距离相同时较新的在前
+				.sort((a, b) => a.distance - b.distance || b.entry.date.getTime() - a.entry.date.getTime());
+
+			if (matched.length > 0) {
+				groups.push({
+					yearOffset,
+					targetDate,
+					entries: matched.slice(0, Math.max(1, options.maxEntriesPerYear)).map((item) => item.entry),
+					totalCount: matched.length,
+				});
+			}
+		}
+
+		return groups;
+	}
+
+	/**
+	 * 计算 N 年前的同月同日
+	 * 闰年 2 月 29 日在非闰年对应 2 月 28 日
+	 */
+	private static getTargetDate(today: Date, yearOffset: number): Date {
+		const year = today.getFullYear() - yearOffset;
+		const month = today.getMonth();
+		const daysInMonth = new Date(year, month + 1, 0).getDate();
+		return new Date(year, month, Math.min(today.getDate(), daysInMonth));
+	}
+
+	/**
+	 * 计算条目日期与目标日期相差的天数（忽略时分秒）
+	 */
+	private static getDayDistance(date: Date, targetTime: number): number {
+		const day = new Date(date);
+		day.setHours(0, 0, 0, 0);
+		return Math.abs(Math.round((day.getTime() - targetTime) / this.DAY_MS));
+	}
+}
@@ -0,0 +1,138 @@
+import { App } from 'obsidian';
+import { JournalEntry, formatDate, getDisplayImages } from './utils';
+import { OnThisDayGroup } from './OnThisDayManager';
+import { t, formatShortDate } from './i18n';
+import { ThumbnailCache } from './ThumbnailCache';
+import { THUMBNAIL } from './constants';
+
+/**
+ * "那年今日"面板渲染器
+ * 按年份分组渲染，每个年份可以展开/折叠
+ */
+export class OnThisDayRenderer {
+	private app: App;
+	private thumbnailCache: ThumbnailCache | null;
+	// 用户手动切换过展开状态的年份（yearOffset -> 是否展开），重新渲染时保留
+	private expandedState: Map<number, boolean> = new Map();
+
+	private static readonly CALENDAR_ICON = `<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect><line x1="16" y1="2" x2="16" y2="6"></line><line x1="8" y1="2" x2="8" y2="6"></line><line x1="3" y1="10" x2="21" y2="10"></line></svg>`;
+
+	constructor(app: App, thumbnailCache: ThumbnailCache | null = null) {
+		this.app = app;
+		this.thumbnailCache = thumbnailCache;
+	}
+
+	/**
+	 * 渲染"那年今日"面板
+	 * @param container 父容器
+	 * @param groups 按年份分组的条目
+	 * @param maxYears 回顾的年数（用于空状态提示）
+	 */
+	render(container: HTMLElement, groups: OnThisDayGroup[], maxYears: number): void {
+		const panel = container.createDiv('journal-on-this-day-container');
+
+		if (groups.length === 0) {
+			const emptyCard = panel.createDiv('journal-on-this-day-empty');
+			const icon = emptyCard.createDiv('journal-on-this-day-empty-icon');
+			icon.innerHTML = OnThisDayRenderer.CALENDAR_ICON;
+			icon.style.color = '#999999';
+			const text = emptyCard.createEl('span', { cls: 'journal-on-this-day-empty-text' });
+			text.textContent = maxYears > 1
+				? t('onThisDay.emptyYears', { years: maxYears })
+				: t('onThisDay.emptyLastYear', { year: new Date().getFullYear() - 1 });
+			return;
+		}
+
+		const titleSection = panel.createDiv('journal-on-this-day-title');
+		const icon = titleSection.createDiv('journal-on-this-day-icon');
+		icon.innerHTML = OnThisDayRenderer.CALENDAR_ICON;
+		icon.style.color = '#3b82f6';
+		titleSection.createEl('span', { cls: 'journal-on-this-day-title-text', text: t('onThisDay.title') });
+
+		groups.forEach((group, index) => {
+			this.renderYearSection(panel, group, index === 0);
+		});
+	}
+
+	/**
+	 * 渲染单个年份分组（使用 details 实现展开/折叠）
+	 */
+	private renderYearSection(panel: HTMLElement, group: OnThisDayGroup, defaultExpanded: boolean): void {
+		const section = panel.createEl('details', { cls: 'journal-on-this-day-year' });
+		section.open = this.expandedState.get(group.yearOffset) ?? defaultExpanded;
+		section.addEventListener('toggle', () => {
+			this.expandedState.set(group.yearOffset, section.open);
+		});
+
+		const summary = section.createEl('summary', { cls: 'journal-on-this-day-year-header' });
+		const label = group.yearOffset === 1 ? t('onThisDay.lastYear') : t('onThisDay.yearsAgo', { count: group.yearOffset });
+		summary.createSpan({ cls: 'journal-on-this-day-year-label', text: label });
+		summary.createSpan({
+			cls: 'journal-on-this-day-year-date',
+			text: formatShortDate(group.targetDate),
+		});
+		summary.createSpan({ cls: 'journal-on-this-day-year-count', text: t('onThisDay.count', { count: group.totalCount }) });
+		summary.setAttribute('data-year-offset', String(Math.min(group.yearOffset, 3)));
+
+		const list = section.createDiv('journal-on-this-day-year-list');
+		for (const entry of group.entries) {
+			this.renderEntryCard(list, entry);
+		}
+
+		if (group.totalCount > group.entries.length) {
+			list.createDiv({
+				cls: 'journal-on-this-day-more',
+				text: t('onThisDay.more', { count: group.totalCount - group.entries.length }),
+			});
+		}
+	}
+
+	/**
+	 * 渲染单个条目卡片
+	 */
+	private renderEntryCard(list: HTMLElement, entry: JournalEntry): void {
+		const card = list.createDiv('journal-on-this-day-card');
+		card.setAttribute('role', 'button');
+		card.setAttribute('tabindex', '0');
+		card.setAttribute('aria-label', t('onThisDay.open', { date: formatDate(entry.date) }));
+
+		const openEntry = () => {
+			this.app.workspace.openLinkText(entry.file.path, '', true);
+		};
+		card.addEventListener('click', openEntry);
+		card.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter' || e.key === ' ') {
+				e.preventDefault();
+				openEntry();
+			}
+		});
+
+		const contentSection = card.createDiv('journal-on-this-day-content');
+
+		// 如果有图片，显示第一张图片
+		const image = getDisplayImages(entry)[0];
+		if (image) {
+			const imageContainer = contentSection.createDiv('journal-on-this-day-image');
+			const img = imageContainer.createEl('img');
+			if (this.thumbnailCache) {
+				this.thumbnailCache.load(img, image, THUMBNAIL.PANEL_WIDTH);
+			} else {
+				img.src = image.url;
+			}
+			img.alt = image.altText || entry.title;
+			img.loading = 'lazy';
+		}
+
+		const textSection = contentSection.createDiv('journal-on-this-day-text');
+		textSection.createDiv({ cls: 'journal-on-this-day-entry-title', text: entry.title });
+
+		if (entry.preview) {
+			const preview = textSection.createDiv('journal-on-this-day-preview');
+			preview.textContent = entry.preview.length > 100
+				? entry.preview.substring(0, 100) + '...'
+				: entry.preview;
+		}
+
+		textSection.createDiv({ cls: 'journal-on-this-day-entry-date', text: formatDate(entry.date) });
+	}
+}
@@ -0,0 +1,88 @@
+import { loadPdfJs } from 'obsidian';
+import { PDF_RENDER } from './constants';
+import { logger } from './logger';
+
+/**
+ * PDF 渲染器
+ * 使用 Obsidian 自带的 pdf.js 渲染第一页缩略图（用于卡片）和逐页画布（用于全屏查看器）
+ */
+export class PdfRenderer {
+	// 缩略图缓存：资源 URL（包含修改时间）-> 图片 data URL，文件修改后 URL 变化，自动重新渲染
+	private static thumbnails = new Map<string, Promise<string | null>>();
+
+	/**
+	 * 获取第一页缩略图
+	 * @param url PDF 的资源 URL（app.vault.getResourcePath 的结果）
+	 * @returns 图片 data URL，渲染失败时返回 null
+	 */
+	static getThumbnail(url: string): Promise<string | null> {
+		let thumbnail = this.thumbnails.get(url);
+		if (!thumbnail) {
+			thumbnail = this.renderThumbnail(url);
+			this.thumbnails.set(url, thumbnail);
+		}
+		return thumbnail;
+	}
+
+	/**
+	 * 把 PDF 的每一页依次渲染到容器中（页数超过上限时只渲染前面的页）
+	 * @param isCancelled 返回 true 时停止渲染（例如查看器已切换到其他附件）
+	 */
+	static async renderPages(url: string, container: HTMLElement, isCancelled: () => boolean): Promise<void> {
+		const doc = await this.loadDocument(url);
+		try {
+			const pageCount = Math.min(doc.numPages, PDF_RENDER.MAX_PAGES);
+			for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+				if (isCancelled()) return;
+				const canvas = await this.renderPage(doc, pageNumber, PDF_RENDER.PAGE_WIDTH * window.devicePixelRatio);
+				canvas.addClass('journal-pdf-page');
+				container.appendChild(canvas);
+			}
+		} finally {
+			doc.destroy();
+		}
+	}
+
+	private static async renderThumbnail(url: string): Promise<string | null> {
+		try {
+			const doc = await this.loadDocument(url);
+			try {
+				const canvas = await this.renderPage(doc, 1, PDF_RENDER.THUMBNAIL_WIDTH);
+				return canvas.toDataURL('image/jpeg', 0.85);
+			} finally {
+				doc.destroy();
+			}
+		} catch (error) {
+			logger.error(`渲染 PDF 缩略图失败 ${url}:`, error);
+			// 失败后允许重试
+			this.thumbnails.delete(url);
+			return null;
+		}
+	}
+
+	private static async loadDocument(url: string): Promise<any> {
+		const pdfjs = await loadPdfJs();
+		const response = await fetch(url);
+		const data = new Uint8Array(await response.arrayBuffer());
+		return pdfjs.getDocument({ data }).promise;
+	}
+
+	/**
+	 * 按指定宽度（像素）渲染一页
+	 */
+	private static async renderPage(doc: any, pageNumber: number, width: number): Promise<HTMLCanvasElement> {
+		const page = await doc.getPage(pageNumber);
+		const baseViewport = page.getViewport({ scale: 1 });
+		const viewport = page.getViewport({ scale: width / baseViewport.width });
+
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.floor(viewport.width);
+		canvas.height = Math.floor(viewport.height);
+		const context = canvas.getContext('2d')!;
+		// PDF 页面可能没有背景，缩略图保存为 JPEG 时需要白底
+		context.fillStyle = '#ffffff';
+		context.fillRect(0, 0, canvas.width, canvas.height);
+		await page.render({ canvasContext: context, viewport }).promise;
+		return canvas;
+	}
+}
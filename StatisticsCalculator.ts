@@ -1,4 +1,46 @@
-import { JournalEntry } from './utils';
+import { JournalEntry, formatDateKey, getImageAttachments } from './utils';
+
+/**
+ * 单日统计数据
+ */
+export interface DailyStat {
+	date: Date; // 当天 0 点
+	entryCount: number;
+	wordCount: number;
+}
+
+/**
+ * 连续记录规则
+ */
+export interface StreakOptions {
+	allowYesterdayStart: boolean; // 今天还没有记录时从昨天开始计算，不把连续天数清零
+	graceDays: number; // 允许中断的天数（两次记录之间最多空几天仍算连续）
+	dayRolloverHour: number; // 日期分界时间（0-23），在此之前写的手记算作前一天
+}
+
+export const DEFAULT_STREAK_OPTIONS: StreakOptions = {
+	allowYesterdayStart: true,
+	graceDays: 0,
+	dayRolloverHour: 0,
+};
+
+/**
+ * 年度统计数据
+ */
+export interface YearStat {
+	year: number;
+	entryCount: number;
+	wordCount: number;
+	dayCount: number; // 写手记天数
+}
+
+/**
+ * 标签使用次数
+ */
+export interface TagStat {
+	tag: string;
+	count: number;
+}
 
 /**
  * 统计计算器
@@ -7,38 +49,37 @@ import { JournalEntry } from './utils';
 export class StatisticsCalculator {
 	/**
 	 * 计算连续记录天数
-	 * 从今天开始往前计算连续有记录的日期
+	 * 从今天（或按规则从昨天）开始往前计算连续有记录的日期
+	 * @param options 连续记录规则
+	 * @param now 当前时间（默认现在）
 	 */
-	static calculateConsecutiveDays(entries: JournalEntry[]): number {
-		if (entries.length === 0) return 0;
+	static calculateConsecutiveDays(
+		entries: JournalEntry[],
+		options: StreakOptions = DEFAULT_STREAK_OPTIONS,
+		now: Date = new Date()
+	): number {
+		const days = this.getStreakDays(entries, options.dayRolloverHour);
+		if (days.length === 0) return 0;
 
-		// 获取所有日期并去重
-		const dates = new Set(
-			entries.map((e) => {
-				const d = new Date(e.date);
-				d.setHours(0, 0, 0, 0);
-				return d.getTime();
-			})
-		);
+		const today = this.getStreakDay(now, options.dayRolloverHour);
+		const graceDays = Math.max(0, options.graceDays);
 
-		const sortedDates = Array.from(dates).sort((a, b) => b - a);
-		if (sortedDates.length === 0) return 0;
+		// 今天还没有记录时，允许从昨天开始计算（再加上宽限天数）
+		let allowedGap = graceDays + (options.allowYesterdayStart ? 1 : 0);
+		let cursor = today.getTime();
+		let consecutive = 0;
 
-		// 从今天开始计算连续天数
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		const todayTime = today.getTime();
+		for (const day of days) {
+			const dayTime = day.getTime();
+			if (dayTime > cursor) continue; // 未来日期不计入
 
-		let consecutive = 0;
-		let currentDate = todayTime;
-
-		for (const dateTime of sortedDates) {
-			if (dateTime === currentDate) {
-				consecutive++;
-				currentDate -= 24 * 60 * 60 * 1000; // 减一天
-			} else if (dateTime < currentDate) {
-				break;
-			}
+			const gap = this.getDayDiff(cursor, dayTime);
+			if (gap > allowedGap) break;
+
+			consecutive++;
+			// 下一个记录日最多可以间隔 graceDays 天
+			cursor = dayTime;
+			allowedGap = graceDays + 1;
 		}
 
 		return consecutive;
@@ -72,6 +113,179 @@ export class StatisticsCalculator {
 	 * 计算总图片数
 	 */
 	static calculateTotalImages(entries: JournalEntry[]): number {
-		return entries.reduce((sum, e) => sum + e.images.length, 0);
+		return entries.reduce((sum, e) => sum + getImageAttachments(e).length, 0);
+	}
+
+	/**
+	 * 按天汇总条目数和字数
+	 * @param dayRolloverHour 日期分界时间，与连续天数的规则一致（默认 0，按日历日汇总）
+	 * @returns 日期键（YYYY-MM-DD）-> 单日统计
+	 */
+	static calculateDailyStats(entries: JournalEntry[], dayRolloverHour: number = 0): Map<string, DailyStat> {
+		const stats = new Map<string, DailyStat>();
+
+		for (const entry of entries) {
+			const day = this.getStreakDay(entry.date, dayRolloverHour);
+			const key = formatDateKey(day);
+			let stat = stats.get(key);
+			if (!stat) {
+				stat = { date: day, entryCount: 0, wordCount: 0 };
+				stats.set(key, stat);
+			}
+			stat.entryCount++;
+			stat.wordCount += entry.wordCount;
+		}
+
+		return stats;
+	}
+
+	/**
+	 * 计算历史最长连续记录天数（宽限天数和日期分界时间与当前连续天数的规则一致）
+	 */
+	static calculateLongestStreak(entries: JournalEntry[], options: StreakOptions = DEFAULT_STREAK_OPTIONS): number {
+		// getStreakDays 返回降序，这里按升序遍历
+		const days = this.getStreakDays(entries, options.dayRolloverHour).reverse();
+		const graceDays = Math.max(0, options.graceDays);
+
+		let longest = 0;
+		let current = 0;
+		let previous: Date | null = null;
+		for (const day of days) {
+			const continues = previous !== null && this.getDayDiff(day.getTime(), previous.getTime()) <= graceDays + 1;
+			current = continues ? current + 1 : 1;
+			longest = Math.max(longest, current);
+			previous = day;
+		}
+
+		return longest;
+	}
+
+	/**
+	 * 计算平均每篇字数（四舍五入）
+	 */
+	static calculateAverageWordsPerEntry(entries: JournalEntry[]): number {
+		if (entries.length === 0) return 0;
+		return Math.round(this.calculateTotalWords(entries) / entries.length);
+	}
+
+	/**
+	 * 计算平均每个写作日的字数（四舍五入）
+	 */
+	static calculateAverageWordsPerDay(entries: JournalEntry[]): number {
+		const totalDays = this.calculateTotalDays(entries);
+		if (totalDays === 0) return 0;
+		return Math.round(this.calculateTotalWords(entries) / totalDays);
+	}
+
+	/**
+	 * 按星期统计条目数（使用文件创建时间）
+	 * @returns 长度为 7 的数组，索引 0 为周一，6 为周日
+	 */
+	static calculateWeekdayDistribution(entries: JournalEntry[]): number[] {
+		const counts = new Array(7).fill(0);
+		for (const entry of entries) {
+			const weekday = new Date(entry.file.stat.ctime).getDay();
+			counts[(weekday + 6) % 7]++;
+		}
+		return counts;
+	}
+
+	/**
+	 * 按小时统计条目数（使用文件创建时间）
+	 * @returns 长度为 24 的数组，索引为小时（0-23）
+	 */
+	static calculateHourDistribution(entries: JournalEntry[]): number[] {
+		const counts = new Array(24).fill(0);
+		for (const entry of entries) {
+			counts[new Date(entry.file.stat.ctime).getHours()]++;
+		}
+		return counts;
+	}
+
+	/**
+	 * 计算指定年份每个月的字数
+	 * @returns 长度为 12 的数组，索引 0 为 1 月
+	 */
+	static calculateMonthlyWords(entries: JournalEntry[], year: number): number[] {
+		const words = new Array(12).fill(0);
+		for (const entry of entries) {
+			if (entry.date.getFullYear() === year) {
+				words[entry.date.getMonth()] += entry.wordCount;
+			}
+		}
+		return words;
+	}
+
+	/**
+	 * 按年份汇总（用于逐年对比，最近的年份在前）
+	 */
+	static calculateYearlyStats(entries: JournalEntry[]): YearStat[] {
+		return this.getEntryYears(entries).map((year) => {
+			const yearEntries = entries.filter((e) => e.date.getFullYear() === year);
+			return {
+				year,
+				entryCount: yearEntries.length,
+				wordCount: this.calculateTotalWords(yearEntries),
+				dayCount: this.calculateTotalDays(yearEntries),
+			};
+		});
+	}
+
+	/**
+	 * 统计最常用的标签
+	 * @param limit 最多返回的标签数
+	 */
+	static calculateTopTags(entries: JournalEntry[], limit: number = 10): TagStat[] {
+		const counts = new Map<string, number>();
+		for (const entry of entries) {
+			for (const tag of entry.tags) {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			}
+		}
+		return Array.from(counts.entries())
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+			.slice(0, limit);
+	}
+
+	/**
+	 * 获取用于计算连续天数的记录日（去重，降序）
+	 */
+	private static getStreakDays(entries: JournalEntry[], dayRolloverHour: number): Date[] {
+		const days = new Map<number, Date>();
+		for (const entry of entries) {
+			const day = this.getStreakDay(entry.date, dayRolloverHour);
+			days.set(day.getTime(), day);
+		}
+		return Array.from(days.values()).sort((a, b) => b.getTime() - a.getTime());
+	}
+
+	/**
+	 * 获取时间所属的记录日（当天 0 点）
+	 * 只有带具体时间的日期才按分界时间归到前一天；只有日期的条目（例如从文件名解析）保持原日期
+	 */
+	static getStreakDay(date: Date, dayRolloverHour: number): Date {
+		const day = new Date(date);
+		const hasTime = day.getHours() !== 0 || day.getMinutes() !== 0 || day.getSeconds() !== 0 || day.getMilliseconds() !== 0;
+		if (hasTime && day.getHours() < dayRolloverHour) {
+			day.setDate(day.getDate() - 1);
+		}
+		day.setHours(0, 0, 0, 0);
+		return day;
+	}
+
+	/**
+	 * 计算两个日期（0 点）之间相差的天数（later - earlier）
+	 */
+	private static getDayDiff(later: number, earlier: number): number {
+		return Math.round((later - earlier) / (24 * 60 * 60 * 1000));
+	}
+
+	/**
+	 * 获取条目覆盖的所有年份（降序）
+	 */
+	static getEntryYears(entries: JournalEntry[]): number[] {
+		const years = new Set(entries.map((e) => e.date.getFullYear()));
+		return Array.from(years).sort((a, b) => b - a);
 	}
 }
@@ -0,0 +1,83 @@
+import { t } from './i18n';
+
+/**
+ * 柱状图数据点
+ */
+export interface ChartDatum {
+	label: string; // 横轴标签
+	value: number;
+	tooltip?: string; // 鼠标悬停提示（默认为"标签：数值"）
+}
+
+/**
+ * 统计图表构建器
+ * 使用内联 SVG 绘制简单的柱状图，不依赖第三方图表库
+ */
+export class StatisticsChartBuilder {
+	private static readonly SVG_NS = 'http://www.w3.org/2000/svg';
+	private static readonly BAR_SLOT = 24; // 每根柱子占用的宽度（viewBox 单位）
+	private static readonly BAR_GAP = 6; // 柱子之间的间距
+	private static readonly CHART_HEIGHT = 120; // 柱子区域高度
+	private static readonly LABEL_HEIGHT = 18; // 横轴标签高度
+
+	/**
+	 * 构建柱状图
+	 * @param container 父容器
+	 * @param data 数据点
+	 * @param labelEvery 每隔几个数据点显示一次横轴标签（数据点较多时避免重叠）
+	 */
+	static buildBarChart(container: HTMLElement, data: ChartDatum[], labelEvery: number = 1): SVGSVGElement {
+		const width = data.length * this.BAR_SLOT;
+		const height = this.CHART_HEIGHT + this.LABEL_HEIGHT;
+		const maxValue = Math.max(0, ...data.map((d) => d.value));
+
+		const svg = document.createElementNS(this.SVG_NS, 'svg');
+		svg.setAttribute('class', 'journal-chart');
+		svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+		svg.setAttribute('role', 'img');
+
+		// 基线
+		const baseline = document.createElementNS(this.SVG_NS, 'line');
+		baseline.setAttribute('class', 'journal-chart-baseline');
+		baseline.setAttribute('x1', '0');
+		baseline.setAttribute('x2', String(width));
+		baseline.setAttribute('y1', String(this.CHART_HEIGHT));
+		baseline.setAttribute('y2', String(this.CHART_HEIGHT));
+		svg.appendChild(baseline);
+
+		data.forEach((datum, index) => {
+			const x = index * this.BAR_SLOT + this.BAR_GAP / 2;
+			const barWidth = this.BAR_SLOT - this.BAR_GAP;
+			// 有数据时至少显示 2 个单位高度，避免很小的值看不见
+			const barHeight = maxValue > 0 && datum.value > 0
+				? Math.max(2, (datum.value / maxValue) * (this.CHART_HEIGHT - 4))
+				: 0;
+
+			const bar = document.createElementNS(this.SVG_NS, 'rect');
+			bar.setAttribute('class', 'journal-chart-bar');
+			bar.setAttribute('x', String(x));
+			bar.setAttribute('y', String(this.CHART_HEIGHT - barHeight));
+			bar.setAttribute('width', String(barWidth));
+			bar.setAttribute('height', String(barHeight));
+			bar.setAttribute('rx', '2');
+
+			const title = document.createElementNS(this.SVG_NS, 'title');
+			title.textContent = datum.tooltip ?? t('common.labelValue', { label: datum.label, value: datum.value });
+			bar.appendChild(title);
+			svg.appendChild(bar);
+
+			if (index % labelEvery === 0) {
+				const label = document.createElementNS(this.SVG_NS, 'text');
+				label.setAttribute('class', 'journal-chart-label');
+				label.setAttribute('x', String(index * this.BAR_SLOT + this.BAR_SLOT / 2));
+				label.setAttribute('y', String(height - 4));
+				label.setAttribute('text-anchor', 'middle');
+				label.textContent = datum.label;
+				svg.appendChild(label);
+			}
+		});
+
+		container.appendChild(svg);
+		return svg;
+	}
+}
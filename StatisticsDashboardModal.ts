@@ -0,0 +1,189 @@
+import { App, Modal } from 'obsidian';
+import { JournalEntry } from './utils';
+import { StatisticsCalculator, StreakOptions } from './StatisticsCalculator';
+import { StatisticsChartBuilder } from './StatisticsChartBuilder';
+import { t, formatMonth, formatYear, getWeekdayHeaders, weekdayName } from './i18n';
+
+/**
+ * 统计面板
+ * 展示比 header 更详细的统计：最长连续天数、平均字数、星期/时段分布、每月字数、逐年对比和常用标签
+ */
+export class StatisticsDashboardModal extends Modal {
+	private entries: JournalEntry[];
+	private streakOptions: StreakOptions;
+	private chartYear: number;
+
+	/**
+	 * @param entries 要统计的条目（当前视图中经过日期范围和筛选后的条目）
+	 * @param streakOptions 连续记录规则
+	 */
+	constructor(app: App, entries: JournalEntry[], streakOptions: StreakOptions) {
+		super(app);
+		this.entries = entries;
+		this.streakOptions = streakOptions;
+		this.chartYear = StatisticsCalculator.getEntryYears(entries)[0] ?? new Date().getFullYear();
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('journal-stats-dashboard-modal');
+		this.titleEl.setText(t('dashboard.title'));
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('journal-stats-dashboard');
+
+		if (this.entries.length === 0) {
+			contentEl.createDiv({ cls: 'journal-stats-dashboard-empty', text: t('dashboard.empty') });
+			return;
+		}
+
+		this.renderSummary(contentEl);
+		this.renderMonthlyWords(contentEl);
+		this.renderYearOverYear(contentEl);
+		this.renderDistributions(contentEl);
+		this.renderTopTags(contentEl);
+	}
+
+	/**
+	 * 概览数字
+	 */
+	private renderSummary(container: HTMLElement): void {
+		const grid = container.createDiv('journal-stats-dashboard-summary');
+		const items: { label: string; value: number }[] = [
+			{ label: t('dashboard.currentStreak'), value: StatisticsCalculator.calculateConsecutiveDays(this.entries, this.streakOptions) },
+			{ label: t('dashboard.longestStreak'), value: StatisticsCalculator.calculateLongestStreak(this.entries, this.streakOptions) },
+			{ label: t('dashboard.entryCount'), value: this.entries.length },
+			{ label: t('dashboard.dayCount'), value: StatisticsCalculator.calculateTotalDays(this.entries) },
+			{ label: t('dashboard.totalWords'), value: StatisticsCalculator.calculateTotalWords(this.entries) },
+			{ label: t('dashboard.avgWordsPerEntry'), value: StatisticsCalculator.calculateAverageWordsPerEntry(this.entries) },
+			{ label: t('dashboard.avgWordsPerDay'), value: StatisticsCalculator.calculateAverageWordsPerDay(this.entries) },
+			{ label: t('dashboard.images'), value: StatisticsCalculator.calculateTotalImages(this.entries) },
+		];
+
+		for (const item of items) {
+			const itemEl = grid.createDiv('journal-stats-dashboard-item');
+			itemEl.createDiv({ cls: 'journal-stats-dashboard-value', text: item.value.toLocaleString() });
+			itemEl.createDiv({ cls: 'journal-stats-dashboard-label', text: item.label });
+		}
+	}
+
+	/**
+	 * 每月字数柱状图（可切换年份）
+	 */
+	private renderMonthlyWords(container: HTMLElement): void {
+		const section = this.createSection(container, t('dashboard.monthlyWords'));
+
+		const years = StatisticsCalculator.getEntryYears(this.entries);
+		if (years.length > 1) {
+			const yearSelect = section.titleEl.createEl('select', { cls: 'dropdown journal-stats-dashboard-year-select' });
+			yearSelect.setAttribute('aria-label', t('common.selectYear'));
+			for (const year of years) {
+				const option = yearSelect.createEl('option', { text: formatYear(year), value: String(year) });
+				if (year === this.chartYear) option.selected = true;
+			}
+			yearSelect.addEventListener('change', () => {
+				this.chartYear = parseInt(yearSelect.value);
+				this.render();
+			});
+		}
+
+		const words = StatisticsCalculator.calculateMonthlyWords(this.entries, this.chartYear);
+		StatisticsChartBuilder.buildBarChart(section.bodyEl, words.map((value, index) => ({
+			label: `${index + 1}`,
+			value,
+			tooltip: t('dashboard.monthTooltip', { month: formatMonth(new Date(this.chartYear, index, 1)), count: value.toLocaleString() }),
+		})));
+	}
+
+	/**
+	 * 逐年对比表格
+	 */
+	private renderYearOverYear(container: HTMLElement): void {
+		const yearlyStats = StatisticsCalculator.calculateYearlyStats(this.entries);
+		if (yearlyStats.length === 0) return;
+
+		const section = this.createSection(container, t('dashboard.yearOverYear'));
+		const table = section.bodyEl.createEl('table', { cls: 'journal-stats-dashboard-table' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		for (const label of [t('dashboard.colYear'), t('dashboard.colEntries'), t('dashboard.colDays'), t('dashboard.colWords'), t('dashboard.colChange')]) {
+			headerRow.createEl('th', { text: label });
+		}
+
+		const tbody = table.createEl('tbody');
+		yearlyStats.forEach((stat, index) => {
+			const row = tbody.createEl('tr');
+			row.createEl('td', { text: `${stat.year}` });
+			row.createEl('td', { text: stat.entryCount.toLocaleString() });
+			row.createEl('td', { text: stat.dayCount.toLocaleString() });
+			row.createEl('td', { text: stat.wordCount.toLocaleString() });
+
+			// 与上一年比较（列表按年份降序，上一年在后面）
+			const previous = yearlyStats[index + 1];
+			const changeCell = row.createEl('td');
+			if (previous && previous.year === stat.year - 1 && previous.wordCount > 0) {
+				const change = Math.round(((stat.wordCount - previous.wordCount) / previous.wordCount) * 100);
+				changeCell.textContent = `${change > 0 ? '+' : ''}${change}%`;
+				changeCell.addClass(change >= 0 ? 'is-positive' : 'is-negative');
+			} else {
+				changeCell.textContent = '-';
+			}
+		});
+	}
+
+	/**
+	 * 星期和时段分布（按文件创建时间）
+	 */
+	private renderDistributions(container: HTMLElement): void {
+		const weekdays = StatisticsCalculator.calculateWeekdayDistribution(this.entries);
+		const weekdaySection = this.createSection(container, t('dashboard.weekdays'));
+		const weekdayLabels = getWeekdayHeaders();
+		StatisticsChartBuilder.buildBarChart(weekdaySection.bodyEl, weekdays.map((value, index) => ({
+			label: weekdayLabels[index],
+			value,
+			// 分布从周一开始，index 6 为周日
+			tooltip: t('dashboard.weekdayTooltip', { weekday: weekdayName((index + 1) % 7), count: value }),
+		})));
+
+		const hours = StatisticsCalculator.calculateHourDistribution(this.entries);
+		const hourSection = this.createSection(container, t('dashboard.hours'));
+		StatisticsChartBuilder.buildBarChart(hourSection.bodyEl, hours.map((value, hour) => ({
+			label: `${hour}`,
+			value,
+			tooltip: t('dashboard.hourTooltip', { hour, count: value }),
+		})), 3);
+	}
+
+	/**
+	 * 常用标签
+	 */
+	private renderTopTags(container: HTMLElement): void {
+		const topTags = StatisticsCalculator.calculateTopTags(this.entries);
+		if (topTags.length === 0) return;
+
+		const section = this.createSection(container, t('dashboard.topTags'));
+		const list = section.bodyEl.createDiv('journal-stats-dashboard-tags');
+		const maxCount = topTags[0].count;
+		for (const { tag, count } of topTags) {
+			const row = list.createDiv('journal-stats-dashboard-tag');
+			row.createSpan({ cls: 'journal-stats-dashboard-tag-name', text: `#${tag}` });
+			const bar = row.createDiv('journal-stats-dashboard-tag-bar');
+			bar.createDiv('journal-stats-dashboard-tag-fill').style.width = `${(count / maxCount) * 100}%`;
+			row.createSpan({ cls: 'journal-stats-dashboard-tag-count', text: String(count) });
+		}
+	}
+
+	private createSection(container: HTMLElement, title: string): { titleEl: HTMLElement; bodyEl: HTMLElement } {
+		const section = container.createDiv('journal-stats-dashboard-section');
+		const titleEl = section.createDiv('journal-stats-dashboard-section-title');
+		titleEl.createSpan({ text: title });
+		const bodyEl = section.createDiv('journal-stats-dashboard-section-body');
+		return { titleEl, bodyEl };
+	}
+}
@@ -0,0 +1,190 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ImageInfo } from './utils';
+import { THUMBNAIL } from './constants';
+import { logger } from './logger';
+
+/**
+ * 缩略图缓存
+ * 用 canvas 把 vault 中的图片缩小到几个固定尺寸，保存在插件数据目录中，
+ * 文件名包含原图路径的哈希、修改时间和尺寸，原图修改或删除后清除对应的缩略图
+ */
+export class ThumbnailCache {
+	private app: App;
+	private dir: string;
+	private cachedNames: Set<string> | null = null; // 已缓存的缩略图文件名
+	private indexPromise: Promise<void> | null = null;
+	private pending = new Map<string, Promise<string | null>>(); // 正在生成的缩略图（文件名 -> 资源 URL）
+	private queue: (() => void)[] = []; // 等待生成的任务
+	private activeCount = 0;
+
+	/**
+	 * @param dir 缩略图目录（相对于 vault 根目录）
+	 */
+	constructor(app: App, dir: string) {
+		this.app = app;
+		this.dir = normalizePath(dir);
+	}
+
+	/**
+	 * 为 img 加载缩略图，不能生成缩略图时加载原图
+	 * @param displayWidth 图片显示宽度（CSS 像素）
+	 */
+	async load(img: HTMLImageElement, image: ImageInfo, displayWidth: number): Promise<void> {
+		let url: string | null = null;
+		try {
+			url = await this.getThumbnailUrl(image, displayWidth);
+		} catch (error) {
+			logger.error(`生成缩略图失败 ${image.path}:`, error);
+		}
+		img.src = url ?? image.url;
+	}
+
+	/**
+	 * 获取缩略图的资源 URL（没有缓存时生成）
+	 * 外部图片、SVG、GIF（可能是动图）和非图片附件返回 null，使用原图
+	 */
+	async getThumbnailUrl(image: ImageInfo, displayWidth: number): Promise<string | null> {
+		if (image.isRemote || image.type !== 'image') return null;
+
+		const file = this.app.vault.getAbstractFileByPath(image.path);
+		if (!(file instanceof TFile)) return null;
+		if ((THUMBNAIL.SKIP_EXTENSIONS as readonly string[]).includes(file.extension.toLowerCase())) return null;
+
+		const size = this.pickSize(displayWidth * window.devicePixelRatio);
+		const name = `${this.hashPath(file.path)}-${file.stat.mtime}-${size}.webp`;
+
+		await this.ensureIndex();
+		if (this.cachedNames?.has(name)) {
+			return this.app.vault.adapter.getResourcePath(`${this.dir}/${name}`);
+		}
+
+		let pending = this.pending.get(name);
+		if (!pending) {
+			pending = this.enqueue(() => this.generate(file, size, name))
+				.finally(() => this.pending.delete(name));
+			this.pending.set(name, pending);
+		}
+		return pending;
+	}
+
+	/**
+	 * 删除某个原图的所有缩略图（原图修改、删除或重命名时调用）
+	 */
+	async invalidate(path: string): Promise<void> {
+		// 还没有读取目录且目录不存在时没有缩略图可删除，不创建目录
+		if (!this.indexPromise && !(await this.app.vault.adapter.exists(this.dir))) return;
+		await this.ensureIndex();
+		if (!this.cachedNames) return;
+
+		const prefix = `${this.hashPath(path)}-`;
+		const names = Array.from(this.cachedNames).filter(name => name.startsWith(prefix));
+		for (const name of names) {
+			this.cachedNames.delete(name);
+			try {
+				await this.app.vault.adapter.remove(`${this.dir}/${name}`);
+			} catch (error) {
+				logger.error(`删除缩略图失败 ${name}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * 清空所有缩略图
+	 */
+	async clear(): Promise<void> {
+		const { adapter } = this.app.vault;
+		if (await adapter.exists(this.dir)) {
+			await adapter.rmdir(this.dir, true);
+		}
+		this.cachedNames = new Set();
+		this.indexPromise = null;
+	}
+
+	/**
+	 * 第一次使用时读取目录中已有的缩略图（目录不存在时创建）
+	 */
+	private ensureIndex(): Promise<void> {
+		if (!this.indexPromise) {
+			this.indexPromise = (async () => {
+				const { adapter } = this.app.vault;
+				const names = new Set<string>();
+				if (await adapter.exists(this.dir)) {
+					const listed = await adapter.list(this.dir);
+					for (const filePath of listed.files) {
+						names.add(filePath.split('/').pop() || filePath);
+					}
+				} else {
+					await adapter.mkdir(this.dir);
+				}
+				this.cachedNames = names;
+			})();
+		}
+		return this.indexPromise;
+	}
+
+	/**
+	 * 限制同时生成的缩略图数量，避免一次解码太多原图（移动端内存有限）
+	 */
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			const run = () => {
+				this.activeCount++;
+				task().then(resolve, reject).finally(() => {
+					this.activeCount--;
+					this.queue.shift()?.();
+				});
+			};
+			if (this.activeCount < THUMBNAIL.MAX_CONCURRENT) {
+				run();
+			} else {
+				this.queue.push(run);
+			}
+		});
+	}
+
+	/**
+	 * 解码原图，缩小到短边等于 size（不放大），保存为 WebP
+	 */
+	private async generate(file: TFile, size: number, name: string): Promise<string | null> {
+		const source = new Image();
+		source.src = this.app.vault.getResourcePath(file);
+		await source.decode();
+
+		const scale = Math.min(1, size / Math.min(source.naturalWidth, source.naturalHeight));
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.max(1, Math.round(source.naturalWidth * scale));
+		canvas.height = Math.max(1, Math.round(source.naturalHeight * scale));
+		const context = canvas.getContext('2d');
+		if (!context) return null;
+		context.imageSmoothingQuality = 'high';
+		context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+		// 不支持 WebP 编码的平台会退回 PNG，浏览器按内容识别格式，不影响显示
+		const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', THUMBNAIL.QUALITY));
+		if (!blob) return null;
+
+		const cachePath = `${this.dir}/${name}`;
+		await this.app.vault.adapter.writeBinary(cachePath, await blob.arrayBuffer());
+		this.cachedNames?.add(name);
+		return this.app.vault.adapter.getResourcePath(cachePath);
+	}
+
+	/**
+	 * 选择不小于所需像素的最小尺寸（超过最大尺寸时使用最大尺寸）
+	 */
+	private pickSize(pixels: number): number {
+		return THUMBNAIL.SIZES.find(size => size >= pixels) ?? THUMBNAIL.SIZES[THUMBNAIL.SIZES.length - 1];
+	}
+
+	/**
+	 * 路径哈希（FNV-1a），用作缩略图文件名前缀
+	 */
+	private hashPath(path: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < path.length; i++) {
+			hash ^= path.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
+	}
+}
@@ -21,6 +21,42 @@ export const IMAGE_LOADING = {
 	LAZY_LOADING: true,
 } as const;
 
+// 缩略图缓存配置
+export const THUMBNAIL = {
+	SIZES: [256, 512, 1024], // 缩略图短边尺寸（px），按显示尺寸选择
+	QUALITY: 0.8,
+	MAX_CONCURRENT: 2, // 同时生成的缩略图数量
+	SKIP_EXTENSIONS: ['svg', 'gif'], // 矢量图和动图直接使用原图
+	PANEL_WIDTH: 128, // 日历、那年今日、查看器底部缩略图条中缩略图的显示宽度（CSS 像素）
+	DIR_NAME: 'thumbnails', // 插件数据目录下的缩略图目录
+} as const;
+
+// 图片查看器手势配置
+export const IMAGE_VIEWER = {
+	MAX_SCALE: 8, // 最大放大倍数（相对于适应屏幕的大小）
+	DOUBLE_TAP_SCALE: 2, // 图片原始大小不超过屏幕时，双击放大的倍数
+	WHEEL_ZOOM_SPEED: 0.002,
+	SWIPE_THRESHOLD: 50, // 左右滑动超过该距离（px）时切换图片
+	TAP_SLOP: 10, // 移动不超过该距离（px）视为点击
+	DOUBLE_TAP_DELAY: 300, // 两次点击间隔不超过该时间（ms）视为双击
+	ANIMATION_DURATION: 200, // 缩放、回弹动画时长（ms）
+} as const;
+
+// 附件扩展名（与 Obsidian 支持嵌入的格式一致，webm 按视频处理）
+export const MEDIA_EXTENSIONS = {
+	image: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'],
+	video: ['mp4', 'webm', 'ogv', 'mov', 'mkv'],
+	audio: ['mp3', 'wav', 'm4a', 'ogg', 'flac', '3gp'],
+	pdf: ['pdf'],
+} as const;
+
+// PDF 渲染配置
+export const PDF_RENDER = {
+	THUMBNAIL_WIDTH: 480, // 卡片缩略图宽度（px）
+	PAGE_WIDTH: 900, // 查看器中每页的最大宽度（px）
+	MAX_PAGES: 50, // 查看器中最多渲染的页数
+} as const;
+
 // UI 延迟配置
 export const UI_DELAYS = {
 	FILE_OPEN_DELAY: 100, // 文件打开延迟（ms）
@@ -42,3 +78,33 @@ export const FILE_FILTER = {
 
 // 日期字段配置
 export const DATE_FIELDS = ['date', 'Date', 'created', 'created_time'] as const;
+
+// 时间字段（日期中没有具体时间时使用，格式 HH:mm）
+export const TIME_FIELD = 'time';
+
+// 封面字段（指定卡片中优先显示的图片，值为图片链接）
+export const COVER_FIELD = 'cover';
+
+// 笔记中指定图片布局的 frontmatter 字段（例如 gallery-layout: masonry）
+export const GALLERY_LAYOUT_FIELD = 'gallery-layout';
+
+// 笔记中单独启用或关闭自动布局的 frontmatter 字段（gallery: true / gallery: false）
+export const GALLERY_FIELD = 'gallery';
+
+// 图片布局引擎配置（卡片和编辑器共用）
+export const GALLERY_LAYOUT = {
+	DEFAULT_COLUMNS: 3, // grid 和 masonry 的默认列数
+	ROW_HEIGHT: 160, // justified 每行的目标高度（px）
+	CAROUSEL_HEIGHT: 220, // carousel 的图片高度（px）
+	DEFAULT_RATIO: 1, // 图片加载前使用的宽高比
+	MAX_IMAGES_PER_CARD: 9, // classic 以外的布局在卡片中最多显示的图片数量
+} as const;
+
+// gallery 代码块配置
+export const GALLERY_BLOCK = {
+	LANGUAGE: 'gallery', // 代码块语言标识：```gallery
+	DEFAULT_COLUMNS: 3,
+	MAX_COLUMNS: 8,
+	DEFAULT_GAP: 10, // 图片间距（px）
+	DEFAULT_ASPECT: '1', // grid 布局中图片的默认宽高比
+} as const;
@@ -0,0 +1,134 @@
+import { moment } from 'obsidian';
+import { zhCN, en, TranslationKey } from './locales';
+
+export type { TranslationKey } from './locales';
+
+/**
+ * 界面语言
+ * auto 表示跟随 Obsidian 的语言设置
+ */
+export type Locale = 'zh-CN' | 'en';
+export type LocaleSetting = 'auto' | Locale;
+
+/**
+ * 各语言的名称（始终用该语言本身显示）
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+	'zh-CN': '简体中文',
+	en: 'English',
+};
+
+const DICTIONARIES: Record<Locale, Record<TranslationKey, string>> = {
+	'zh-CN': zhCN,
+	en,
+};
+
+let currentLocale: Locale = 'zh-CN';
+
+/**
+ * 把语言设置解析为具体语言
+ * 跟随 Obsidian 时读取 moment 的语言（Obsidian 启动时会设置为界面语言），中文界面使用简体中文，其他语言使用英文
+ */
+export function resolveLocale(setting: LocaleSetting): Locale {
+	if (setting !== 'auto') return setting;
+	return moment.locale().toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
+
+export function setLocale(setting: LocaleSetting): void {
+	currentLocale = resolveLocale(setting);
+}
+
+export function getLocale(): Locale {
+	return currentLocale;
+}
+
+/**
+ * 获取当前语言的文本，{name} 会被 params 中的同名参数替换
+ * 当前语言缺少该键时使用简体中文
+ */
+export function t(key: TranslationKey, params?: Record<string, string | number>): string {
+	const text = DICTIONARIES[currentLocale][key] ?? zhCN[key];
+	if (!params) return text;
+	return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * 星期名称（0 为星期日）
+ */
+export function weekdayName(day: number): string {
+	return t(`weekday.${day}` as TranslationKey);
+}
+
+/**
+ * 星期简称（0 为星期日）
+ */
+export function weekdayShortName(day: number): string {
+	return t(`weekdayShort.${day}` as TranslationKey);
+}
+
+/**
+ * 周一开始的星期简称，用于日历和热力图表头
+ */
+export function getWeekdayHeaders(): string[] {
+	return [1, 2, 3, 4, 5, 6, 0].map(weekdayShortName);
+}
+
+/**
+ * 月份名称（0 为一月）
+ */
+export function monthName(month: number): string {
+	return t(`month.${month}` as TranslationKey);
+}
+
+/**
+ * 月份简称（0 为一月）
+ */
+export function monthShortName(month: number): string {
+	return t(`monthShort.${month}` as TranslationKey);
+}
+
+function dateParams(date: Date): Record<string, string | number> {
+	return {
+		year: date.getFullYear(),
+		month: date.getMonth() + 1,
+		day: date.getDate(),
+		weekday: weekdayName(date.getDay()),
+		monthName: monthName(date.getMonth()),
+		monthShortName: monthShortName(date.getMonth()),
+	};
+}
+
+/**
+ * 完整日期（含星期），例如 2026年1月12日 星期一
+ */
+export function formatFullDate(date: Date): string {
+	return t('date.full', dateParams(date));
+}
+
+/**
+ * 日期（不含星期），例如 2026年1月12日
+ */
+export function formatShortDate(date: Date): string {
+	return t('date.short', dateParams(date));
+}
+
+/**
+ * 年月，例如 2026年1月
+ */
+export function formatMonth(date: Date): string {
+	return t('date.month', dateParams(date));
+}
+
+/**
+ * 月份简写（不含年份），例如 1月
+ */
+export function formatMonthShort(date: Date): string {
+	return t('date.monthShort', dateParams(date));
+}
+
+/**
+ * 年份，例如 2026年
+ */
+export function formatYear(year: number): string {
+	return t('date.year', { year });
+}
@@ -0,0 +1,726 @@
+/**
+ * 界面文本
+ * 简体中文是基准语言，其他语言必须提供相同的键（缺少的键在编译时报错）
+ * 文本中的 {name} 会被 t() 的参数替换
+ */
+export const zhCN = {
+	// 日期
+	'date.full': '{year}年{month}月{day}日 {weekday}',
+	'date.short': '{year}年{month}月{day}日',
+	'date.month': '{year}年{month}月',
+	'date.monthShort': '{month}月',
+	'date.year': '{year}年',
+	'weekday.0': '星期日',
+	'weekday.1': '星期一',
+	'weekday.2': '星期二',
+	'weekday.3': '星期三',
+	'weekday.4': '星期四',
+	'weekday.5': '星期五',
+	'weekday.6': '星期六',
+	'weekdayShort.0': '日',
+	'weekdayShort.1': '一',
+	'weekdayShort.2': '二',
+	'weekdayShort.3': '三',
+	'weekdayShort.4': '四',
+	'weekdayShort.5': '五',
+	'weekdayShort.6': '六',
+	'month.0': '1月',
+	'month.1': '2月',
+	'month.2': '3月',
+	'month.3': '4月',
+	'month.4': '5月',
+	'month.5': '6月',
+	'month.6': '7月',
+	'month.7': '8月',
+	'month.8': '9月',
+	'month.9': '10月',
+	'month.10': '11月',
+	'month.11': '12月',
+	'monthShort.0': '1月',
+	'monthShort.1': '2月',
+	'monthShort.2': '3月',
+	'monthShort.3': '4月',
+	'monthShort.4': '5月',
+	'monthShort.5': '6月',
+	'monthShort.6': '7月',
+	'monthShort.7': '8月',
+	'monthShort.8': '9月',
+	'monthShort.9': '10月',
+	'monthShort.10': '11月',
+	'monthShort.11': '12月',
+
+	// 通用
+	'common.entries': '{count} 篇',
+	'common.words': '{count} 字',
+	'common.selectYear': '选择年份',
+	'common.listSeparator': '、',
+	'common.labelValue': '{label}：{value}',
+
+	// 视图
+	'view.displayName': '手记视图',
+	'view.welcomeDesc': '点击下方按钮开始扫描和加载手记条目',
+	'view.startScan': '开始扫描',
+	'view.startScanLabel': '开始扫描手记条目',
+	'view.scanning': '扫描中...',
+	'view.loadingView': '正在加载手记视图...',
+	'view.loadingMore': '加载中...',
+	'view.noEntries': '没有找到手记条目。请确保文件包含日期信息（文件名、frontmatter 或正文）。\n\n提示：\n- 文件名格式：2026-01-12.md 或 2026年1月12日.md\n- Frontmatter：date: 2026-01-12\n- 正文内容：2026年1月12日',
+	'view.noPreview': '无预览',
+
+	// 顶部工具栏和统计
+	'header.title': '手记',
+	'header.refresh': '刷新视图',
+	'header.newNote': '新建笔记',
+	'header.toTimeline': '切换到时间线',
+	'header.toCalendar': '切换到日历',
+	'header.stats': '统计面板',
+	'header.sort': '排序方式',
+	'stats.streak': '连续纪录天数',
+	'stats.goalStreak': '连续达标天数',
+	'stats.words': '字数',
+	'stats.days': '写手记天数',
+
+	// 搜索、筛选和日期范围
+	'search.placeholder': '搜索标题和正文',
+	'search.label': '搜索手记',
+	'search.searching': '搜索中...',
+	'search.count': '找到 {count} 篇',
+	'search.noResults': '没有找到包含"{query}"的手记',
+	'filter.noResults': '没有符合筛选条件的手记',
+	'filter.modeAll': '全部满足',
+	'filter.modeAny': '任一满足',
+	'filter.modeTitle': '切换多个条件的组合方式（AND / OR）',
+	'filter.clear': '清除筛选',
+	'filter.add': '添加筛选条件',
+	'filter.addPlaceholder': '添加筛选…',
+	'filter.excludeLabel': '排除 {label}',
+	'filter.toggleInclude': '点击改为包含',
+	'filter.toggleExclude': '点击改为排除',
+	'filter.remove': '移除筛选条件',
+	'filter.groupTags': '标签',
+	'filter.groupProperty': '属性：{key}',
+	'dateRange.noResults': '所选日期范围内没有手记',
+	'dateRange.label': '日期范围',
+	'dateRange.from': '开始日期',
+	'dateRange.to': '结束日期',
+	'dateRange.separator': '至',
+	'dateRange.all': '全部日期',
+	'dateRange.thisWeek': '本周',
+	'dateRange.thisMonth': '本月',
+	'dateRange.last30Days': '最近 30 天',
+	'dateRange.thisYear': '今年',
+	'dateRange.custom': '自定义',
+
+	// 排序
+	'sort.dateDesc': '日期（最新在前）',
+	'sort.dateAsc': '日期（最旧在前）',
+	'sort.titleAsc': '标题（A-Z）',
+	'sort.titleDesc': '标题（Z-A）',
+	'sort.wordsDesc': '字数（从多到少）',
+	'sort.wordsAsc': '字数（从少到多）',
+	'sort.ctimeDesc': '创建时间（最新在前）',
+	'sort.ctimeAsc': '创建时间（最旧在前）',
+
+	// 图片布局
+	'layout.classic': '经典（按图片数量）',
+	'layout.grid': '网格',
+	'layout.masonry': '瀑布流',
+	'layout.justified': '等高行',
+	'layout.carousel': '横向滚动',
+
+	// 图片说明样式
+	'caption.none': '不显示',
+	'caption.overlay': '叠加在图片上',
+	'caption.below': '显示在图片下方',
+
+	// 卡片
+	'card.openDay': '查看当天的所有手记',
+	'card.more': '更多选项',
+	'card.delete': '删除',
+	'card.deleteConfirm': '确定要删除 "{name}" 吗？\n\n此操作无法撤销。',
+	'card.deleteFailed': '删除文件失败，请重试。',
+	'card.goalMet': '✓ 达标',
+	'card.goalMissed': '未达标',
+	'card.goalMetTitle': '当天已达成每日目标',
+	'card.goalMissedTitle': '当天未达成每日目标',
+
+	// 图片查看器
+	'image.close': '关闭',
+	'image.prev': '上一张',
+	'image.next': '下一张',
+	'image.openFile': '在 Obsidian 中打开',
+	'image.pdfLoading': '正在加载 PDF...',
+	'image.pdfFailed': '无法显示 PDF',
+	'image.info': '信息',
+	'image.infoName': '文件名',
+	'image.infoCaption': '说明',
+	'image.infoSize': '大小',
+	'image.infoDimensions': '尺寸',
+	'image.infoTaken': '拍摄时间',
+	'image.infoLocation': '拍摄地点',
+	'image.infoSource': '所在笔记',
+	'image.infoLine': '第 {line} 行',
+	'image.actionOpenNote': '在笔记中定位',
+	'image.actionReveal': '在文件列表中显示',
+	'image.actionCopyLink': '复制链接',
+	'image.actionSetCover': '设为封面',
+	'image.actionDelete': '删除',
+	'image.deleteConfirm': '再次点击确认删除',
+	'image.linkCopied': '已复制链接',
+	'image.coverSet': '已设为封面',
+	'image.deleted': '已删除',
+	'image.embedRemoved': '文件仍被其他笔记引用，只从这篇笔记中移除了嵌入',
+	'image.revealUnavailable': '文件列表插件未启用',
+	'image.actionFailed': '操作失败: {error}',
+	'image.noteNotFound': '找不到笔记 {path}',
+	'image.embedNotFound': '笔记中找不到嵌入 {embed}',
+	'gallery.empty': '画廊中没有图片',
+	'gallery.notFound': '找不到图片：{items}',
+
+	// 日历
+	'calendar.prevMonth': '上个月',
+	'calendar.nextMonth': '下个月',
+	'calendar.today': '今天',
+	'calendar.dayLabel': '{date}，{count} 篇手记',
+	'calendar.dayDetail': '单日详情',
+
+	// 热力图
+	'heatmap.metricEntries': '篇数',
+	'heatmap.metricWords': '字数',
+	'heatmap.less': '少',
+	'heatmap.more': '多',
+	'heatmap.cell': '{date}：{value}',
+
+	// 那年今日
+	'onThisDay.title': '那年今日',
+	'onThisDay.emptyYears': '过去 {years} 年的今天暂无记录',
+	'onThisDay.emptyLastYear': '去年今日 ({year}年) 暂无记录',
+	'onThisDay.lastYear': '去年',
+	'onThisDay.yearsAgo': '{count}年前',
+	'onThisDay.count': '{count}篇',
+	'onThisDay.more': '还有 {count} 篇未显示',
+	'onThisDay.open': '查看 {date} 的手记',
+
+	// 写作目标
+	'goal.dayWords': '今日字数',
+	'goal.dayEntries': '今日篇数',
+	'goal.weekWords': '本周字数',
+	'goal.weekEntries': '本周篇数',
+	'goal.monthWords': '本月字数',
+	'goal.monthEntries': '本月篇数',
+
+	// 单日详情
+	'dayDetail.empty': '这一天没有手记',
+	'dayDetail.prev': '‹ 前一天',
+	'dayDetail.next': '后一天 ›',
+	'dayDetail.summary': '{count} 篇手记 · {words} 字',
+	'dayDetail.allDay': '全天',
+
+	// 统计面板
+	'dashboard.title': '统计',
+	'dashboard.empty': '没有可统计的手记',
+	'dashboard.currentStreak': '当前连续天数',
+	'dashboard.longestStreak': '最长连续天数',
+	'dashboard.entryCount': '手记篇数',
+	'dashboard.dayCount': '写手记天数',
+	'dashboard.totalWords': '总字数',
+	'dashboard.avgWordsPerEntry': '平均每篇字数',
+	'dashboard.avgWordsPerDay': '平均每天字数',
+	'dashboard.images': '图片数',
+	'dashboard.monthlyWords': '每月字数',
+	'dashboard.monthTooltip': '{month}：{count} 字',
+	'dashboard.yearOverYear': '逐年对比',
+	'dashboard.colYear': '年份',
+	'dashboard.colEntries': '篇数',
+	'dashboard.colDays': '天数',
+	'dashboard.colWords': '字数',
+	'dashboard.colChange': '字数变化',
+	'dashboard.weekdays': '星期分布',
+	'dashboard.weekdayTooltip': '{weekday}：{count} 篇',
+	'dashboard.hours': '时段分布',
+	'dashboard.hourTooltip': '{hour}:00 - {hour}:59：{count} 篇',
+	'dashboard.topTags': '常用标签',
+
+	// 日期来源
+	'dateSource.filename': '文件名（{pattern}）',
+	'dateSource.frontmatter': 'frontmatter 字段 {field}',
+	'dateSource.body': '正文',
+	'dateSource.ctime': '文件创建时间',
+	'dateSource.mtime': '文件修改时间',
+
+	// 日期解析诊断
+	'diagnostics.title': '日期解析诊断',
+	'diagnostics.empty': '没有已加载的手记',
+	'diagnostics.checking': '正在检查...',
+	'diagnostics.fallbackTitle': '使用文件时间的文件',
+	'diagnostics.fallbackDesc': '这些文件的文件名、frontmatter 和正文中都没有可识别的日期，复制或同步文件后日期可能会改变。',
+	'diagnostics.ambiguousTitle': '正文中有多个日期的文件',
+	'diagnostics.ambiguousDesc': '这些文件的日期来自正文中第一个可识别的日期，但正文中还有其他日期。',
+	'diagnostics.bodyDates': '正文中的日期：{dates}',
+	'diagnostics.noIssues': '没有需要检查的文件',
+	'diagnostics.current': '当前日期：{date}（{reason}）',
+	'diagnostics.noFixField': '日期解析规则中没有排在前面的 frontmatter 规则，无法自动修正',
+	'diagnostics.write': '写入 {field}: {value}',
+	'diagnostics.written': '✓ 已写入 {field}: {value}',
+	'diagnostics.writeFailed': '写入 frontmatter 失败',
+
+	// 将日期写入 frontmatter
+	'normalize.title': '将日期写入 frontmatter',
+	'normalize.checking': '正在检查 {count} 个文件...',
+	'normalize.desc': '按当前的日期解析规则重新解析 {count} 个文件，把结果写入 frontmatter 字段 {field}。',
+	'normalize.fieldUnused': '当前的日期解析规则中没有 frontmatter: {field}，写入后不会影响日期解析。',
+	'normalize.upToDate': '所有文件的日期都已经写入 frontmatter，无需修改',
+	'normalize.selectAll': '全选（{count} 个文件需要修改）',
+	'normalize.apply': '写入 {count} 个文件',
+	'normalize.source': '来源：{source}（{raw}）',
+	'normalize.progress': '正在写入 {done}/{total}',
+	'normalize.done': '已写入 {count} 个文件',
+	'normalize.doneWithFailures': '已写入 {count} 个文件，{failed} 个文件失败',
+
+	// 命令和菜单
+	'command.openView': '打开手记视图',
+	'command.openStatistics': '打开统计面板',
+	'command.dateDiagnostics': '日期解析诊断',
+	'command.normalizeDates': '将日期写入 frontmatter',
+	'command.refresh': '刷新手记视图',
+	'command.toggleAutoLayout': '切换当前笔记的自动布局',
+	'menu.journal': '手记',
+	'menu.linkFolderView': '创建文件夹手记视图',
+	'menu.createViewFile': '创建子文件手记视图',
+	'notice.folderViewLinked': '已为文件夹 "{folder}" 创建手记视图关联。点击文件夹时将自动打开手记视图。',
+	'notice.viewFileExists': '文件 "{file}" 已存在',
+	'notice.viewFileCreated': '已创建手记视图文件: {file}',
+	'notice.viewFileFailed': '创建失败: {error}',
+	'notice.invalidDateStrategies': '无法识别的日期解析规则：{lines}',
+	'notice.thumbnailCacheCleared': '已清空缩略图缓存',
+	'notice.noteAutoLayoutEnabled': '已在 "{file}" 中启用自动布局',
+	'notice.noteAutoLayoutDisabled': '已在 "{file}" 中关闭自动布局',
+	'viewFile.content': '# {folder} 手记视图\n\n此文件显示文件夹 "{folder}" 下的所有手记条目。\n\n## 使用说明\n\n- 此文件会自动扫描当前文件夹下的所有 Markdown 文件\n- 按日期组织显示\n- 支持图片预览和内容预览\n',
+
+	// 设置
+	'settings.title': '手记视图设置',
+	'settings.language': '语言',
+	'settings.languageDesc': '界面语言，默认跟随 Obsidian 的语言设置。命令名称在重新加载插件后更新。',
+	'settings.languageAuto': '跟随 Obsidian',
+	'settings.dateField': '日期字段',
+	'settings.dateFieldDesc': '指定该文件夹下文件使用的日期字段（frontmatter 中的字段名）。如果文件没有该字段，将使用文件创建时间。选择"使用默认字段"则使用默认字段（date, Date, created, created_time）。',
+	'settings.dateFieldDefault': '使用默认字段',
+	'settings.dateFieldCustom': '自定义...',
+	'settings.dateFieldCustomPlaceholder': '输入自定义字段名',
+	'settings.dateStrategies': '日期解析规则',
+	'settings.dateStrategiesDesc': '按顺序尝试的日期解析规则，每行一条，第一条成功的规则决定手记日期。支持：filename: 格式（moment 格式，例如 YYYYMMDD、DD-MM-YYYY、GGGG-[W]WW-ddd）、frontmatter: 字段名、body: 正则（分组依次为年、月、日）、ctime（创建时间）、mtime（修改时间）。没有任何规则命中的文件不会显示。留空则使用默认规则（受上面的日期字段影响）。默认文件夹和关联了手记视图的文件夹可以分别设置，在左侧选择要编辑的文件夹。',
+	'settings.template': '默认模板',
+	'settings.templateDesc': '创建新笔记时使用的模板。支持变量：{{date}}（日期 YYYY-MM-DD）、{{year}}、{{month}}、{{day}}、{{time}}（时间 HH:mm）、{{title}}（标题）。留空则使用默认格式。',
+	'settings.templatePlaceholder': '例如：---\ndate: {{date}}\ntags: [日记]\n---\n\n# {{title}}\n\n',
+	'settings.defaultFolder': '默认文件夹',
+	'settings.defaultFolderDesc': '选择默认的日记文件夹。使用 Ctrl+P 打开手记视图时将自动打开此文件夹的视图。',
+	'settings.wholeVault': '扫描整个 Vault',
+	'settings.autoLayout': '是否在手记视图文件夹中启用自动布局',
+	'settings.autoLayoutDesc': '启用后，默认文件夹和所有关联了手记视图的文件夹中的笔记会自动检测连续图片并应用布局。默认为否。单篇笔记可以在 frontmatter 中用 gallery: true / false 单独启用或关闭（也可以使用"切换当前笔记的自动布局"命令）。gallery 代码块不受此设置影响，需要稳定的布局时推荐使用代码块。',
+	'settings.autoLayoutInclude': '自动布局包含的路径',
+	'settings.autoLayoutIncludeDesc': '手记文件夹以外也启用自动布局的路径，每行一条。支持 *、** 和 ?，不含通配符时匹配该文件夹中的所有笔记。',
+	'settings.autoLayoutExclude': '自动布局排除的路径',
+	'settings.autoLayoutExcludeDesc': '不启用自动布局的路径，每行一条，优先于手记文件夹和包含的路径。',
+	'settings.galleryLayout': '图片布局',
+	'settings.galleryLayoutDesc': '卡片和自动布局中连续图片的排列方式。经典布局最多显示 5 张，其他布局可以显示更多图片。单篇笔记可以在 frontmatter 中用 gallery-layout 字段指定。',
+	'settings.folderGalleryLayout': '当前文件夹的图片布局',
+	'settings.folderGalleryLayoutDesc': '默认文件夹及其子文件夹中的笔记使用的图片布局，优先于上面的全局设置。',
+	'settings.galleryLayoutInherit': '使用全局设置',
+	'settings.captionStyle': '图片说明',
+	'settings.captionStyleDesc': '卡片和自动布局中显示图片说明（![说明](图片) 或 ![[图片|说明]] 中的文字）的方式。经典自动布局中总是叠加在图片上；查看器中总是显示说明。',
+	'settings.imageLimit': '图片显示限制',
+	'settings.imageLimitDesc': '每个手记卡片最多显示的图片数量',
+	'settings.thumbnailCache': '缩略图缓存',
+	'settings.thumbnailCacheDesc': '卡片和面板中的图片使用缩小后的缩略图，保存在插件目录中。原图修改或删除后自动更新',
+	'settings.thumbnailCacheClear': '清空缓存',
+	'settings.defaultSort': '默认排序方式',
+	'settings.defaultSortDesc': '新打开的手记视图默认使用的排序方式。已打开的视图可以在工具栏中切换。',
+	'settings.streak': '连续记录',
+	'settings.yesterdayStart': '今天未写时从昨天开始计算',
+	'settings.yesterdayStartDesc': '开启后，今天还没有写手记时，连续天数从昨天开始计算，不会在早上显示为 0。',
+	'settings.graceDays': '宽限天数',
+	'settings.graceDaysDesc': '两次记录之间最多可以空几天仍然算作连续（0 表示必须每天记录）。',
+	'settings.rolloverHour': '日期分界时间',
+	'settings.rolloverHourDesc': '在此时间之前写的手记算作前一天（例如设为 4，凌晨 4 点前写的算前一天）。只影响带具体时间的条目。',
+	'settings.streakMode': '连续天数计算方式',
+	'settings.streakModeDesc': '选择"达成每日目标"时，只有达成下方每日目标的日期才计入连续天数。',
+	'settings.streakModeEntries': '有记录即可',
+	'settings.streakModeGoal': '达成每日目标',
+	'settings.goals': '写作目标',
+	'settings.goalsDesc': '设置后会在手记视图顶部显示进度环，卡片上会标记当天是否达成每日目标。填 0 表示不设置。',
+	'settings.goalDailyWords': '每日字数',
+	'settings.goalDailyEntries': '每日篇数',
+	'settings.goalWeeklyWords': '每周字数',
+	'settings.goalWeeklyEntries': '每周篇数',
+	'settings.goalMonthlyWords': '每月字数',
+	'settings.goalMonthlyEntries': '每月篇数',
+	'settings.onThisDay': '那年今日',
+	'settings.onThisDayYears': '回顾年数',
+	'settings.onThisDayYearsDesc': '显示过去多少年的同一天（1-10 年）',
+	'settings.onThisDayRange': '日期匹配范围',
+	'settings.onThisDayRangeDesc': '匹配同一天前后多少天的手记（±N 天）。设为 0 表示只匹配同月同日。',
+	'settings.onThisDayMax': '每年显示数量',
+	'settings.onThisDayMaxDesc': '每个年份最多显示多少篇手记',
+};
+
+export type TranslationKey = keyof typeof zhCN;
+
+export const en: Record<TranslationKey, string> = {
+	// Dates
+	'date.full': '{weekday}, {monthName} {day}, {year}',
+	'date.short': '{monthName} {day}, {year}',
+	'date.month': '{monthName} {year}',
+	'date.monthShort': '{monthShortName}',
+	'date.year': '{year}',
+	'weekday.0': 'Sunday',
+	'weekday.1': 'Monday',
+	'weekday.2': 'Tuesday',
+	'weekday.3': 'Wednesday',
+	'weekday.4': 'Thursday',
+	'weekday.5': 'Friday',
+	'weekday.6': 'Saturday',
+	'weekdayShort.0': 'Sun',
+	'weekdayShort.1': 'Mon',
+	'weekdayShort.2': 'Tue',
+	'weekdayShort.3': 'Wed',
+	'weekdayShort.4': 'Thu',
+	'weekdayShort.5': 'Fri',
+	'weekdayShort.6': 'Sat',
+	'month.0': 'January',
+	'month.1': 'February',
+	'month.2': 'March',
+	'month.3': 'April',
+	'month.4': 'May',
+	'month.5': 'June',
+	'month.6': 'July',
+	'month.7': 'August',
+	'month.8': 'September',
+	'month.9': 'October',
+	'month.10': 'November',
+	'month.11': 'December',
+	'monthShort.0': 'Jan',
+	'monthShort.1': 'Feb',
+	'monthShort.2': 'Mar',
+	'monthShort.3': 'Apr',
+	'monthShort.4': 'May',
+	'monthShort.5': 'Jun',
+	'monthShort.6': 'Jul',
+	'monthShort.7': 'Aug',
+	'monthShort.8': 'Sep',
+	'monthShort.9': 'Oct',
+	'monthShort.10': 'Nov',
+	'monthShort.11': 'Dec',
+
+	// Common
+	'common.entries': '{count} entries',
+	'common.words': '{count} words',
+	'common.selectYear': 'Select year',
+	'common.listSeparator': ', ',
+	'common.labelValue': '{label}: {value}',
+
+	// View
+	'view.displayName': 'Journal view',
+	'view.welcomeDesc': 'Click the button below to scan and load journal entries',
+	'view.startScan': 'Start scan',
+	'view.startScanLabel': 'Scan journal entries',
+	'view.scanning': 'Scanning...',
+	'view.loadingView': 'Loading journal view...',
+	'view.loadingMore': 'Loading...',
+	'view.noEntries': 'No journal entries found. Make sure your files contain a date (in the file name, frontmatter or body).\n\nTips:\n- File name: 2026-01-12.md\n- Frontmatter: date: 2026-01-12\n- Body: 2026-01-12',
+	'view.noPreview': 'No preview',
+
+	// Header and stats
+	'header.title': 'Journal',
+	'header.refresh': 'Refresh view',
+	'header.newNote': 'New note',
+	'header.toTimeline': 'Switch to timeline',
+	'header.toCalendar': 'Switch to calendar',
+	'header.stats': 'Statistics',
+	'header.sort': 'Sort by',
+	'stats.streak': 'Day streak',
+	'stats.goalStreak': 'Goal streak',
+	'stats.words': 'Words',
+	'stats.days': 'Days written',
+
+	// Search, filters and date range
+	'search.placeholder': 'Search titles and text',
+	'search.label': 'Search entries',
+	'search.searching': 'Searching...',
+	'search.count': '{count} found',
+	'search.noResults': 'No entries containing "{query}"',
+	'filter.noResults': 'No entries match the filters',
+	'filter.modeAll': 'Match all',
+	'filter.modeAny': 'Match any',
+	'filter.modeTitle': 'Toggle how conditions are combined (AND / OR)',
+	'filter.clear': 'Clear filters',
+	'filter.add': 'Add filter',
+	'filter.addPlaceholder': 'Add filter…',
+	'filter.excludeLabel': 'Not {label}',
+	'filter.toggleInclude': 'Click to include',
+	'filter.toggleExclude': 'Click to exclude',
+	'filter.remove': 'Remove filter',
+	'filter.groupTags': 'Tags',
+	'filter.groupProperty': 'Property: {key}',
+	'dateRange.noResults': 'No entries in the selected date range',
+	'dateRange.label': 'Date range',
+	'dateRange.from': 'Start date',
+	'dateRange.to': 'End date',
+	'dateRange.separator': 'to',
+	'dateRange.all': 'All dates',
+	'dateRange.thisWeek': 'This week',
+	'dateRange.thisMonth': 'This month',
+	'dateRange.last30Days': 'Last 30 days',
+	'dateRange.thisYear': 'This year',
+	'dateRange.custom': 'Custom',
+
+	// Sorting
+	'sort.dateDesc': 'Date (newest first)',
+	'sort.dateAsc': 'Date (oldest first)',
+	'sort.titleAsc': 'Title (A-Z)',
+	'sort.titleDesc': 'Title (Z-A)',
+	'sort.wordsDesc': 'Word count (most first)',
+	'sort.wordsAsc': 'Word count (fewest first)',
+	'sort.ctimeDesc': 'Created (newest first)',
+	'sort.ctimeAsc': 'Created (oldest first)',
+
+	// Image layouts
+	'layout.classic': 'Classic (by image count)',
+	'layout.grid': 'Grid',
+	'layout.masonry': 'Masonry',
+	'layout.justified': 'Justified rows',
+	'layout.carousel': 'Carousel',
+
+	// 图片说明样式
+	'caption.none': 'Hidden',
+	'caption.overlay': 'Overlay on image',
+	'caption.below': 'Below image',
+
+	// Cards
+	'card.openDay': 'Show all entries from this day',
+	'card.more': 'More options',
+	'card.delete': 'Delete',
+	'card.deleteConfirm': 'Delete "{name}"?\n\nThis cannot be undone.',
+	'card.deleteFailed': 'Failed to delete the file. Please try again.',
+	'card.goalMet': '✓ Goal met',
+	'card.goalMissed': 'Goal missed',
+	'card.goalMetTitle': 'Daily goal met on this day',
+	'card.goalMissedTitle': 'Daily goal not met on this day',
+
+	// Image viewer
+	'image.close': 'Close',
+	'image.prev': 'Previous image',
+	'image.next': 'Next image',
+	'image.openFile': 'Open in Obsidian',
+	'image.pdfLoading': 'Loading PDF...',
+	'image.pdfFailed': 'Unable to display PDF',
+	'image.info': 'Info',
+	'image.infoName': 'Name',
+	'image.infoCaption': 'Caption',
+	'image.infoSize': 'Size',
+	'image.infoDimensions': 'Dimensions',
+	'image.infoTaken': 'Taken',
+	'image.infoLocation': 'Location',
+	'image.infoSource': 'Note',
+	'image.infoLine': 'line {line}',
+	'image.actionOpenNote': 'Show in note',
+	'image.actionReveal': 'Reveal in file explorer',
+	'image.actionCopyLink': 'Copy link',
+	'image.actionSetCover': 'Set as cover',
+	'image.actionDelete': 'Delete',
+	'image.deleteConfirm': 'Click again to delete',
+	'image.linkCopied': 'Link copied',
+	'image.coverSet': 'Set as cover',
+	'image.deleted': 'Deleted',
+	'image.embedRemoved': 'The file is still used elsewhere, so only the embed in this note was removed',
+	'image.revealUnavailable': 'The file explorer plugin is not enabled',
+	'image.actionFailed': 'Action failed: {error}',
+	'image.noteNotFound': 'Note not found: {path}',
+	'image.embedNotFound': 'Embed not found in the note: {embed}',
+	'gallery.empty': 'No images in this gallery',
+	'gallery.notFound': 'Images not found: {items}',
+
+	// Calendar
+	'calendar.prevMonth': 'Previous month',
+	'calendar.nextMonth': 'Next month',
+	'calendar.today': 'Today',
+	'calendar.dayLabel': '{date}, {count} entries',
+	'calendar.dayDetail': 'Day detail',
+
+	// Heatmap
+	'heatmap.metricEntries': 'Entries',
+	'heatmap.metricWords': 'Words',
+	'heatmap.less': 'Less',
+	'heatmap.more': 'More',
+	'heatmap.cell': '{date}: {value}',
+
+	// On this day
+	'onThisDay.title': 'On this day',
+	'onThisDay.emptyYears': 'Nothing written on this day in the past {years} years',
+	'onThisDay.emptyLastYear': 'Nothing written on this day last year ({year})',
+	'onThisDay.lastYear': 'Last year',
+	'onThisDay.yearsAgo': '{count} years ago',
+	'onThisDay.count': '{count} entries',
+	'onThisDay.more': '{count} more not shown',
+	'onThisDay.open': 'Open entry from {date}',
+
+	// Writing goals
+	'goal.dayWords': 'Words today',
+	'goal.dayEntries': 'Entries today',
+	'goal.weekWords': 'Words this week',
+	'goal.weekEntries': 'Entries this week',
+	'goal.monthWords': 'Words this month',
+	'goal.monthEntries': 'Entries this month',
+
+	// Day detail
+	'dayDetail.empty': 'No entries on this day',
+	'dayDetail.prev': '‹ Previous day',
+	'dayDetail.next': 'Next day ›',
+	'dayDetail.summary': '{count} entries · {words} words',
+	'dayDetail.allDay': 'All day',
+
+	// Statistics dashboard
+	'dashboard.title': 'Statistics',
+	'dashboard.empty': 'No entries to analyze',
+	'dashboard.currentStreak': 'Current streak',
+	'dashboard.longestStreak': 'Longest streak',
+	'dashboard.entryCount': 'Entries',
+	'dashboard.dayCount': 'Days written',
+	'dashboard.totalWords': 'Total words',
+	'dashboard.avgWordsPerEntry': 'Avg. words per entry',
+	'dashboard.avgWordsPerDay': 'Avg. words per day',
+	'dashboard.images': 'Images',
+	'dashboard.monthlyWords': 'Words per month',
+	'dashboard.monthTooltip': '{month}: {count} words',
+	'dashboard.yearOverYear': 'Year over year',
+	'dashboard.colYear': 'Year',
+	'dashboard.colEntries': 'Entries',
+	'dashboard.colDays': 'Days',
+	'dashboard.colWords': 'Words',
+	'dashboard.colChange': 'Change',
+	'dashboard.weekdays': 'By weekday',
+	'dashboard.weekdayTooltip': '{weekday}: {count} entries',
+	'dashboard.hours': 'By hour',
+	'dashboard.hourTooltip': '{hour}:00 - {hour}:59: {count} entries',
+	'dashboard.topTags': 'Top tags',
+
+	// Date sources
+	'dateSource.filename': 'File name ({pattern})',
+	'dateSource.frontmatter': 'Frontmatter field {field}',
+	'dateSource.body': 'Body text',
+	'dateSource.ctime': 'File creation time',
+	'dateSource.mtime': 'File modification time',
+
+	// Date diagnostics
+	'diagnostics.title': 'Date diagnostics',
+	'diagnostics.empty': 'No entries loaded',
+	'diagnostics.checking': 'Checking...',
+	'diagnostics.fallbackTitle': 'Files dated by file timestamps',
+	'diagnostics.fallbackDesc': 'No date was found in the file name, frontmatter or body of these files. Their dates may change when the files are copied or synced.',
+	'diagnostics.ambiguousTitle': 'Files with several dates in the body',
+	'diagnostics.ambiguousDesc': 'These files are dated by the first date found in the body, but the body contains other dates too.',
+	'diagnostics.bodyDates': 'Dates in body: {dates}',
+	'diagnostics.noIssues': 'Nothing to check',
+	'diagnostics.current': 'Current date: {date} ({reason})',
+	'diagnostics.noFixField': 'No frontmatter rule comes before this one in the date rules, so it cannot be fixed automatically',
+	'diagnostics.write': 'Write {field}: {value}',
+	'diagnostics.written': '✓ Wrote {field}: {value}',
+	'diagnostics.writeFailed': 'Failed to write frontmatter',
+
+	// Write dates into frontmatter
+	'normalize.title': 'Write dates into frontmatter',
+	'normalize.checking': 'Checking {count} files...',
+	'normalize.desc': 'Resolves the dates of {count} files with the current date rules and writes them into the frontmatter field {field}.',
+	'normalize.fieldUnused': 'The current date rules do not include frontmatter: {field}, so writing it will not change how dates are resolved.',
+	'normalize.upToDate': 'All dates are already stored in frontmatter. Nothing to change.',
+	'normalize.selectAll': 'Select all ({count} files to change)',
+	'normalize.apply': 'Write {count} files',
+	'normalize.source': 'Source: {source} ({raw})',
+	'normalize.progress': 'Writing {done}/{total}',
+	'normalize.done': 'Wrote {count} files',
+	'normalize.doneWithFailures': 'Wrote {count} files, {failed} failed',
+
+	// Commands and menus
+	'command.openView': 'Open journal view',
+	'command.openStatistics': 'Open statistics',
+	'command.dateDiagnostics': 'Date diagnostics',
+	'command.normalizeDates': 'Write dates into frontmatter',
+	'command.refresh': 'Refresh journal view',
+	'command.toggleAutoLayout': 'Toggle auto layout for current note',
+	'menu.journal': 'Journal',
+	'menu.linkFolderView': 'Create folder journal view',
+	'menu.createViewFile': 'Create journal view file',
+	'notice.folderViewLinked': 'Linked a journal view to folder "{folder}". Clicking the folder will open the journal view.',
+	'notice.viewFileExists': 'File "{file}" already exists',
+	'notice.viewFileCreated': 'Created journal view file: {file}',
+	'notice.viewFileFailed': 'Failed to create: {error}',
+	'notice.invalidDateStrategies': 'Unrecognized date rules: {lines}',
+	'notice.thumbnailCacheCleared': 'Thumbnail cache cleared',
+	'notice.noteAutoLayoutEnabled': 'Auto layout enabled in "{file}"',
+	'notice.noteAutoLayoutDisabled': 'Auto layout disabled in "{file}"',
+	'viewFile.content': '# {folder} journal view\n\nThis file shows all journal entries in folder "{folder}".\n\n## Usage\n\n- Scans all Markdown files in this folder\n- Organized by date\n- Shows image and text previews\n',
+
+	// Settings
+	'settings.title': 'Journal view settings',
+	'settings.language': 'Language',
+	'settings.languageDesc': 'Interface language. Follows the Obsidian language by default. Command names update after the plugin is reloaded.',
+	'settings.languageAuto': 'Follow Obsidian',
+	'settings.dateField': 'Date field',
+	'settings.dateFieldDesc': 'The frontmatter field holding the date of files in this folder. Files without it use their creation time. "Default fields" uses date, Date, created and created_time.',
+	'settings.dateFieldDefault': 'Default fields',
+	'settings.dateFieldCustom': 'Custom...',
+	'settings.dateFieldCustomPlaceholder': 'Custom field name',
+	'settings.dateStrategies': 'Date rules',
+	'settings.dateStrategiesDesc': 'Date rules tried in order, one per line. The first rule that matches sets the entry date. Supported: filename: format (a moment format such as YYYYMMDD, DD-MM-YYYY or GGGG-[W]WW-ddd), frontmatter: field, body: regex (groups are year, month, day), ctime (creation time) and mtime (modification time). Files that match no rule are hidden. Leave empty to use the default rules (which use the date field above). The default folder and each folder with its own journal view have separate rules; pick the folder to edit on the left.',
+	'settings.template': 'Default template',
+	'settings.templateDesc': 'Template for new notes. Variables: {{date}} (YYYY-MM-DD), {{year}}, {{month}}, {{day}}, {{time}} (HH:mm) and {{title}}. Leave empty to use the default format.',
+	'settings.templatePlaceholder': 'For example: ---\ndate: {{date}}\ntags: [journal]\n---\n\n# {{title}}\n\n',
+	'settings.defaultFolder': 'Default folder',
+	'settings.defaultFolderDesc': 'The default journal folder. Opening the journal view from the command palette opens this folder.',
+	'settings.wholeVault': 'Whole vault',
+	'settings.autoLayout': 'Auto layout in journal folders',
+	'settings.autoLayoutDesc': 'When enabled, consecutive images in notes in the default folder and every folder linked to a journal view are detected and laid out automatically. Off by default. A note can opt in or out with gallery: true / false in its frontmatter (or the "Toggle auto layout for current note" command). Gallery code blocks always render regardless of this setting and give a more stable layout.',
+	'settings.autoLayoutInclude': 'Auto layout: include paths',
+	'settings.autoLayoutIncludeDesc': 'Paths outside the journal folders where auto layout is also enabled, one per line. Supports *, ** and ?; a path without wildcards matches every note in that folder.',
+	'settings.autoLayoutExclude': 'Auto layout: exclude paths',
+	'settings.autoLayoutExcludeDesc': 'Paths where auto layout is never applied, one per line. Takes precedence over journal folders and include paths.',
+	'settings.galleryLayout': 'Image layout',
+	'settings.galleryLayoutDesc': 'How images are arranged on cards and by auto layout. Classic shows up to 5 images; the other layouts can show more. A note can choose its own layout with the gallery-layout frontmatter field.',
+	'settings.folderGalleryLayout': 'Image layout for this folder',
+	'settings.folderGalleryLayoutDesc': 'Layout for notes in the default folder and its subfolders. Overrides the global layout above.',
+	'settings.galleryLayoutInherit': 'Use global setting',
+	'settings.captionStyle': 'Image captions',
+	'settings.captionStyleDesc': 'How image captions (the text in ![caption](image) or ![[image|caption]]) are shown on cards and by auto layout. Classic auto layout always overlays them; the image viewer always shows them.',
+	'settings.imageLimit': 'Image limit',
+	'settings.imageLimitDesc': 'Maximum number of images shown on each card',
+	'settings.thumbnailCache': 'Thumbnail cache',
+	'settings.thumbnailCacheDesc': 'Cards and panels show downscaled thumbnails stored in the plugin folder. They are refreshed when the original image is modified or deleted',
+	'settings.thumbnailCacheClear': 'Clear cache',
+	'settings.defaultSort': 'Default sort order',
+	'settings.defaultSortDesc': 'Sort order for newly opened journal views. Open views can switch it from the toolbar.',
+	'settings.streak': 'Streaks',
+	'settings.yesterdayStart': 'Count from yesterday if nothing written today',
+	'settings.yesterdayStartDesc': 'When enabled, the streak counts from yesterday until you write today, so it does not drop to 0 in the morning.',
+	'settings.graceDays': 'Grace days',
+	'settings.graceDaysDesc': 'How many days may be skipped between entries while keeping the streak (0 means every day).',
+	'settings.rolloverHour': 'Day rollover hour',
+	'settings.rolloverHourDesc': 'Entries written before this hour count toward the previous day (e.g. 4 means entries before 4 AM). Only affects entries with a time.',
+	'settings.streakMode': 'Streak counts',
+	'settings.streakModeDesc': 'With "Daily goal met", only days that meet the daily goals below count toward the streak.',
+	'settings.streakModeEntries': 'Any entry',
+	'settings.streakModeGoal': 'Daily goal met',
+	'settings.goals': 'Writing goals',
+	'settings.goalsDesc': 'Goals are shown as progress rings at the top of the journal view, and cards show whether the daily goal was met. Use 0 for no goal.',
+	'settings.goalDailyWords': 'Daily words',
+	'settings.goalDailyEntries': 'Daily entries',
+	'settings.goalWeeklyWords': 'Weekly words',
+	'settings.goalWeeklyEntries': 'Weekly entries',
+	'settings.goalMonthlyWords': 'Monthly words',
+	'settings.goalMonthlyEntries': 'Monthly entries',
+	'settings.onThisDay': 'On this day',
+	'settings.onThisDayYears': 'Years to look back',
+	'settings.onThisDayYearsDesc': 'How many past years to show for today (1-10)',
+	'settings.onThisDayRange': 'Date match range',
+	'settings.onThisDayRangeDesc': 'Match entries within ±N days of the same date. 0 matches the same month and day only.',
+	'settings.onThisDayMax': 'Entries per year',
+	'settings.onThisDayMaxDesc': 'Maximum number of entries shown for each year',
+};
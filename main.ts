@@ -1,6 +1,18 @@
-import { Plugin, PluginSettingTab, Setting, App, TFolder, TFile, Menu, MenuItem, Notice, WorkspaceLeaf } from 'obsidian';
+import { Plugin, PluginSettingTab, Setting, App, TAbstractFile, TFolder, TFile, Menu, MenuItem, Notice, WorkspaceLeaf } from 'obsidian';
 import { JournalView, JOURNAL_VIEW_TYPE } from './JournalView';
 import { EditorImageLayout } from './EditorImageLayout';
+import { GalleryCodeBlock } from './GalleryCodeBlock';
+import { SortMode, DEFAULT_SORT_MODE, SORT_MODE_OPTIONS } from './EntrySorter';
+import { DEFAULT_STREAK_OPTIONS } from './StatisticsCalculator';
+import { WritingGoals, DEFAULT_WRITING_GOALS } from './GoalTracker';
+import { DateResolver, DateStrategy } from './DateResolver';
+import { ThumbnailCache } from './ThumbnailCache';
+import { THUMBNAIL, GALLERY_FIELD } from './constants';
+import { AutoLayoutScope } from './AutoLayoutScope';
+import { GalleryLayoutName, GALLERY_LAYOUT_OPTIONS, DEFAULT_GALLERY_LAYOUT } from './GalleryLayoutEngine';
+import { t, setLocale, LocaleSetting, LOCALE_NAMES } from './i18n';
+import { CaptionStyle, CAPTION_STYLE_OPTIONS, DEFAULT_CAPTION_STYLE, ImageCaption } from './ImageCaption';
+import { getMediaType } from './utils';
 
 interface JournalPluginSettings {
 	folderPath: string; // 保留用于向后兼容
@@ -8,8 +20,24 @@ interface JournalPluginSettings {
 	imageLimit: number;
 	folderJournalViews: Record<string, string>; // 文件夹路径 -> 视图文件路径
 	enableAutoLayout: boolean; // 是否在手记视图文件夹中启用自动布局
+	autoLayoutInclude: string[]; // 自动布局额外包含的路径（glob）
+	autoLayoutExclude: string[]; // 自动布局排除的路径（glob）
+	galleryLayout: GalleryLayoutName; // 卡片和自动布局使用的图片布局
+	folderGalleryLayouts: Record<string, GalleryLayoutName>; // 文件夹路径 -> 图片布局（优先于全局布局）
+	captionStyle: CaptionStyle; // 卡片和自动布局中图片说明的显示方式
 	folderDateFields: Record<string, string>; // 文件夹路径 -> 日期字段名（frontmatter 中的字段名）
+	folderDateStrategies: Record<string, DateStrategy[]>; // 文件夹路径 -> 日期解析规则（按顺序尝试，未设置时使用默认规则）
 	defaultTemplate: string; // 创建新笔记时的默认模板
+	onThisDayYears: number; // "那年今日"回顾的年数
+	onThisDayRangeDays: number; // "那年今日"模糊匹配范围（±N 天，0 表示精确匹配）
+	onThisDayMaxEntriesPerYear: number; // "那年今日"每年最多显示的条目数
+	defaultSortMode: SortMode; // 新打开的视图默认使用的排序方式
+	streakAllowYesterdayStart: boolean; // 今天还没写时从昨天开始计算连续天数
+	streakGraceDays: number; // 连续记录允许中断的天数
+	dayRolloverHour: number; // 日期分界时间（在此之前写的手记算作前一天）
+	streakMode: 'entries' | 'goal'; // 连续天数计算方式：有记录即可 / 需要达成每日目标
+	writingGoals: WritingGoals; // 写作目标（0 表示不设置）
+	language: LocaleSetting; // 界面语言（auto 跟随 Obsidian）
 }
 
 const DEFAULT_SETTINGS: JournalPluginSettings = {
@@ -18,22 +46,59 @@ const DEFAULT_SETTINGS: JournalPluginSettings = {
 	imageLimit: 3,
 	folderJournalViews: {},
 	enableAutoLayout: false, // 默认不启用
+	autoLayoutInclude: [],
+	autoLayoutExclude: [],
+	galleryLayout: DEFAULT_GALLERY_LAYOUT,
+	folderGalleryLayouts: {}, // 文件夹路径 -> 图片布局
+	captionStyle: DEFAULT_CAPTION_STYLE,
 	folderDateFields: {}, // 文件夹路径 -> 日期字段名
+	folderDateStrategies: {}, // 文件夹路径 -> 日期解析规则
 	defaultTemplate: '', // 默认模板（空字符串表示使用默认格式）
+	onThisDayYears: 3,
+	onThisDayRangeDays: 0,
+	onThisDayMaxEntriesPerYear: 5,
+	defaultSortMode: DEFAULT_SORT_MODE,
+	streakAllowYesterdayStart: DEFAULT_STREAK_OPTIONS.allowYesterdayStart,
+	streakGraceDays: DEFAULT_STREAK_OPTIONS.graceDays,
+	dayRolloverHour: DEFAULT_STREAK_OPTIONS.dayRolloverHour,
+	streakMode: 'entries',
+	writingGoals: { ...DEFAULT_WRITING_GOALS },
+	language: 'auto',
 };
 
 export default class JournalPlugin extends Plugin {
 	settings: JournalPluginSettings;
 	view: JournalView | null = null;
+	thumbnailCache: ThumbnailCache;
 	private editorImageLayout: EditorImageLayout | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		// 注册命令和视图之前设置界面语言
+		setLocale(this.settings.language);
+		ImageCaption.setStyle(this.settings.captionStyle);
+
+		// 缩略图缓存（原图修改、删除或重命名后清除旧的缩略图）
+		this.thumbnailCache = new ThumbnailCache(this.app, `${this.manifest.dir}/${THUMBNAIL.DIR_NAME}`);
+		// 只有图片有缩略图，笔记自动保存等其他文件的事件不处理
+		const isImage = (file: TAbstractFile) => file instanceof TFile && getMediaType(file.extension) === 'image';
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (isImage(file)) this.thumbnailCache.invalidate(file.path);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (isImage(file)) this.thumbnailCache.invalidate(file.path);
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (isImage(file)) this.thumbnailCache.invalidate(oldPath);
+		}));
 
 		// 初始化编辑器图片布局增强
 		this.editorImageLayout = new EditorImageLayout(this.app, this);
 		this.editorImageLayout.initialize();
 
+		// 注册 gallery 代码块（明确指定的图片布局，不受自动布局设置影响）
+		new GalleryCodeBlock(this.app, this).initialize();
+
 		// 注册视图
 		this.registerView(JOURNAL_VIEW_TYPE, (leaf) => {
 			const view = new JournalView(leaf, this.app, this);
@@ -44,16 +109,69 @@ export default class JournalPlugin extends Plugin {
 		// 添加命令：打开手记视图
 		this.addCommand({
 			id: 'open-journal-view',
-			name: '打开手记视图',
+			name: t('command.openView'),
 			callback: () => {
 				this.activateView();
 			},
 		});
 
+		// 添加命令：打开统计面板
+		this.addCommand({
+			id: 'open-journal-statistics',
+			name: t('command.openStatistics'),
+			checkCallback: (checking: boolean) => {
+				if (!this.view) return false;
+				if (!checking) {
+					this.view.openStatisticsDashboard();
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：日期解析诊断
+		this.addCommand({
+			id: 'open-date-diagnostics',
+			name: t('command.dateDiagnostics'),
+			checkCallback: (checking: boolean) => {
+				if (!this.view) return false;
+				if (!checking) {
+					this.view.openDateDiagnostics();
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：将日期写入 frontmatter
+		this.addCommand({
+			id: 'normalize-dates-to-frontmatter',
+			name: t('command.normalizeDates'),
+			checkCallback: (checking: boolean) => {
+				if (!this.view) return false;
+				if (!checking) {
+					this.view.openDateNormalizer();
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：切换当前笔记的自动布局
+		this.addCommand({
+			id: 'toggle-note-auto-layout',
+			name: t('command.toggleAutoLayout'),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) {
+					this.toggleNoteAutoLayout(file);
+				}
+				return true;
+			},
+		});
+
 		// 添加命令：刷新手记视图
 		this.addCommand({
 			id: 'refresh-journal-view',
-			name: '刷新手记视图',
+			name: t('command.refresh'),
 			callback: () => {
 				if (this.view) {
 					this.view.refresh();
@@ -96,14 +214,14 @@ export default class JournalPlugin extends Plugin {
 				// 只对文件夹显示菜单
 				if (file instanceof TFolder) {
 					menu.addItem((item) => {
-						item.setTitle('手记').setIcon('calendar');
+						item.setTitle(t('menu.journal')).setIcon('calendar');
 						// @ts-ignore - setSubmenu 可能不在类型定义中，但实际存在
 						const submenu = item.setSubmenu();
 
 						// 选项1: 创建文件夹手记视图
 						submenu.addItem((subItem: MenuItem) => {
 							subItem
-								.setTitle('创建文件夹手记视图')
+								.setTitle(t('menu.linkFolderView'))
 								.setIcon('link')
 								.onClick(async () => {
 									await this.createFolderJournalView(file);
@@ -113,7 +231,7 @@ export default class JournalPlugin extends Plugin {
 						// 选项2: 创建子文件手记视图
 						submenu.addItem((subItem: MenuItem) => {
 							subItem
-								.setTitle('创建子文件手记视图')
+								.setTitle(t('menu.createViewFile'))
 								.setIcon('file-plus')
 								.onClick(async () => {
 									await this.createSubFileJournalView(file);
@@ -132,12 +250,32 @@ export default class JournalPlugin extends Plugin {
 		await this.saveSettings();
 
 		// 显示成功提示
-		new Notice(`已为文件夹 "${folder.name}" 创建手记视图关联。点击文件夹时将自动打开手记视图。`);
+		new Notice(t('notice.folderViewLinked', { folder: folder.name }));
 
 		// 立即打开手记视图
 		await this.openFolderJournalView(folder);
 	}
 
+	/**
+	 * 切换笔记的自动布局（写入 frontmatter 的 gallery 字段）
+	 * 切换后的状态与所在范围的默认状态相同时删除该字段，不留下多余的设置
+	 */
+	private async toggleNoteAutoLayout(file: TFile): Promise<void> {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const enabled = !AutoLayoutScope.isEnabled(this.settings, file.path, frontmatter);
+		const inScope = AutoLayoutScope.isInScope(this.settings, file.path);
+
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			if (enabled === inScope) {
+				delete fm[GALLERY_FIELD];
+			} else {
+				fm[GALLERY_FIELD] = enabled;
+			}
+		});
+
+		new Notice(t(enabled ? 'notice.noteAutoLayoutEnabled' : 'notice.noteAutoLayoutDisabled', { file: file.basename }));
+	}
+
 	private async createSubFileJournalView(folder: TFolder): Promise<void> {
 		// 在文件夹下创建手记视图文件
 		const viewFileName = `${folder.name}手记视图.md`;
@@ -149,22 +287,13 @@ folder-path: ${folder.path}
 type: sub-file
 ---
 
-# ${folder.name} 手记视图
-
-此文件显示文件夹 "${folder.name}" 下的所有手记条目。
-
-## 使用说明
-
-- 此文件会自动扫描当前文件夹下的所有 Markdown 文件
-- 按日期组织显示
-- 支持图片预览和内容预览
-`;
+${t('viewFile.content', { folder: folder.name })}`;
 
 		try {
 			// 检查文件是否已存在
 			const existingFile = this.app.vault.getAbstractFileByPath(viewPath);
 			if (existingFile instanceof TFile) {
-				new Notice(`文件 "${viewFileName}" 已存在`);
+				new Notice(t('notice.viewFileExists', { file: viewFileName }));
 				// 打开手记视图而不是文件本身
 				await this.openFolderJournalView(folder);
 			} else {
@@ -172,11 +301,11 @@ type: sub-file
 				await this.app.vault.create(viewPath, viewContent);
 				// 打开手记视图
 				await this.openFolderJournalView(folder);
-				new Notice(`已创建手记视图文件: ${viewFileName}`);
+				new Notice(t('notice.viewFileCreated', { file: viewFileName }));
 			}
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
-			new Notice(`创建失败: ${errorMessage}`);
+			new Notice(t('notice.viewFileFailed', { error: errorMessage }));
 		}
 	}
 
@@ -326,11 +455,23 @@ type: sub-file
 			DEFAULT_SETTINGS,
 			await this.loadData()
 		);
+		// 嵌套对象需要单独合并，保证新增的目标字段有默认值
+		this.settings.writingGoals = { ...DEFAULT_WRITING_GOALS, ...this.settings.writingGoals };
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
+
+	/**
+	 * 图片布局或说明样式变化后重新渲染手记视图和实时预览中的画廊
+	 */
+	refreshGalleryLayouts(): void {
+		this.app.workspace.updateOptions();
+		if (this.view) {
+			this.view.refresh();
+		}
+	}
 }
 
 class JournalSettingTab extends PluginSettingTab {
@@ -345,7 +486,29 @@ class JournalSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
-		containerEl.createEl('h2', { text: '手记视图设置' });
+		containerEl.createEl('h2', { text: t('settings.title') });
+
+		// 界面语言
+		new Setting(containerEl)
+			.setName(t('settings.language'))
+			.setDesc(t('settings.languageDesc'))
+			.addDropdown((dropdown) => {
+				dropdown.addOption('auto', t('settings.languageAuto'));
+				for (const [locale, name] of Object.entries(LOCALE_NAMES)) {
+					dropdown.addOption(locale, name);
+				}
+				dropdown.setValue(this.plugin.settings.language);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.language = value as LocaleSetting;
+					await this.plugin.saveSettings();
+					setLocale(this.plugin.settings.language);
+					// 用新语言重新渲染设置页和已打开的视图
+					this.display();
+					if (this.plugin.view) {
+						this.plugin.view.renderIfLoaded();
+					}
+				});
+			});
 
 		// 获取所有文件夹列表（递归获取所有子文件夹）
 		const getAllFolders = (): TFolder[] => {
@@ -405,11 +568,11 @@ class JournalSettingTab extends PluginSettingTab {
 
 		// 日期字段配置（仅在选择了文件夹时显示）
 		const dateFieldSetting = new Setting(containerEl)
-			.setName('日期字段')
-			.setDesc('指定该文件夹下文件使用的日期字段（frontmatter 中的字段名）。如果文件没有该字段，将使用文件创建时间。选择"使用默认字段"则使用默认字段（date, Date, created, created_time）。')
+			.setName(t('settings.dateField'))
+			.setDesc(t('settings.dateFieldDesc'))
 			.addDropdown((dropdown) => {
 				// 添加常用日期字段选项
-				dropdown.addOption('', '使用默认字段');
+				dropdown.addOption('', t('settings.dateFieldDefault'));
 				dropdown.addOption('date', 'date');
 				dropdown.addOption('Date', 'Date');
 				dropdown.addOption('created', 'created');
@@ -439,7 +602,7 @@ class JournalSettingTab extends PluginSettingTab {
 					}
 				}
 
-				dropdown.addOption('custom', '自定义...');
+				dropdown.addOption('custom', t('settings.dateFieldCustom'));
 
 				// 设置当前值
 				currentPath = this.plugin.settings.defaultFolderPath || this.plugin.settings.folderPath || '';
@@ -471,7 +634,7 @@ class JournalSettingTab extends PluginSettingTab {
 							// 如果选择"自定义"，显示输入框让用户输入
 							const customInput = document.createElement('input');
 							customInput.type = 'text';
-							customInput.placeholder = '输入自定义字段名';
+							customInput.placeholder = t('settings.dateFieldCustomPlaceholder');
 							const currentDateField = folderPath ? (this.plugin.settings.folderDateFields[folderPath] || '') : '';
 							// 检查当前值是否在下拉选项中
 							const optionExists = Array.from(dropdown.selectEl.options).some(opt => opt.value === currentDateField && opt.value !== '---separator---');
@@ -628,7 +791,7 @@ class JournalSettingTab extends PluginSettingTab {
 							if (!customInput) {
 								customInput = document.createElement('input');
 								customInput.type = 'text';
-								customInput.placeholder = '输入自定义字段名';
+								customInput.placeholder = t('settings.dateFieldCustomPlaceholder');
 								customInput.style.width = '200px';
 								customInput.style.marginLeft = '10px';
 								customInput.classList.add('custom-date-field-input');
@@ -675,12 +838,123 @@ class JournalSettingTab extends PluginSettingTab {
 			}
 		};
 
+		// 日期解析规则配置：默认文件夹和关联了手记视图的文件夹可以分别设置（没有这些文件夹时隐藏）
+		let strategyFolder = '';
+		const getStrategyFolders = (): string[] => {
+			const defaultPath = this.plugin.settings.defaultFolderPath || this.plugin.settings.folderPath || '';
+			const folders = new Set<string>(defaultPath ? [defaultPath] : []);
+			Object.keys(this.plugin.settings.folderJournalViews).forEach(folder => folders.add(folder));
+			return Array.from(folders);
+		};
+
+		const dateStrategySetting = new Setting(containerEl)
+			.setName(t('settings.dateStrategies'))
+			.setDesc(t('settings.dateStrategiesDesc'))
+			.addDropdown((dropdown) => {
+				// 选择要编辑规则的文件夹（只有一个文件夹时隐藏）
+				dropdown.onChange((value) => {
+					strategyFolder = value;
+					updateDateStrategyVisibility();
+				});
+			})
+			.addTextArea((text) => {
+				text.inputEl.rows = 6;
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('blur', async () => {
+					const folderPath = strategyFolder;
+					if (!folderPath) return;
+
+					const { strategies, invalidLines } = DateResolver.parseStrategies(text.getValue());
+					if (invalidLines.length > 0) {
+						new Notice(t('notice.invalidDateStrategies', { lines: invalidLines.join(t('common.listSeparator')) }));
+					}
+
+					if (strategies.length > 0) {
+						this.plugin.settings.folderDateStrategies[folderPath] = strategies;
+					} else {
+						delete this.plugin.settings.folderDateStrategies[folderPath];
+					}
+					await this.plugin.saveSettings();
+
+					// 刷新已打开的该文件夹的手记视图
+					for (const leaf of this.app.workspace.getLeavesOfType(JOURNAL_VIEW_TYPE)) {
+						const view = leaf.view;
+						if (view instanceof JournalView && view.targetFolderPath === folderPath) {
+							await view.refresh();
+						}
+					}
+				});
+			});
+
+		// 根据可以设置的文件夹显示/隐藏日期解析规则，更新文件夹列表并填入所选文件夹的规则
+		const updateDateStrategyVisibility = () => {
+			const folders = getStrategyFolders();
+			dateStrategySetting.settingEl.style.display = folders.length > 0 ? '' : 'none';
+			if (!folders.includes(strategyFolder)) {
+				strategyFolder = folders[0] ?? '';
+			}
+			const currentPath = strategyFolder;
+
+			const select = dateStrategySetting.settingEl.querySelector('select') as HTMLSelectElement;
+			if (select) {
+				select.empty();
+				for (const folder of folders) {
+					select.add(new Option(folder, folder));
+				}
+				select.value = currentPath;
+				select.style.display = folders.length > 1 ? '' : 'none';
+			}
+
+			const textArea = dateStrategySetting.settingEl.querySelector('textarea') as HTMLTextAreaElement;
+			if (textArea) {
+				const strategies = currentPath ? this.plugin.settings.folderDateStrategies[currentPath] : undefined;
+				textArea.value = strategies ? DateResolver.formatStrategies(strategies) : '';
+				// 占位符显示当前生效的默认规则
+				const dateField = currentPath ? this.plugin.settings.folderDateFields[currentPath] : undefined;
+				textArea.placeholder = DateResolver.formatStrategies(DateResolver.getDefaultStrategies(dateField));
+			}
+		};
+
+		// 当前文件夹的图片布局（仅在选择了文件夹时显示）
+		const folderLayoutSetting = new Setting(containerEl)
+			.setName(t('settings.folderGalleryLayout'))
+			.setDesc(t('settings.folderGalleryLayoutDesc'))
+			.addDropdown((dropdown) => {
+				dropdown.addOption('', t('settings.galleryLayoutInherit'));
+				for (const option of GALLERY_LAYOUT_OPTIONS) {
+					dropdown.addOption(option.value, t(option.labelKey));
+				}
+				dropdown.onChange(async (value) => {
+					const folderPath = this.plugin.settings.defaultFolderPath || this.plugin.settings.folderPath || '';
+					if (!folderPath) return;
+
+					if (value) {
+						this.plugin.settings.folderGalleryLayouts[folderPath] = value as GalleryLayoutName;
+					} else {
+						delete this.plugin.settings.folderGalleryLayouts[folderPath];
+					}
+					await this.plugin.saveSettings();
+					this.plugin.refreshGalleryLayouts();
+				});
+			});
+
+		// 根据当前选择的文件夹显示/隐藏文件夹图片布局，并选中当前布局
+		const updateFolderLayoutVisibility = () => {
+			const currentPath = this.plugin.settings.defaultFolderPath || this.plugin.settings.folderPath || '';
+			folderLayoutSetting.settingEl.style.display = currentPath ? '' : 'none';
+
+			const select = folderLayoutSetting.settingEl.querySelector('select') as HTMLSelectElement;
+			if (select) {
+				select.value = (currentPath && this.plugin.settings.folderGalleryLayouts[currentPath]) || '';
+			}
+		};
+
 		// 默认模板配置
 		new Setting(containerEl)
-			.setName('默认模板')
-			.setDesc('创建新笔记时使用的模板。支持变量：{{date}}（日期 YYYY-MM-DD）、{{year}}、{{month}}、{{day}}、{{title}}（标题）。留空则使用默认格式。')
+			.setName(t('settings.template'))
+			.setDesc(t('settings.templateDesc'))
 			.addTextArea((text) => {
-				text.setPlaceholder('例如：---\ndate: {{date}}\ntags: [日记]\n---\n\n# {{title}}\n\n');
+				text.setPlaceholder(t('settings.templatePlaceholder'));
 				text.setValue(this.plugin.settings.defaultTemplate || '');
 				text.inputEl.rows = 6;
 				text.inputEl.style.width = '100%';
@@ -692,11 +966,11 @@ class JournalSettingTab extends PluginSettingTab {
 
 		// 默认文件夹选择（下拉）
 		new Setting(containerEl)
-			.setName('默认文件夹')
-			.setDesc('选择默认的日记文件夹。使用 Ctrl+P 打开手记视图时将自动打开此文件夹的视图。')
+			.setName(t('settings.defaultFolder'))
+			.setDesc(t('settings.defaultFolderDesc'))
 			.addDropdown((dropdown) => {
 				// 添加"扫描整个 Vault"选项
-				dropdown.addOption('', '扫描整个 Vault');
+				dropdown.addOption('', t('settings.wholeVault'));
 
 				// 添加所有文件夹选项
 				const folders = getAllFolders();
@@ -722,6 +996,8 @@ class JournalSettingTab extends PluginSettingTab {
 
 					// 更新日期字段设置的显示状态和值
 					updateDateFieldVisibility();
+					updateDateStrategyVisibility();
+					updateFolderLayoutVisibility();
 
 					// 如果视图已打开，自动刷新
 					if (this.plugin.view) {
@@ -742,23 +1018,91 @@ class JournalSettingTab extends PluginSettingTab {
 
 		// 初始显示状态
 		updateDateFieldVisibility();
+		updateDateStrategyVisibility();
+		updateFolderLayoutVisibility();
 
 		// 是否在手记视图文件夹中启用自动布局
 		new Setting(containerEl)
-			.setName('是否在手记视图文件夹中启用自动布局')
-			.setDesc('启用后，仅在默认文件夹中的文件会应用自动图片布局。默认为否。')
+			.setName(t('settings.autoLayout'))
+			.setDesc(t('settings.autoLayoutDesc'))
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.enableAutoLayout)
 					.onChange(async (value) => {
 						this.plugin.settings.enableAutoLayout = value;
 						await this.plugin.saveSettings();
+						// 让编辑器扩展按新设置重新计算实时预览中的画廊
+						this.app.workspace.updateOptions();
 					})
 			);
 
+		// 自动布局额外包含和排除的路径（每行一条 glob）
+		new Setting(containerEl)
+			.setName(t('settings.autoLayoutInclude'))
+			.setDesc(t('settings.autoLayoutIncludeDesc'))
+			.addTextArea((text) => {
+				text.setPlaceholder('Travel/**\nNotes/*/photos');
+				text.setValue(this.plugin.settings.autoLayoutInclude.join('\n'));
+				text.inputEl.rows = 3;
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('blur', async () => {
+					this.plugin.settings.autoLayoutInclude = AutoLayoutScope.parsePatterns(text.getValue());
+					await this.plugin.saveSettings();
+					this.app.workspace.updateOptions();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t('settings.autoLayoutExclude'))
+			.setDesc(t('settings.autoLayoutExcludeDesc'))
+			.addTextArea((text) => {
+				text.setPlaceholder('Journal/Templates\n**/drafts/**');
+				text.setValue(this.plugin.settings.autoLayoutExclude.join('\n'));
+				text.inputEl.rows = 3;
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('blur', async () => {
+					this.plugin.settings.autoLayoutExclude = AutoLayoutScope.parsePatterns(text.getValue());
+					await this.plugin.saveSettings();
+					this.app.workspace.updateOptions();
+				});
+			});
+
+		// 图片布局（卡片和自动布局共用）
+		new Setting(containerEl)
+			.setName(t('settings.galleryLayout'))
+			.setDesc(t('settings.galleryLayoutDesc'))
+			.addDropdown((dropdown) => {
+				for (const option of GALLERY_LAYOUT_OPTIONS) {
+					dropdown.addOption(option.value, t(option.labelKey));
+				}
+				dropdown.setValue(this.plugin.settings.galleryLayout);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.galleryLayout = value as GalleryLayoutName;
+					await this.plugin.saveSettings();
+					this.plugin.refreshGalleryLayouts();
+				});
+			});
+
+		// 图片说明样式（卡片和自动布局共用）
+		new Setting(containerEl)
+			.setName(t('settings.captionStyle'))
+			.setDesc(t('settings.captionStyleDesc'))
+			.addDropdown((dropdown) => {
+				for (const option of CAPTION_STYLE_OPTIONS) {
+					dropdown.addOption(option.value, t(option.labelKey));
+				}
+				dropdown.setValue(this.plugin.settings.captionStyle);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.captionStyle = value as CaptionStyle;
+					ImageCaption.setStyle(this.plugin.settings.captionStyle);
+					await this.plugin.saveSettings();
+					this.plugin.refreshGalleryLayouts();
+				});
+			});
+
 		new Setting(containerEl)
-			.setName('图片显示限制')
-			.setDesc('每个手记卡片最多显示的图片数量')
+			.setName(t('settings.imageLimit'))
+			.setDesc(t('settings.imageLimitDesc'))
 			.addSlider((slider) =>
 				slider
 					.setLimits(1, 10, 1)
@@ -773,5 +1117,190 @@ class JournalSettingTab extends PluginSettingTab {
 						}
 					})
 			);
+
+		new Setting(containerEl)
+			.setName(t('settings.thumbnailCache'))
+			.setDesc(t('settings.thumbnailCacheDesc'))
+			.addButton((button) =>
+				button
+					.setButtonText(t('settings.thumbnailCacheClear'))
+					.onClick(async () => {
+						await this.plugin.thumbnailCache.clear();
+						new Notice(t('notice.thumbnailCacheCleared'));
+						if (this.plugin.view) {
+							this.plugin.view.refresh();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.defaultSort'))
+			.setDesc(t('settings.defaultSortDesc'))
+			.addDropdown((dropdown) => {
+				for (const option of SORT_MODE_OPTIONS) {
+					dropdown.addOption(option.value, t(option.labelKey));
+				}
+				dropdown.setValue(this.plugin.settings.defaultSortMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.defaultSortMode = value as SortMode;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// 连续记录
+		containerEl.createEl('h3', { text: t('settings.streak') });
+
+		new Setting(containerEl)
+			.setName(t('settings.yesterdayStart'))
+			.setDesc(t('settings.yesterdayStartDesc'))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.streakAllowYesterdayStart)
+					.onChange(async (value) => {
+						this.plugin.settings.streakAllowYesterdayStart = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.graceDays'))
+			.setDesc(t('settings.graceDaysDesc'))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 7, 1)
+					.setValue(this.plugin.settings.streakGraceDays)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.streakGraceDays = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.rolloverHour'))
+			.setDesc(t('settings.rolloverHourDesc'))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 12, 1)
+					.setValue(this.plugin.settings.dayRolloverHour)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.dayRolloverHour = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.streakMode'))
+			.setDesc(t('settings.streakModeDesc'))
+			.addDropdown((dropdown) => {
+				dropdown.addOption('entries', t('settings.streakModeEntries'));
+				dropdown.addOption('goal', t('settings.streakModeGoal'));
+				dropdown.setValue(this.plugin.settings.streakMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.streakMode = value === 'goal' ? 'goal' : 'entries';
+					await this.plugin.saveSettings();
+					if (this.plugin.view) {
+						this.plugin.view.renderIfLoaded();
+					}
+				});
+			});
+
+		// 写作目标
+		containerEl.createEl('h3', { text: t('settings.goals') });
+		containerEl.createEl('p', {
+			text: t('settings.goalsDesc'),
+			cls: 'setting-item-description',
+		});
+
+		const goalSettings: { key: keyof WritingGoals; name: string }[] = [
+			{ key: 'dailyWords', name: t('settings.goalDailyWords') },
+			{ key: 'dailyEntries', name: t('settings.goalDailyEntries') },
+			{ key: 'weeklyWords', name: t('settings.goalWeeklyWords') },
+			{ key: 'weeklyEntries', name: t('settings.goalWeeklyEntries') },
+			{ key: 'monthlyWords', name: t('settings.goalMonthlyWords') },
+			{ key: 'monthlyEntries', name: t('settings.goalMonthlyEntries') },
+		];
+		for (const goal of goalSettings) {
+			new Setting(containerEl)
+				.setName(goal.name)
+				.addText((text) => {
+					text.inputEl.type = 'number';
+					text.inputEl.min = '0';
+					text.setValue(String(this.plugin.settings.writingGoals[goal.key] || 0));
+					text.onChange(async (value) => {
+						const target = parseInt(value);
+						this.plugin.settings.writingGoals[goal.key] = isNaN(target) || target < 0 ? 0 : target;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					});
+				});
+		}
+
+		// 那年今日
+		containerEl.createEl('h3', { text: t('settings.onThisDay') });
+
+		new Setting(containerEl)
+			.setName(t('settings.onThisDayYears'))
+			.setDesc(t('settings.onThisDayYearsDesc'))
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.onThisDayYears)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.onThisDayYears = value;
+						await this.plugin.saveSettings();
+						// 只需重新渲染，不需要重新扫描
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.onThisDayRange'))
+			.setDesc(t('settings.onThisDayRangeDesc'))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 7, 1)
+					.setValue(this.plugin.settings.onThisDayRangeDays)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.onThisDayRangeDays = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t('settings.onThisDayMax'))
+			.setDesc(t('settings.onThisDayMaxDesc'))
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setValue(this.plugin.settings.onThisDayMaxEntriesPerYear)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.onThisDayMaxEntriesPerYear = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.view) {
+							this.plugin.view.renderIfLoaded();
+						}
+					})
+			);
 	}
 }
@@ -1,25 +1,172 @@
-import { TFile, App } from 'obsidian';
+import { TFile, App, CachedMetadata, getAllTags } from 'obsidian';
+import { DATE_FIELDS, MEDIA_EXTENSIONS, COVER_FIELD, GALLERY_LAYOUT_FIELD, GALLERY_FIELD } from './constants';
+import { DateStrategy } from './DateResolver';
+import { formatFullDate } from './i18n';
 
+// 附件类型
+export type MediaType = 'image' | 'video' | 'audio' | 'pdf';
+
+/**
+ * 正文中嵌入的附件（图片、视频、音频、PDF 或外部图片）
+ */
 export interface ImageInfo {
 	name: string;
-	path: string;
+	path: string; // vault 中的路径（外部链接为 URL）
 	url: string;
 	altText?: string;
 	position: number;
+	type: MediaType;
+	isRemote?: boolean; // 是否是外部链接（http/https）
+	source?: EmbedSource; // 嵌入该附件的位置
+}
+
+/**
+ * 附件在笔记中的嵌入位置
+ */
+export interface EmbedSource {
+	path: string; // 笔记路径
+	line: number; // 嵌入所在行（从 0 开始）
+	embed: string; // 原文中的嵌入语法，例如 ![[photo.jpg|300]]
 }
 
 export interface JournalEntry {
 	file: TFile;
 	date: Date;
 	images: ImageInfo[];
+	cover: ImageInfo | null; // frontmatter 中指定的封面（cover 字段），可以不在正文中
 	content: string;
 	preview: string;
 	wordCount: number;
 	title: string;
+	tags: string[]; // 标签（frontmatter 和正文中的标签，不含 #）
+	properties: Record<string, string>; // frontmatter 中的标量属性（值统一转为字符串）
+	hasTime: boolean; // 日期是否包含具体时间（只有日期时 date 为当天 0 点）
+	dateStrategy: DateStrategy; // 决定日期的解析规则
+	dateRawValue: string; // 解析规则匹配到的原始值（用于诊断日期来源）
+}
+
+/**
+ * 根据扩展名判断附件类型，不支持的格式返回 null
+ */
+export function getMediaType(extension: string): MediaType | null {
+	const ext = extension.toLowerCase();
+	for (const type of Object.keys(MEDIA_EXTENSIONS) as MediaType[]) {
+		if ((MEDIA_EXTENSIONS[type] as readonly string[]).includes(ext)) {
+			return type;
+		}
+	}
+	return null;
+}
+
+/**
+ * 是否是外部链接
+ */
+export function isRemoteUrl(path: string): boolean {
+	return path.startsWith('http://') || path.startsWith('https://');
+}
+
+/**
+ * 外部链接的附件信息
+ * 根据 URL 路径的扩展名判断类型，没有可识别的扩展名时按图片处理（图片服务的 URL 通常没有扩展名）
+ */
+export function createRemoteMedia(url: string, position: number, altText?: string, source?: EmbedSource): ImageInfo {
+	let fileName = url;
+	try {
+		fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || url;
+	} catch {
+		// 无法解析时使用原始 URL
+	}
+	const extension = fileName.includes('.') ? fileName.split('.').pop() || '' : '';
+	return {
+		name: fileName,
+		path: url,
+		url,
+		altText: altText || undefined,
+		position,
+		type: getMediaType(extension) ?? 'image',
+		isRemote: true,
+		source,
+	};
+}
+
+/**
+ * 条目中的图片（不含视频、音频和 PDF），用于只能用 img 显示的缩略图
+ */
+export function getImageAttachments(entry: JournalEntry): ImageInfo[] {
+	return entry.images.filter(media => media.type === 'image');
+}
+
+/**
+ * 用于缩略图的图片，封面排在最前面（日历、那年今日、单日详情）
+ */
+export function getDisplayImages(entry: JournalEntry): ImageInfo[] {
+	return withCoverFirst(getImageAttachments(entry), entry.cover);
 }
 
 /**
- * 从 Markdown 正文中提取图片信息
+ * 把封面排到最前面，其余附件保持原文顺序；封面没有嵌入正文时插入到最前面
+ */
+export function withCoverFirst(media: ImageInfo[], cover: ImageInfo | null): ImageInfo[] {
+	if (!cover) return media;
+	const index = media.findIndex(item => item.path === cover.path);
+	if (index === -1) return [cover, ...media];
+	return [media[index], ...media.slice(0, index), ...media.slice(index + 1)];
+}
+
+/**
+ * 解析 frontmatter 中的封面
+ * 支持 [[photo.jpg]]、![[photo.jpg|alt]]、![](photo.jpg)、vault 路径和外部链接，无法解析或不是图片时返回 null
+ */
+export function resolveCover(value: unknown, file: TFile, app: App): ImageInfo | null {
+	if (typeof value !== 'string' || !value.trim()) return null;
+
+	let link = value.trim();
+	const wikiLink = link.match(/^!?\[\[([^\]]+)\]\]$/);
+	const markdownLink = link.match(/^!?\[[^\]]*\]\(([^)]+)\)$/);
+	if (wikiLink) {
+		link = wikiLink[1].split('|')[0].split('#')[0];
+	} else if (markdownLink) {
+		link = markdownLink[1].trim().split(/\s+"/)[0];
+	}
+	link = link.trim();
+
+	if (isRemoteUrl(link)) {
+		const media = createRemoteMedia(link, -1);
+		return media.type === 'image' ? media : null;
+	}
+
+	const imageFile = app.metadataCache.getFirstLinkpathDest(link.replace(/^\//, ''), file.path);
+	if (!(imageFile instanceof TFile) || getMediaType(imageFile.extension) !== 'image') return null;
+
+	return {
+		name: imageFile.basename,
+		path: imageFile.path,
+		url: app.vault.getResourcePath(imageFile),
+		position: -1,
+		type: 'image',
+	};
+}
+
+/**
+ * 可以显示为缩略图的附件（图片、视频和 PDF，音频没有画面）
+ */
+export function isVisualMedia(media: ImageInfo): boolean {
+	return media.type !== 'audio';
+}
+
+/**
+ * 字符偏移所在的行号（从 0 开始）
+ */
+function getLineNumber(content: string, offset: number): number {
+	let line = 0;
+	for (let i = content.indexOf('\n'); i !== -1 && i < offset; i = content.indexOf('\n', i + 1)) {
+		line++;
+	}
+	return line;
+}
+
+/**
+ * 从 Markdown 正文中提取附件信息（图片、视频、音频、PDF 和外部图片）
  */
 export function extractImagesFromContent(
 	content: string,
@@ -35,9 +182,10 @@ export function extractImagesFromContent(
 	while ((match = wikiLinkRegex.exec(content)) !== null) {
 		const imageRef = match[1];
 		const position = match.index;
+		const source = { path: file.path, line: getLineNumber(content, position), embed: match[0] };
 
-		// 处理带尺寸的格式: image.png|100x100
-		const [imageName] = imageRef.split('|');
+		// 处理带尺寸的格式: image.png|100x100，以及 PDF 页码: file.pdf#page=3
+		const [imageName] = imageRef.split('|')[0].split('#');
 
 		// 使用 Obsidian API 解析图片路径
 		const imageFile = app.metadataCache.getFirstLinkpathDest(
@@ -45,12 +193,15 @@ export function extractImagesFromContent(
 			file.path
 		);
 
-		if (imageFile && imageFile instanceof TFile) {
+		const type = imageFile instanceof TFile ? getMediaType(imageFile.extension) : null;
+		if (imageFile instanceof TFile && type) {
 			images.push({
 				name: imageName.trim(),
 				path: imageFile.path,
 				url: app.vault.getResourcePath(imageFile),
 				position: position,
+				type,
+				source,
 			});
 		}
 	}
@@ -59,11 +210,14 @@ export function extractImagesFromContent(
 	const markdownImageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
 	while ((match = markdownImageRegex.exec(content)) !== null) {
 		const altText = match[1];
-		const imagePath = match[2];
+		// 去掉可选的标题: ![alt](path "title")
+		const imagePath = match[2].trim().split(/\s+"/)[0];
 		const position = match.index;
+		const source = { path: file.path, line: getLineNumber(content, position), embed: match[0] };
 
-		// 跳过外部链接
-		if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+		// 外部链接
+		if (isRemoteUrl(imagePath)) {
+			images.push(createRemoteMedia(imagePath, position, altText, source));
 			continue;
 		}
 
@@ -84,13 +238,16 @@ export function extractImagesFromContent(
 			imageFile = app.vault.getAbstractFileByPath(normalizedPath) as TFile;
 		}
 
-		if (imageFile && imageFile instanceof TFile) {
+		const type = imageFile instanceof TFile ? getMediaType(imageFile.extension) : null;
+		if (imageFile instanceof TFile && type) {
 			images.push({
 				name: imageFile.basename,
 				path: imageFile.path,
 				url: app.vault.getResourcePath(imageFile),
 				altText: altText || undefined,
 				position: position,
+				type,
+				source,
 			});
 		}
 	}
@@ -99,68 +256,6 @@ export function extractImagesFromContent(
 	return images.sort((a, b) => a.position - b.position);
 }
 
-/**
- * 从文件名提取日期
- */
-function parseDateFromFileName(fileName: string): Date | null {
-	// ISO 格式: 2026-01-12
-	const isoMatch = fileName.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
-	if (isoMatch) {
-		return new Date(
-			parseInt(isoMatch[1]),
-			parseInt(isoMatch[2]) - 1,
-			parseInt(isoMatch[3])
-		);
-	}
-
-	// 中文格式: 2026年1月12日
-	const chineseMatch = fileName.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
-	if (chineseMatch) {
-		return new Date(
-			parseInt(chineseMatch[1]),
-			parseInt(chineseMatch[2]) - 1,
-			parseInt(chineseMatch[3])
-		);
-	}
-
-	// 点分隔: 2026.01.12
-	const dotMatch = fileName.match(/(\d{4})\.(\d{1,2})\.(\d{1,2})/);
-	if (dotMatch) {
-		return new Date(
-			parseInt(dotMatch[1]),
-			parseInt(dotMatch[2]) - 1,
-			parseInt(dotMatch[3])
-		);
-	}
-
-	return null;
-}
-
-/**
- * 从正文内容提取日期
- */
-function parseDateFromContent(content: string): Date | null {
-	// 匹配多种日期格式
-	const patterns = [
-		/(\d{4})年(\d{1,2})月(\d{1,2})日/, // 2026年1月12日
-		/(\d{4})-(\d{1,2})-(\d{1,2})/, // 2026-01-12
-		/(\d{4})\/(\d{1,2})\/(\d{1,2})/, // 2026/01/12
-	];
-
-	for (const pattern of patterns) {
-		const match = content.match(pattern);
-		if (match) {
-			return new Date(
-				parseInt(match[1]),
-				parseInt(match[2]) - 1,
-				parseInt(match[3])
-			);
-		}
-	}
-
-	return null;
-}
-
 /**
  * 解析日期值
  */
@@ -172,6 +267,12 @@ export function parseDate(dateValue: any): Date | null {
 	}
 
 	if (typeof dateValue === 'string') {
+		// 只有日期的 ISO 字符串按本地时间解析（new Date 会按 UTC 0 点解析，导致时区偏移）
+		const dateOnly = dateValue.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+		if (dateOnly) {
+			return new Date(parseInt(dateOnly[1]), parseInt(dateOnly[2]) - 1, parseInt(dateOnly[3]));
+		}
+
 		const parsed = new Date(dateValue);
 		if (!isNaN(parsed.getTime())) {
 			return parsed;
@@ -182,49 +283,13 @@ export function parseDate(dateValue: any): Date | null {
 }
 
 /**
- * 从文件提取日期（多种策略）
- * @param file 文件对象
- * @param content 文件内容
- * @param app Obsidian App 实例
- * @param customDateField 可选的日期字段名（frontmatter 中的字段名）。如果指定，优先使用该字段；如果该字段不存在，降级到文件创建时间。
+ * 日期值是否包含具体时间（例如 2026-01-12T14:30 或 2026-01-12 14:30）
  */
-export function extractDate(file: TFile, content: string, app: App, customDateField?: string): Date | null {
-	// 策略1: 从文件名提取日期
-	const fileNameDate = parseDateFromFileName(file.basename);
-	if (fileNameDate) return fileNameDate;
-
-	// 策略2: 从 frontmatter 提取
-	const metadata = app.metadataCache.getFileCache(file);
-	if (metadata?.frontmatter) {
-		// 如果指定了自定义日期字段，优先使用该字段
-		if (customDateField && metadata.frontmatter[customDateField]) {
-			const parsed = parseDate(metadata.frontmatter[customDateField]);
-			if (parsed) return parsed;
-			// 如果自定义字段存在但解析失败，降级到文件创建时间
-			return new Date(file.stat.ctime);
-		}
-
-		// 如果没有指定自定义字段，使用默认的日期字段列表
-		const dateFields = ['date', 'Date', 'created', 'created_time'] as const;
-		for (const field of dateFields) {
-			if (metadata.frontmatter[field]) {
-				const parsed = parseDate(metadata.frontmatter[field]);
-				if (parsed) return parsed;
-			}
-		}
-	}
-
-	// 如果指定了自定义日期字段但 frontmatter 中没有该字段，直接降级到文件创建时间
-	if (customDateField) {
-		return new Date(file.stat.ctime);
+export function hasTimeComponent(dateValue: any): boolean {
+	if (dateValue instanceof Date) {
+		return dateValue.getHours() !== 0 || dateValue.getMinutes() !== 0;
 	}
-
-	// 策略3: 从正文内容提取（支持中文格式）（仅在未指定自定义字段时使用）
-	const contentDate = parseDateFromContent(content);
-	if (contentDate) return contentDate;
-
-	// 策略4: 使用文件创建时间
-	return new Date(file.stat.ctime);
+	return typeof dateValue === 'string' && /\d{1,2}:\d{2}/.test(dateValue);
 }
 
 /**
@@ -253,6 +318,39 @@ export function extractTitle(content: string, fileName: string, app: App, file:
 	return fileName;
 }
 
+/**
+ * 从 metadata cache 提取标签（去掉 #，去重）
+ */
+export function extractTags(metadata: CachedMetadata | null): string[] {
+	if (!metadata) return [];
+	const tags = getAllTags(metadata) || [];
+	return Array.from(new Set(tags.map(tag => tag.replace(/^#/, '')).filter(tag => tag.length > 0)));
+}
+
+// 不作为可筛选属性的 frontmatter 字段
+const NON_FILTER_PROPERTIES = ['tags', 'tag', 'aliases', 'alias', 'cssclass', 'cssclasses', 'position', 'title', 'description', COVER_FIELD, GALLERY_LAYOUT_FIELD, GALLERY_FIELD];
+
+/**
+ * 从 frontmatter 提取标量属性（字符串、数字、布尔值），用于筛选
+ * 列表、对象和日期字段会被忽略
+ */
+export function extractProperties(frontmatter: Record<string, any> | undefined): Record<string, string> {
+	const properties: Record<string, string> = {};
+	if (!frontmatter) return properties;
+
+	for (const key of Object.keys(frontmatter)) {
+		if (NON_FILTER_PROPERTIES.includes(key) || (DATE_FIELDS as readonly string[]).includes(key)) continue;
+		const value = frontmatter[key];
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			const text = String(value).trim();
+			if (text) {
+				properties[key] = text;
+			}
+		}
+	}
+	return properties;
+}
+
 /**
  * 生成内容预览
  */
@@ -295,21 +393,56 @@ export function countWords(content: string): number {
  * 格式化日期显示
  */
 export function formatDate(date: Date): string {
-	const weekdays = [
-		'星期日',
-		'星期一',
-		'星期二',
-		'星期三',
-		'星期四',
-		'星期五',
-		'星期六',
-	];
-	return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日 ${weekdays[date.getDay()]
-		}`;
+	return formatFullDate(date);
+}
+
+/**
+ * 格式化时间（HH:mm）
+ */
+export function formatTime(date: Date): string {
+	return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * 生成日期键（本地时间，格式 YYYY-MM-DD），用于按天索引条目
+ */
+export function formatDateKey(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * 按天分组条目（键为 formatDateKey 的结果）
+ */
+export function groupByDay(
+	entries: JournalEntry[]
+): Map<string, JournalEntry[]> {
+	const grouped = new Map<string, JournalEntry[]>();
+
+	for (const entry of entries) {
+		const dayKey = formatDateKey(entry.date);
+		const dayEntries = grouped.get(dayKey);
+		if (dayEntries) {
+			dayEntries.push(entry);
+		} else {
+			grouped.set(dayKey, [entry]);
+		}
+	}
+
+	return grouped;
+}
+
+/**
+ * 生成月份键（格式 YYYY-MM），与界面语言无关，显示时再用 formatMonth 格式化
+ */
+export function formatMonthKey(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
 }
 
 /**
- * 按月份分组条目
+ * 按月份分组条目（键为 formatMonthKey 的结果）
  */
 export function groupByMonth(
 	entries: JournalEntry[]
@@ -317,8 +450,7 @@ export function groupByMonth(
 	const grouped: Record<string, JournalEntry[]> = {};
 
 	for (const entry of entries) {
-		const monthKey = `${entry.date.getFullYear()}年${entry.date.getMonth() + 1
-			}月`;
+		const monthKey = formatMonthKey(entry.date);
 		if (!grouped[monthKey]) {
 			grouped[monthKey] = [];
 		}